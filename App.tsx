@@ -1,7 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { AppState, Problem, TOPICS, User, Message } from './types';
-import { generateMathProblem } from './services/geminiService';
-import { initializeAdmin, getCurrentUser, logout, getUserMistakes, saveUserMistakes, saveLastSession, getLastSession } from './services/authService';
+import { AppState, Assignment, AssignmentItem, Attempt, Exam, HomeworkRecord, ExamQuestion, Problem, TOPICS, User, Message, Difficulty, CompetitionLevel, ProblemSourceMode, DIFFICULTY_LABELS, LEVEL_LABELS } from './types';
+import { generateEasierProblem, generateVariantProblem } from './services/geminiService';
+import { isSolved } from './services/gradingService';
+import { ProblemBankError, drawProblem } from './services/problemBank';
+import { getPublishedProblemsForStudent } from './services/authoredProblemService';
+import { endAttempt, getAttempts, recordAttempt } from './services/attemptService';
+import { getAssignmentsForStudent, getHomework, openAssignmentItem, recordHomework } from './services/assignmentService';
+import { clearActiveExam, createExam, getActiveExam, getUngradedQuestions, gradeExam, saveActiveExam } from './services/examService';
+import { ReviewRating, countDueByTopic, createReviewProblem, getDueReviews, getNextDueAt, getSchedule, scheduleReview, suggestRating } from './services/reviewScheduler';
+import { AIError, classifyAIError } from './services/aiErrors';
+import { migrateLegacyStorage, initializeAdmin, needsInitialSetup, getCurrentUser, touchSession, logout, getUserMistakes, updateUserMistakes, saveLastSession, getLastSession } from './services/authService';
+import { subscribeSyncEvents, diffMistakes, hasMistakeChanges, applyMistakeChanges } from './services/syncService';
 import { Button } from './components/Button';
 import { ProblemDisplay } from './components/ProblemDisplay';
 import { ChatInterface } from './components/ChatInterface';
@@ -9,21 +18,58 @@ import { MistakeNotebook } from './components/MistakeNotebook';
 import { AnalyticsDashboard } from './components/AnalyticsDashboard';
 import { Login } from './components/Login';
 import { ChangePassword } from './components/ChangePassword';
+import { SetupWizard } from './components/SetupWizard';
 import { CoachDashboard } from './components/CoachDashboard';
 import { AchievementModal } from './components/AchievementModal';
+import { BackupRestoreModal } from './components/BackupRestoreModal';
+import { ReviewBar } from './components/ReviewBar';
+import { HomeworkPanel } from './components/HomeworkPanel';
+import { MockExam } from './components/MockExam';
+import { ExamReport } from './components/ExamReport';
+import { AIErrorNotice } from './components/AIErrorNotice';
+
+const SOURCE_MODES: { value: ProblemSourceMode, label: string, hint: string }[] = [
+  { value: 'bank', label: '真题库', hint: '只从题库中抽取出处已核实的竞赛真题' },
+  { value: 'mix', label: '混合', hint: '题库与 AI 出题各占一半' },
+  { value: 'ai', label: 'AI 出题', hint: '由 AI 按主题和难度生成原创题目' }
+];
 
 const App: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [appState, setAppState] = useState<AppState>(AppState.Login);
   const [currentProblem, setCurrentProblem] = useState<Problem | null>(null);
   const [loading, setLoading] = useState(false);
+  const [problemError, setProblemError] = useState<{ error: AIError, retry: () => void } | null>(null);
+  const [difficulty, setDifficulty] = useState<Difficulty>('Medium');
+  const [level, setLevel] = useState<CompetitionLevel>('preliminary');
+  const [sourceMode, setSourceMode] = useState<ProblemSourceMode>('mix');
+  const [bankNotice, setBankNotice] = useState('');
+  // Bank problems drawn this session, so the next draw prefers new ones
+  const drawnBankIdsRef = useRef<Set<string>>(new Set());
+  // The problem an easier follow-up was generated from, so the student can go back to it
+  const [parentProblem, setParentProblem] = useState<Problem | null>(null);
+  // Mock exam in progress or awaiting its report being closed, and the progress of its grading
+  const [exam, setExam] = useState<Exam | null>(null);
+  const [examGrading, setExamGrading] = useState<{ graded: number, total: number } | null>(null);
+  // The student's homework sets and their work on them, reloaded on the topic screen
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [homework, setHomework] = useState<HomeworkRecord[]>([]);
   
   // Data for the current view (could be current user's or a student being viewed by coach)
   const [activeMistakes, setActiveMistakes] = useState<Problem[]>([]);
+  const [activeAttempts, setActiveAttempts] = useState<Attempt[]>([]);
+  // Problem whose attempt is open, so it can be ended when the student leaves it
+  const attemptProblemIdRef = useRef<string | null>(null);
+  // Last notebook state known to match storage; only the difference to it gets saved
+  const syncedMistakesRef = useRef<Problem[]>([]);
+  // Bumped to remount the chat when another tab extended the same conversation
+  const [chatSyncVersion, setChatSyncVersion] = useState(0);
   
   // Achievement System State
   const [showAchievements, setShowAchievements] = useState(false);
   const [previousLoginTime, setPreviousLoginTime] = useState<number | undefined>(undefined);
+  const [showBackup, setShowBackup] = useState(false);
+  const [loginNotice, setLoginNotice] = useState('');
   
   // For Coach View
   const [selectedStudent, setSelectedStudent] = useState<User | null>(null);
@@ -34,27 +80,139 @@ const App: React.FC = () => {
   const contentContainerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    initializeAdmin();
-    const user = getCurrentUser();
-    if (user) {
-      handleLoginSuccess(user);
-    }
+    const restoreSession = async () => {
+      await migrateLegacyStorage();
+      await initializeAdmin();
+      if (await needsInitialSetup()) {
+        setAppState(AppState.InitialSetup);
+        return;
+      }
+      const user = await getCurrentUser();
+      if (user) {
+        await handleLoginSuccess(user);
+      }
+    };
+    restoreSession().catch(console.error);
   }, []);
 
   // Save mistakes whenever they change, BUT ONLY if we are a student logged in
   useEffect(() => {
     if (currentUser && currentUser.role === 'student' && appState !== AppState.Login) {
-      saveUserMistakes(currentUser.id, activeMistakes);
+      const changes = diffMistakes(syncedMistakesRef.current, activeMistakes);
+      if (!hasMistakeChanges(changes)) return;
+      syncedMistakesRef.current = activeMistakes;
+      updateUserMistakes(currentUser.id, changes).catch(console.error);
     }
   }, [activeMistakes, currentUser, appState]);
 
+  // Session expiry: poll for idle/absolute timeout (or a deactivated or deleted account),
+  // and count user input as activity
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const expireIfSignedOut = (user: User | null) => {
+      if (!user) {
+        resetToLogin();
+        setLoginNotice("登录已过期，请重新登录");
+      }
+    };
+
+    const checkTimer = setInterval(() => {
+      getCurrentUser().then(expireIfSignedOut).catch(console.error);
+    }, 30 * 1000);
+
+    // Writing the session on every keystroke is wasteful; once a minute is plenty
+    let lastTouch = 0;
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastTouch < 60 * 1000) return;
+      lastTouch = now;
+      touchSession().then(expireIfSignedOut).catch(console.error);
+    };
+    const activityEvents = ['mousedown', 'keydown', 'touchstart', 'wheel'];
+    activityEvents.forEach(e => window.addEventListener(e, handleActivity, { passive: true }));
+
+    return () => {
+      clearInterval(checkTimer);
+      activityEvents.forEach(e => window.removeEventListener(e, handleActivity));
+    };
+  }, [currentUser]);
+
+  // Keep this tab consistent with writes made in other tabs
+  useEffect(() => {
+    return subscribeSyncEvents((event) => {
+      if (event.type === 'auth') {
+        if (!event.user) {
+          if (currentUser) resetToLogin();
+        } else if (!currentUser || currentUser.id !== event.user.id || appState === AppState.ChangePassword) {
+          // Another account took over this browser: drop the previous user's state first
+          if (currentUser && currentUser.id !== event.user.id) resetToLogin();
+          // Adopt the session the other tab stored, which also carries the server's token
+          getCurrentUser().then(user => user && handleLoginSuccess(user)).catch(console.error);
+        } else {
+          setCurrentUser(event.user);
+        }
+        return;
+      }
+
+      if (!currentUser || currentUser.role !== 'student' || event.userId !== currentUser.id) return;
+
+      if (event.type === 'mistakes') {
+        // Merge by problem id; local edits not yet saved stay in the diff against the ref
+        syncedMistakesRef.current = applyMistakeChanges(syncedMistakesRef.current, event.changes);
+        setActiveMistakes(prev => applyMistakeChanges(prev, event.changes));
+      } else if (event.type === 'session') {
+        const remote = event.problem;
+        const localChat = currentProblem?.chatHistory || [];
+        const remoteChat = remote?.chatHistory || [];
+        const extendsLocalChat = remoteChat.length > localChat.length
+          && localChat.every((m, i) => remoteChat[i].id === m.id);
+
+        if (remote && appState === AppState.ProblemActive && remote.id === currentProblem?.id && extendsLocalChat) {
+          setCurrentProblem(remote);
+          setChatSyncVersion(v => v + 1);
+        }
+      }
+    });
+  }, [currentUser, currentProblem, appState]);
+
   // Persist Current Session (Last active problem) whenever it changes
   useEffect(() => {
     if (currentUser && currentUser.role === 'student' && appState === AppState.ProblemActive) {
-      saveLastSession(currentUser.id, currentProblem);
+      saveLastSession(currentUser.id, currentProblem).catch(console.error);
     }
   }, [currentProblem, currentUser, appState]);
 
+  // Persist the mock exam, debounced since answers change on every keystroke
+  useEffect(() => {
+    if (!currentUser || currentUser.role !== 'student' || !exam) return;
+    const timer = setTimeout(() => saveActiveExam(currentUser.id, exam).catch(console.error), 1000);
+    return () => clearTimeout(timer);
+  }, [exam, currentUser]);
+
+  // Attempt log: the open attempt follows the chat and ends when the student leaves the problem
+  useEffect(() => {
+    if (!currentUser || currentUser.role !== 'student') return;
+    const activeProblem = appState === AppState.ProblemActive ? currentProblem : null;
+    const previousId = attemptProblemIdRef.current;
+    attemptProblemIdRef.current = activeProblem?.id || null;
+
+    if (previousId && previousId !== activeProblem?.id) endAttempt(currentUser.id, previousId).catch(console.error);
+    if (activeProblem) recordAttempt(currentUser.id, activeProblem).catch(console.error);
+    if (activeProblem?.assignmentId) recordHomework(currentUser, activeProblem).catch(console.error);
+  }, [currentProblem, currentUser, appState]);
+
+  // Coaches assign homework at any time, so it is reloaded whenever the topic screen shows
+  useEffect(() => {
+    if (!currentUser || currentUser.role !== 'student' || appState !== AppState.TopicSelection) return;
+    Promise.all([getAssignmentsForStudent(currentUser), getHomework(currentUser.id)])
+      .then(([loadedAssignments, loadedHomework]) => {
+        setAssignments(loadedAssignments);
+        setHomework(loadedHomework);
+      })
+      .catch(console.error);
+  }, [currentUser, appState]);
+
   // Handle Dragging Logic
   useEffect(() => {
     if (!isDragging) return;
@@ -92,30 +250,43 @@ const App: React.FC = () => {
     };
   }, [isDragging]);
 
-  const handleLoginSuccess = (user: User, prevLoginTime?: number) => {
-    setCurrentUser(user);
-    setPreviousLoginTime(prevLoginTime);
-    
+  const handleLoginSuccess = async (user: User, prevLoginTime?: number) => {
+    setLoginNotice('');
     if (user.isFirstLogin) {
+      setCurrentUser(user);
+      setPreviousLoginTime(prevLoginTime);
       setAppState(AppState.ChangePassword);
       return;
     }
 
-    if (user.role === 'coach') {
+    if (user.role !== 'student') {
+      setCurrentUser(user);
+      setPreviousLoginTime(prevLoginTime);
       setAppState(AppState.CoachDashboard);
     } else {
-      // Load student data
-      const loadedMistakes = getUserMistakes(user.id);
+      // Load student data before touching state so the save effects never see a half-loaded user
+      const [loadedMistakes, lastSession, loadedAttempts, activeExam] = await Promise.all([
+        getUserMistakes(user.id),
+        getLastSession(user.id),
+        getAttempts(user.id),
+        getActiveExam(user.id)
+      ]);
+      syncedMistakesRef.current = loadedMistakes;
+      setCurrentUser(user);
+      setPreviousLoginTime(prevLoginTime);
       setActiveMistakes(loadedMistakes);
+      setActiveAttempts(loadedAttempts);
       
       // If we have a prevLoginTime (coming from manual login), show achievements
       if (prevLoginTime !== undefined) {
          setShowAchievements(true);
       }
 
-      // Try to restore last session
-      const lastSession = getLastSession(user.id);
-      if (lastSession) {
+      // Resume an unfinished mock exam first, then try to restore last session
+      if (activeExam) {
+        setExam(activeExam);
+        setAppState(AppState.MockExam);
+      } else if (lastSession) {
         setCurrentProblem(lastSession);
         setAppState(AppState.ProblemActive);
       } else {
@@ -125,42 +296,95 @@ const App: React.FC = () => {
   };
 
   const handleLogout = () => {
-    logout();
+    if (currentUser && attemptProblemIdRef.current) endAttempt(currentUser.id, attemptProblemIdRef.current).catch(console.error);
+    logout().catch(console.error);
+    resetToLogin();
+  };
+
+  const resetToLogin = () => {
+    syncedMistakesRef.current = [];
     setCurrentUser(null);
     setAppState(AppState.Login);
     setActiveMistakes([]);
+    setActiveAttempts([]);
+    attemptProblemIdRef.current = null;
     setSelectedStudent(null);
     setCurrentProblem(null);
     setShowAchievements(false);
+    setShowBackup(false);
+    setProblemError(null);
+    setBankNotice('');
+    setParentProblem(null);
+    setExam(null);
+    setExamGrading(null);
+    setAssignments([]);
+    setHomework([]);
+    drawnBankIdsRef.current = new Set();
   };
 
-  const handlePasswordChangeSuccess = () => {
+  const handlePasswordChangeSuccess = async () => {
     // Refresh user state
-    const updated = getCurrentUser();
-    if (updated) handleLoginSuccess(updated);
+    const updated = await getCurrentUser();
+    if (updated) await handleLoginSuccess(updated);
   };
 
   // --- Student / Practice Logic ---
 
+  // Bank problems drawn this session or kept in the notebook, so draws prefer new ones
+  const getSeenBankIds = () => {
+    const seenBankIds = new Set(drawnBankIdsRef.current);
+    activeMistakes.forEach(m => m.bankId && seenBankIds.add(m.bankId));
+    return seenBankIds;
+  };
+
   const handleTopicSelect = async (topic: string) => {
     setLoading(true);
+    setProblemError(null);
+    setBankNotice('');
     try {
-      const selectedTopic = topic === "随机选题" 
-        ? TOPICS[Math.floor(Math.random() * (TOPICS.length - 1))] 
-        : topic;
-        
-      const problem = await generateMathProblem(selectedTopic);
+      const classProblems = currentUser ? await getPublishedProblemsForStudent(currentUser) : [];
+      const problem = await drawProblem(topic, { difficulty, level }, sourceMode, getSeenBankIds(), classProblems);
+      if (problem.bankId) drawnBankIdsRef.current.add(problem.bankId);
+      setParentProblem(null);
       setCurrentProblem(problem);
       setAppState(AppState.ProblemActive);
     } catch (error) {
-      alert("无法生成题目。请检查网络连接或API Key。");
+      if (error instanceof ProblemBankError) {
+        setBankNotice(error.message);
+        return;
+      }
+      console.error("AI Generate Error:", error);
+      setProblemError({ error: classifyAIError(error), retry: () => handleTopicSelect(topic) });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenHomework = async (assignment: Assignment, item: AssignmentItem) => {
+    if (!currentUser) return;
+    setLoading(true);
+    setProblemError(null);
+    setBankNotice('');
+    try {
+      const problem = await openAssignmentItem(currentUser, assignment, item, homework);
+      setParentProblem(null);
+      setCurrentProblem(problem);
+      setAppState(AppState.ProblemActive);
+    } catch (error) {
+      if (error instanceof ProblemBankError) {
+        setBankNotice(error.message);
+        return;
+      }
+      console.error("AI Generate Error:", error);
+      setProblemError({ error: classifyAIError(error), retry: () => handleOpenHomework(assignment, item) });
     } finally {
       setLoading(false);
     }
   };
 
   const toggleMistake = () => {
-    if (!currentProblem) return;
+    // A review copy stands for a notebook entry that is already saved
+    if (!currentProblem || currentProblem.reviewOfId) return;
     
     // Only students can modify their notebook
     if (currentUser?.role !== 'student') return;
@@ -173,17 +397,42 @@ const App: React.FC = () => {
     }
   };
 
-  // Explicitly save the current problem (used when user gives up)
+  // Explicitly save the current problem (used when the grader finds a wrong answer or the student gives up)
   const saveCurrentProblem = () => {
-    if (!currentProblem || currentUser?.role !== 'student') return;
+    if (!currentProblem || currentProblem.reviewOfId || currentUser?.role !== 'student') return;
     // Check if already saved to avoid duplicates
     if (!activeMistakes.some(m => m.id === currentProblem.id)) {
       setActiveMistakes(prev => [{ ...currentProblem, timestamp: Date.now() }, ...prev]);
     }
   };
 
-  const handleChatUpdate = (messages: Message[]) => {
+  // Option (A) of the tutor's menu. Errors propagate to ChatInterface, which shows them.
+  const handleEasierProblem = async () => {
     if (!currentProblem) return;
+    const followUp = await generateEasierProblem(currentProblem);
+    saveCurrentProblem(); // Choosing (A) means the student could not solve the original
+    setParentProblem(currentProblem);
+    setCurrentProblem(followUp);
+  };
+
+  // "换题再练" on a notebook entry. Errors propagate to MistakeNotebook, which shows them.
+  const handleVariantProblem = async (mistake: Problem) => {
+    const variant = await generateVariantProblem(mistake);
+    setParentProblem(null);
+    setCurrentProblem(variant);
+    setAppState(AppState.ProblemActive);
+  };
+
+  const handleBackToParent = () => {
+    if (!parentProblem) return;
+    // The notebook copy carries the chat held there since the follow-up started
+    setCurrentProblem(activeMistakes.find(m => m.id === parentProblem.id) || parentProblem);
+    setParentProblem(null);
+  };
+
+  const handleChatUpdate = (messages: Message[]) => {
+    // ChatInterface reports on every render; ignore messages we already hold
+    if (!currentProblem || currentProblem.chatHistory === messages) return;
     
     const updatedProblem = { ...currentProblem, chatHistory: messages };
     setCurrentProblem(updatedProblem);
@@ -193,20 +442,122 @@ const App: React.FC = () => {
     if (activeMistakes.some(m => m.id === updatedProblem.id)) {
        setActiveMistakes(prev => prev.map(m => m.id === updatedProblem.id ? updatedProblem : m));
     }
+
+    // Solving a fresh variant masters the notebook entry it was made from
+    const { variantOfId } = updatedProblem;
+    if (variantOfId && isSolved(updatedProblem) && activeMistakes.some(m => m.id === variantOfId && !m.masteredAt)) {
+      setActiveMistakes(prev => prev.map(m => m.id === variantOfId && !m.masteredAt ? { ...m, masteredAt: Date.now() } : m));
+    }
+  };
+
+  const leaveProblem = () => {
+    saveLastSession(currentUser!.id, null).catch(console.error); // Clear last session when explicitly going back
+    setAppState(AppState.TopicSelection);
+    setCurrentProblem(null);
+    setParentProblem(null);
+  };
+
+  const handleEndSession = () => {
+    // Leaving a review early still applies the tutor's verdict, if there is one
+    if (currentProblem?.reviewOfId) {
+      handleReviewRated(suggestRating(currentProblem), false);
+      return;
+    }
+    leaveProblem();
+  };
+
+  // --- Review Logic ---
+
+  const startReview = () => {
+    const [first] = getDueReviews(activeMistakes);
+    if (!first) return;
+    setParentProblem(null);
+    setCurrentProblem(createReviewProblem(first));
+    setAppState(AppState.ProblemActive);
+  };
+
+  // Reschedules the reviewed notebook entry, then moves on to the next due one
+  const handleReviewRated = (rating: ReviewRating | null, continueReview = true) => {
+    const reviewedId = currentProblem?.reviewOfId;
+    if (!reviewedId) return;
+
+    const updated = rating
+      ? activeMistakes.map(m => m.id === reviewedId ? { ...m, review: scheduleReview(getSchedule(m), rating) } : m)
+      : activeMistakes;
+    setActiveMistakes(updated);
+
+    const next = continueReview ? getDueReviews(updated).find(m => m.id !== reviewedId) : undefined;
+    if (next) {
+      setCurrentProblem(createReviewProblem(next));
+    } else {
+      leaveProblem();
+    }
+  };
+
+  // --- Mock Exam Logic ---
+
+  // Errors propagate to MockExam, which shows them
+  const handleStartExam = async (size: number, minutes: number, onProgress: (drawn: number) => void) => {
+    const classProblems = currentUser ? await getPublishedProblemsForStudent(currentUser) : [];
+    const created = await createExam({ size, minutes, difficulty, level, sourceMode, seenBankIds: getSeenBankIds(), classProblems }, onProgress);
+    created.questions.forEach(q => q.problem.bankId && drawnBankIdsRef.current.add(q.problem.bankId));
+    setExam(created);
+  };
+
+  const handleExamAnswer = (index: number, answer: Pick<ExamQuestion, 'answerText' | 'attachment'>) => {
+    setExam(prev => prev && !prev.submittedAt
+      ? { ...prev, questions: prev.questions.map((q, i) => i === index ? { ...q, ...answer } : q) }
+      : prev);
+  };
+
+  // Hands in the paper (if not yet done) and grades what is still ungraded; missed problems go to the notebook
+  const handleGradeExam = async () => {
+    if (!exam || !currentUser || examGrading) return;
+    const submitted = exam.submittedAt ? exam : { ...exam, submittedAt: Math.min(Date.now(), exam.endsAt) };
+    setExam(submitted);
+    setExamGrading({ graded: 0, total: getUngradedQuestions(submitted).length });
+    try {
+      const result = await gradeExam(currentUser.id, submitted, (graded, total) => setExamGrading({ graded, total }));
+      setExam(result.exam);
+      setActiveMistakes(prev => [...result.missed.filter(p => !prev.some(m => m.id === p.id)), ...prev]);
+    } catch (error) {
+      console.error("Exam Grading Error:", error);
+    } finally {
+      setExamGrading(null);
+    }
+  };
+
+  const handleCloseExam = () => {
+    if (exam && currentUser) clearActiveExam(currentUser.id).catch(console.error);
+    setExam(null);
+    setAppState(AppState.TopicSelection);
+  };
+
+  // Reload the notebook after a restore wrote new data underneath us
+  const handleBackupRestored = async () => {
+    if (!currentUser) return;
+    const restored = await getUserMistakes(currentUser.id);
+    syncedMistakesRef.current = restored;
+    setActiveMistakes(restored);
   };
 
   // --- Coach Logic ---
 
-  const handleCoachSelectStudent = (student: User, mistakes: Problem[]) => {
+  const handleCoachSelectStudent = (student: User, mistakes: Problem[], attempts: Attempt[]) => {
     setSelectedStudent(student);
     setActiveMistakes(mistakes);
+    setActiveAttempts(attempts);
     setAppState(AppState.CoachAnalytics);
   };
 
   // --- Render Views ---
 
+  if (appState === AppState.InitialSetup) {
+    return <SetupWizard onSetupComplete={handleLoginSuccess} />;
+  }
+
   if (appState === AppState.Login) {
-    return <Login onLoginSuccess={handleLoginSuccess} />;
+    return <Login onLoginSuccess={handleLoginSuccess} notice={loginNotice} />;
   }
 
   if (appState === AppState.ChangePassword && currentUser) {
@@ -215,7 +566,7 @@ const App: React.FC = () => {
 
   // Coach Dashboard (Main List)
   if (appState === AppState.CoachDashboard) {
-    return <CoachDashboard onSelectStudent={handleCoachSelectStudent} onLogout={handleLogout} />;
+    return <CoachDashboard currentUser={currentUser!} onSelectStudent={handleCoachSelectStudent} onLogout={handleLogout} />;
   }
 
   // Coach viewing Student Analytics
@@ -232,6 +583,7 @@ const App: React.FC = () => {
           <div className="flex-1 overflow-hidden">
              <AnalyticsDashboard 
                 mistakes={activeMistakes}
+                attempts={activeAttempts}
                 onBack={() => setAppState(AppState.CoachDashboard)}
             />
           </div>
@@ -242,6 +594,9 @@ const App: React.FC = () => {
   // Student Application Flow
   const randomTopic = "随机选题";
   const specificTopics = TOPICS.filter(t => t !== randomTopic);
+  const dueReviews = getDueReviews(activeMistakes);
+  const dueByTopic = countDueByTopic(activeMistakes);
+  const nextDueAt = getNextDueAt(activeMistakes);
 
   return (
     <div className="h-full flex flex-col relative">
@@ -251,10 +606,19 @@ const App: React.FC = () => {
           user={currentUser} 
           previousLoginTime={previousLoginTime}
           mistakes={activeMistakes}
+          attempts={activeAttempts}
           onClose={() => setShowAchievements(false)}
         />
       )}
 
+      {showBackup && currentUser && (
+        <BackupRestoreModal
+          target={{ scope: 'student', user: currentUser }}
+          onClose={() => setShowBackup(false)}
+          onRestored={() => handleBackupRestored().catch(console.error)}
+        />
+      )}
+
       {/* Student Header */}
       <header className="bg-white border-b border-slate-200 py-4 px-6 flex items-center justify-between z-20 flex-none">
         <div className="flex items-center gap-3 cursor-pointer" onClick={() => setAppState(AppState.TopicSelection)}>
@@ -298,6 +662,112 @@ const App: React.FC = () => {
                 <p className="text-slate-500">选择特定领域专项突破，或随机测试综合能力</p>
               </div>
 
+              {/* Difficulty and competition round for generated problems */}
+              <div className="flex flex-wrap items-center justify-center gap-6 mb-10">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-slate-500">题源</span>
+                  <div className="flex bg-white border border-slate-200 rounded-xl p-1 shadow-sm">
+                    {SOURCE_MODES.map(mode => (
+                      <button
+                        key={mode.value}
+                        onClick={() => setSourceMode(mode.value)}
+                        title={mode.hint}
+                        className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                          sourceMode === mode.value ? 'bg-emerald-600 text-white' : 'text-slate-600 hover:bg-slate-100'
+                        }`}
+                      >
+                        {mode.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-slate-500">难度</span>
+                  <div className="flex bg-white border border-slate-200 rounded-xl p-1 shadow-sm">
+                    {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map(d => (
+                      <button
+                        key={d}
+                        onClick={() => setDifficulty(d)}
+                        className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                          difficulty === d ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-slate-100'
+                        }`}
+                      >
+                        {DIFFICULTY_LABELS[d]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-slate-500">赛事</span>
+                  <div className="flex bg-white border border-slate-200 rounded-xl p-1 shadow-sm">
+                    {(Object.keys(LEVEL_LABELS) as CompetitionLevel[]).map(l => (
+                      <button
+                        key={l}
+                        onClick={() => setLevel(l)}
+                        className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                          level === l ? 'bg-purple-600 text-white' : 'text-slate-600 hover:bg-slate-100'
+                        }`}
+                      >
+                        {LEVEL_LABELS[l]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {bankNotice && (
+                <div className="p-3 mb-8 bg-amber-50 text-amber-700 text-sm rounded-lg flex items-center gap-2">
+                  <span className="flex-1">{bankNotice}</span>
+                  <button onClick={() => setBankNotice('')} className="text-amber-400 hover:text-amber-700" title="关闭">✕</button>
+                </div>
+              )}
+
+              {problemError && (
+                <AIErrorNotice
+                  error={problemError.error}
+                  onRetry={problemError.retry}
+                  onDismiss={() => setProblemError(null)}
+                  className="mb-8"
+                />
+              )}
+
+              {/* Spaced-repetition review of the notebook */}
+              {activeMistakes.length > 0 && (
+                <div className="mb-12 bg-white border border-slate-200 rounded-2xl p-6 flex flex-col md:flex-row md:items-center gap-4 shadow-sm">
+                  <div className="flex-1">
+                    <h3 className="text-lg font-bold text-slate-800">
+                      今日复习
+                      <span className={`ml-2 px-2 py-0.5 rounded-full text-sm ${dueReviews.length > 0 ? 'bg-amber-100 text-amber-700' : 'bg-green-100 text-green-700'}`}>
+                        {dueReviews.length > 0 ? `${dueReviews.length} 题待复习` : '已完成'}
+                      </span>
+                    </h3>
+                    {dueReviews.length > 0 ? (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {Object.entries(dueByTopic).map(([topic, count]) => (
+                          <span key={topic} className="px-2 py-1 bg-slate-100 text-slate-600 text-xs rounded-md">{topic} · {count}</span>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-slate-500 mt-1">
+                        按遗忘曲线安排错题复习{nextDueAt ? `，下一次在 ${new Date(nextDueAt).toLocaleDateString('zh-CN')}` : ''}。
+                      </p>
+                    )}
+                  </div>
+                  <Button onClick={startReview} disabled={dueReviews.length === 0 || loading}>开始复习</Button>
+                </div>
+              )}
+
+              {/* Homework assigned by the coach */}
+              {assignments.length > 0 && (
+                <div className="mb-12">
+                  <div className="flex items-center gap-4 mb-6">
+                     <div className="w-1 h-6 bg-sky-600 rounded-full"></div>
+                     <h3 className="text-lg font-bold text-slate-800">作业</h3>
+                  </div>
+                  <HomeworkPanel assignments={assignments} records={homework} disabled={loading} onOpen={handleOpenHomework} />
+                </div>
+              )}
+
               {/* 1. Challenge by Topic */}
               <div className="mb-12">
                 <div className="flex items-center gap-4 mb-6">
@@ -320,6 +790,9 @@ const App: React.FC = () => {
                       <div>
                         <div className="absolute right-0 top-0 w-24 h-24 bg-slate-50 rounded-bl-full -mr-4 -mt-4 transition-colors group-hover:bg-indigo-50"></div>
                         <h3 className="font-semibold text-slate-900 group-hover:text-indigo-700 relative z-10 text-lg mb-2">{topic}</h3>
+                        {dueByTopic[topic] > 0 && (
+                          <span className="relative z-10 text-xs font-medium text-amber-600">{dueByTopic[topic]} 道错题待复习</span>
+                        )}
                       </div>
                       <div className="flex items-center gap-1 text-slate-400 text-sm relative z-10 group-hover:text-indigo-500 font-medium mt-4">
                         <span>开始练习</span>
@@ -332,15 +805,15 @@ const App: React.FC = () => {
                 </div>
               </div>
 
-              {/* 2. Random Challenge */}
+              {/* 2. Mock Exam */}
               <div>
                 <div className="flex items-center gap-4 mb-6">
                    <div className="w-1 h-6 bg-purple-600 rounded-full"></div>
-                   <h3 className="text-lg font-bold text-slate-800">随机选题</h3>
+                   <h3 className="text-lg font-bold text-slate-800">模拟考试</h3>
                 </div>
                 
                 <button
-                  onClick={() => handleTopicSelect(randomTopic)}
+                  onClick={() => setAppState(AppState.MockExam)}
                   disabled={loading}
                   className={`w-full p-8 rounded-2xl relative overflow-hidden group transition-all duration-300 ${
                     loading 
@@ -351,9 +824,9 @@ const App: React.FC = () => {
                   <div className="absolute top-0 left-0 w-full h-full bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] opacity-10"></div>
                   <div className="relative z-10 flex flex-row items-center justify-between px-4">
                     <div className="text-left text-white">
-                      <h3 className="text-2xl font-bold mb-2">综合能力测试</h3>
+                      <h3 className="text-2xl font-bold mb-2">{exam ? '继续模拟考试' : '综合能力测试'}</h3>
                       <p className="text-indigo-100 opacity-90 max-w-lg">
-                        不区分具体主题，随机抽取一道竞赛真题。模拟真实考场环境，测试你的综合应变能力。
+                        按竞赛形式组一套覆盖各主题的试卷，限时作答、没有导师提示，交卷后统一评分并生成成绩报告。
                       </p>
                     </div>
                     <div className="bg-white/20 p-4 rounded-full backdrop-blur-sm">
@@ -378,10 +851,24 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {appState === AppState.MockExam && (exam?.submittedAt ? (
+          <ExamReport exam={exam} grading={examGrading} onGrade={handleGradeExam} onClose={handleCloseExam} />
+        ) : (
+          <MockExam
+            exam={exam}
+            settings={`${DIFFICULTY_LABELS[difficulty]} · ${LEVEL_LABELS[level]} · ${SOURCE_MODES.find(m => m.value === sourceMode)?.label}`}
+            onStart={handleStartExam}
+            onAnswer={handleExamAnswer}
+            onSubmit={handleGradeExam}
+            onExit={() => setAppState(AppState.TopicSelection)}
+          />
+        ))}
+
         {appState === AppState.MistakeNotebook && (
           <MistakeNotebook 
             mistakes={activeMistakes}
             onSelect={(problem) => {
+              setParentProblem(null);
               setCurrentProblem(problem);
               setAppState(AppState.ProblemActive);
             }}
@@ -391,23 +878,29 @@ const App: React.FC = () => {
               setActiveMistakes(newMistakes);
               // Save happens via useEffect
             }}
+            onVariant={handleVariantProblem}
             onBack={() => setAppState(AppState.TopicSelection)}
+            onBackup={() => setShowBackup(true)}
           />
         )}
 
         {appState === AppState.ProblemActive && currentProblem && (
           <div className="h-full flex flex-col">
+            {currentProblem.reviewOfId && (
+              <ReviewBar
+                remaining={dueReviews.some(m => m.id === currentProblem.reviewOfId) ? dueReviews.length : dueReviews.length + 1}
+                suggested={suggestRating(currentProblem)}
+                onRate={handleReviewRated}
+              />
+            )}
             {/* Resizable Top Pane (Problem Display) */}
             <div style={{ height: problemPaneHeight }} className="flex-none overflow-hidden relative border-b border-slate-200">
               <ProblemDisplay 
                 problem={currentProblem} 
-                onBack={() => {
-                  saveLastSession(currentUser!.id, null); // Clear last session when explicitly going back
-                  setAppState(AppState.TopicSelection);
-                  setCurrentProblem(null);
-                }} 
-                isSaved={activeMistakes.some(m => m.id === currentProblem.id)}
+                onBack={handleEndSession}
+                isSaved={!!currentProblem.reviewOfId || activeMistakes.some(m => m.id === currentProblem.id)}
                 onToggleSave={toggleMistake}
+                onBackToParent={parentProblem && currentProblem.parentProblemId === parentProblem.id ? handleBackToParent : undefined}
               />
             </div>
             
@@ -425,10 +918,11 @@ const App: React.FC = () => {
             {/* Bottom Pane (Chat Interface) */}
             <div className="flex-1 overflow-hidden min-h-0 bg-white relative">
               <ChatInterface 
-                key={currentProblem.id}
+                key={`${currentProblem.id}:${chatSyncVersion}`}
                 problem={currentProblem} 
-                onAutoSave={saveCurrentProblem}
+                onAutoSave={currentProblem.reviewOfId ? undefined : saveCurrentProblem}
                 onMessagesUpdate={handleChatUpdate}
+                onEasierProblem={currentUser?.role === 'student' && !currentProblem.reviewOfId ? handleEasierProblem : undefined}
               />
             </div>
           </div>
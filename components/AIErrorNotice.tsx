@@ -0,0 +1,33 @@
+import React from 'react';
+import { AIError, AI_ERROR_MESSAGES } from '../services/aiErrors';
+
+interface AIErrorNoticeProps {
+  error: AIError;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+export const AIErrorNotice: React.FC<AIErrorNoticeProps> = ({ error, onRetry, onDismiss, className = '' }) => {
+  // A wrong API key won't fix itself, so there is nothing to retry
+  const canRetry = onRetry && error.kind !== 'auth';
+
+  return (
+    <div className={`p-3 bg-red-50 text-red-600 text-sm rounded-lg flex items-center gap-2 ${className}`} role="alert">
+      <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" className="shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+      <span className="flex-1">{AI_ERROR_MESSAGES[error.kind]}</span>
+      {canRetry && (
+        <button type="button" onClick={onRetry} className="font-semibold hover:text-red-800 shrink-0">
+          重试
+        </button>
+      )}
+      {onDismiss && (
+        <button type="button" onClick={onDismiss} className="text-red-400 hover:text-red-700 shrink-0" title="关闭">
+          ✕
+        </button>
+      )}
+    </div>
+  );
+};
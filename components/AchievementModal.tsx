@@ -1,11 +1,13 @@
 import React, { useEffect, useState } from 'react';
-import { User, Problem } from '../types';
+import { Attempt, User, Problem } from '../types';
+import { isMastered, isSolved } from '../services/gradingService';
 import { Button } from './Button';
 
 interface AchievementModalProps {
   user: User;
   previousLoginTime?: number;
-  mistakes: Problem[]; // Use mistakes count as a proxy for experience points
+  mistakes: Problem[];
+  attempts: Attempt[];
   onClose: () => void;
 }
 
@@ -14,7 +16,7 @@ interface Badge {
   name: string;
   icon: string;
   description: string;
-  condition: (count: number, loginCount: number, topics: number) => boolean;
+  condition: (count: number, loginCount: number, topics: number, solved: number) => boolean;
 }
 
 const BADGES: Badge[] = [
@@ -52,10 +54,17 @@ const BADGES: Badge[] = [
     icon: '👑',
     description: '累计练习超过 50 道题目',
     condition: (c, l, t) => c >= 50
+  },
+  {
+    id: 'corrector',
+    name: '订正达人',
+    icon: '✅',
+    description: '在错题本中订正攻克 3 道题目',
+    condition: (c, l, t, s) => s >= 3
   }
 ];
 
-export const AchievementModal: React.FC<AchievementModalProps> = ({ user, previousLoginTime, mistakes, onClose }) => {
+export const AchievementModal: React.FC<AchievementModalProps> = ({ user, previousLoginTime, mistakes, attempts, onClose }) => {
   const [show, setShow] = useState(false);
 
   useEffect(() => {
@@ -64,17 +73,26 @@ export const AchievementModal: React.FC<AchievementModalProps> = ({ user, previo
   }, []);
 
   // Stats Calculation
-  const problemCount = mistakes.length;
+  // Distinct problems from the attempt log; notebook entries cover practice from before the log existed
+  const practiced = attempts.filter(a => a.outcome !== 'no_attempt');
+  const practicedProblems = [...practiced.map(a => a.problem), ...mistakes];
+  const problemCount = new Set(practicedProblems.map(p => p.id)).size;
   const loginCount = user.loginCount || 1;
-  const uniqueTopics = new Set(mistakes.map(m => m.topic)).size;
+  const uniqueTopics = new Set(practicedProblems.map(p => p.topic)).size;
+  const solvedCount = mistakes.filter(isMastered).length; // Graded correct (or a variant was) after being missed
+  const solvedProblems = new Set([
+    ...practiced.filter(a => a.outcome === 'solved').map(a => a.problem.id),
+    ...mistakes.filter(isSolved).map(m => m.id)
+  ]).size;
+  const experience = problemCount + solvedProblems; // A solved problem is worth double
   
   // Level Calculation (Simple linear progression)
-  // Level 1 = 0-2 problems
-  // Level 2 = 3-5 problems
+  // Level 1 = 0-2 XP
+  // Level 2 = 3-5 XP
   // etc.
-  const level = Math.floor(problemCount / 3) + 1;
+  const level = Math.floor(experience / 3) + 1;
   const nextLevelThreshold = level * 3;
-  const progressPercent = Math.min(100, ((problemCount - (level - 1) * 3) / 3) * 100);
+  const progressPercent = Math.min(100, ((experience - (level - 1) * 3) / 3) * 100);
 
   const formatTime = (timestamp?: number) => {
     if (!timestamp) return '这是您的第一次登录';
@@ -86,8 +104,8 @@ export const AchievementModal: React.FC<AchievementModalProps> = ({ user, previo
     });
   };
 
-  const unlockedBadges = BADGES.filter(b => b.condition(problemCount, loginCount, uniqueTopics));
-  const nextBadge = BADGES.find(b => !b.condition(problemCount, loginCount, uniqueTopics));
+  const unlockedBadges = BADGES.filter(b => b.condition(problemCount, loginCount, uniqueTopics, solvedCount));
+  const nextBadge = BADGES.find(b => !b.condition(problemCount, loginCount, uniqueTopics, solvedCount));
 
   return (
     <div className={`fixed inset-0 z-50 flex items-center justify-center p-4 transition-opacity duration-300 ${show ? 'opacity-100' : 'opacity-0'}`}>
@@ -129,7 +147,7 @@ export const AchievementModal: React.FC<AchievementModalProps> = ({ user, previo
           <div className="mb-8">
             <div className="flex justify-between text-xs font-bold text-slate-400 mb-1 uppercase tracking-wider">
               <span>当前进度</span>
-              <span>{problemCount} / {nextLevelThreshold} XP</span>
+              <span>{experience} / {nextLevelThreshold} XP</span>
             </div>
             <div className="h-4 bg-slate-100 rounded-full overflow-hidden shadow-inner">
               <div 
@@ -1,17 +1,33 @@
 import React, { useState, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Problem, TOPICS } from '../types';
+import { Attempt, ErrorCategory, Problem, TOPICS } from '../types';
 import { generateStudyPlan } from '../services/geminiService';
+import { AIError, classifyAIError } from '../services/aiErrors';
+import { ERROR_CATEGORY_LABELS, countErrorCategories, isMastered } from '../services/gradingService';
+import { ATTEMPT_OUTCOME_LABELS, summarizeAttempts } from '../services/attemptService';
 import { Button } from './Button';
+import { AIErrorNotice } from './AIErrorNotice';
 
 interface AnalyticsDashboardProps {
   mistakes: Problem[];
+  attempts: Attempt[];
   onBack: () => void;
 }
 
-export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ mistakes, onBack }) => {
+const OUTCOME_STYLES: Record<Attempt['outcome'], string> = {
+  solved: 'text-green-600',
+  partial: 'text-amber-600',
+  incorrect: 'text-red-600',
+  gave_up: 'text-slate-500',
+  no_attempt: 'text-slate-400'
+};
+
+const formatPercent = (value: number | null) => value === null ? '-' : `${Math.round(value * 100)}%`;
+
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ mistakes, attempts, onBack }) => {
   const [report, setReport] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [reportError, setReportError] = useState<AIError | null>(null);
 
   // Calculate statistics
   const stats = React.useMemo(() => {
@@ -35,16 +51,31 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ mistakes
       .sort(([, a], [, b]) => b - a)
       .filter(([, count]) => count > 0); // Only show topics with mistakes
 
-    return { counts, total, maxCount, sortedTopics };
+    // From the grader's verdicts in each problem's chat
+    const solved = mistakes.filter(isMastered).length;
+    const errorCategories = (Object.entries(countErrorCategories(mistakes)) as [ErrorCategory, number][])
+      .sort(([, a], [, b]) => b - a);
+
+    return { counts, total, maxCount, sortedTopics, solved, errorCategories };
   }, [mistakes]);
 
+  // Every practice session, not just the missed problems
+  const practice = React.useMemo(() => {
+    const summary = summarizeAttempts(attempts);
+    const topicAccuracy = Object.entries(summary.byTopic).sort(([, a], [, b]) => a.solved / a.total - b.solved / b.total);
+    const recent = attempts.filter(a => a.outcome !== 'no_attempt').sort((a, b) => b.startedAt - a.startedAt).slice(0, 10);
+    return { summary, topicAccuracy, recent };
+  }, [attempts]);
+
   const handleGenerateReport = async () => {
     setLoading(true);
+    setReportError(null);
     try {
-      const result = await generateStudyPlan(mistakes);
+      const result = await generateStudyPlan(mistakes, attempts);
       setReport(result);
     } catch (e) {
-      console.error(e);
+      console.error("AI Study Plan Error:", e);
+      setReportError(classifyAIError(e));
     } finally {
       setLoading(false);
     }
@@ -102,6 +133,7 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ mistakes
             <div className="mb-6">
               <span className="text-4xl font-bold">{stats.total}</span>
               <span className="text-indigo-200 ml-2">个记录在案的难点</span>
+              <div className="text-indigo-200 text-sm mt-1">其中已订正攻克 {stats.solved} 题</div>
             </div>
             <p className="text-indigo-100 text-sm mb-6 leading-relaxed">
               持续追踪你的错题是提高竞赛成绩的最快方法。点击下方按钮获取AI教练的详细诊断。
@@ -117,6 +149,78 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ mistakes
           </div>
         </div>
 
+        {practice.summary.total > 0 && (
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 mb-8">
+            <h3 className="text-lg font-bold text-slate-800 mb-4">练习记录</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              {[
+                { label: '练习题数', value: practice.summary.total },
+                { label: '正确率', value: formatPercent(practice.summary.accuracy) },
+                { label: '平均用时', value: practice.summary.averageMinutes === null ? '-' : `${Math.round(practice.summary.averageMinutes)} 分钟` },
+                { label: '平均提示', value: practice.summary.averageHints === null ? '-' : `${practice.summary.averageHints.toFixed(1)} 次` }
+              ].map(item => (
+                <div key={item.label} className="bg-slate-50 rounded-xl p-4">
+                  <div className="text-xs text-slate-500 mb-1">{item.label}</div>
+                  <div className="text-2xl font-bold text-slate-800">{item.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <h4 className="text-sm font-semibold text-slate-600">各模块正确率</h4>
+                {practice.topicAccuracy.map(([topic, t]) => (
+                  <div key={topic}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium text-slate-700">{topic}</span>
+                      <span className="text-slate-500">{t.solved}/{t.total} · {formatPercent(t.solved / t.total)}</span>
+                    </div>
+                    <div className="w-full bg-slate-100 rounded-full h-2">
+                      <div className="bg-green-500 h-2 rounded-full" style={{ width: `${(t.solved / t.total) * 100}%` }}></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div>
+                <h4 className="text-sm font-semibold text-slate-600 mb-3">最近练习</h4>
+                <ul className="divide-y divide-slate-100 text-sm">
+                  {practice.recent.map(a => (
+                    <li key={a.id} className="py-2 flex items-center gap-3">
+                      <span className="text-slate-400 w-20 flex-none">{new Date(a.startedAt).toLocaleDateString('zh-CN')}</span>
+                      <span className="flex-1 truncate text-slate-700">{a.problem.topic}</span>
+                      <span className="text-slate-400 text-xs">提示 {a.hintsUsed}</span>
+                      <span className={`font-medium w-16 text-right ${OUTCOME_STYLES[a.outcome]}`}>{a.endedAt ? ATTEMPT_OUTCOME_LABELS[a.outcome] : '进行中'}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {stats.errorCategories.length > 0 && (
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 mb-8">
+            <h3 className="text-lg font-bold text-slate-800 mb-4">错误类型分布</h3>
+            <div className="flex flex-wrap gap-3">
+              {stats.errorCategories.map(([category, count]) => (
+                <div key={category} className="px-4 py-2 rounded-xl bg-red-50 text-red-700 text-sm">
+                  <span className="font-medium">{ERROR_CATEGORY_LABELS[category]}</span>
+                  <span className="ml-2 font-bold">{count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {reportError && (
+          <AIErrorNotice
+            error={reportError}
+            onRetry={handleGenerateReport}
+            onDismiss={() => setReportError(null)}
+            className="mb-8"
+          />
+        )}
+
         {report && (
           <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200 animate-fade-in">
             <h3 className="text-xl font-bold text-slate-900 mb-6 flex items-center gap-2">
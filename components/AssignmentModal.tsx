@@ -0,0 +1,391 @@
+import React, { useState, useEffect } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { Button } from './Button';
+import { Assignment, AssignmentItem, AuthoredProblem, BankProblem, Class, Difficulty, DIFFICULTY_LABELS, HomeworkRecord, Problem, ProblemSourceMode, TOPICS, User } from '../types';
+import { getVisibleClasses } from '../services/classService';
+import { bankProblemToProblem, loadProblemBank } from '../services/problemBank';
+import { getManageableProblems, getPublishIssue } from '../services/authoredProblemService';
+import { generateMathProblem } from '../services/geminiService';
+import { classifyAIError } from '../services/aiErrors';
+import {
+  HOMEWORK_STATUS_LABELS,
+  createAssignment,
+  createItemId,
+  deleteAssignments,
+  getManageableAssignments,
+  isAssignedTo,
+  summarizeHomework
+} from '../services/assignmentService';
+
+interface AssignmentModalProps {
+  currentUser: User;
+  students: User[];                                  // Students visible to the coach
+  homeworkByStudent: Record<string, HomeworkRecord[]>;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+type ItemSource = 'bank' | 'authored' | 'ai' | 'topic';
+
+const ITEM_SOURCES: { value: ItemSource, label: string }[] = [
+  { value: 'bank', label: '题库' },
+  { value: 'authored', label: '教练题' },
+  { value: 'ai', label: 'AI 出题' },
+  { value: 'topic', label: '按主题' }
+];
+
+const TOPIC_SOURCE_MODES: { value: ProblemSourceMode, label: string }[] = [
+  { value: 'mix', label: '题库与 AI 混合' },
+  { value: 'bank', label: '只用题库' },
+  { value: 'ai', label: '只用 AI 出题' }
+];
+
+const PROBLEM_TOPICS = TOPICS.filter(t => t !== "随机选题");
+
+const itemSourceLabel = (item: AssignmentItem) => {
+  if (!item.problem) return '按主题抽题（每位学生不同）';
+  if (item.problem.origin === 'bank') return '题库';
+  if (item.problem.origin === 'authored') return '教练题';
+  return 'AI 出题';
+};
+
+// Default due date: a week from now, as the value of a datetime-local input
+const defaultDue = () => {
+  const date = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  date.setHours(22, 0, 0, 0);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toItem = (problem: Problem): AssignmentItem => {
+  const { chatHistory, ...snapshot } = problem;
+  return { id: createItemId(), topic: problem.topic, difficulty: problem.difficulty, problem: snapshot };
+};
+
+export const AssignmentModal: React.FC<AssignmentModalProps> = ({ currentUser, students, homeworkByStudent, onClose, onChanged }) => {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [bank, setBank] = useState<BankProblem[]>([]);
+  const [authored, setAuthored] = useState<AuthoredProblem[]>([]);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  // New assignment
+  const [title, setTitle] = useState('');
+  const [due, setDue] = useState(defaultDue);
+  const [classIds, setClassIds] = useState<string[]>([]);
+  const [studentIds, setStudentIds] = useState<string[]>([]);
+  const [items, setItems] = useState<AssignmentItem[]>([]);
+
+  // Item picker
+  const [source, setSource] = useState<ItemSource>('bank');
+  const [topic, setTopic] = useState(PROBLEM_TOPICS[0]);
+  const [difficulty, setDifficulty] = useState<Difficulty>('Medium');
+  const [count, setCount] = useState(3);
+  const [topicSourceMode, setTopicSourceMode] = useState<ProblemSourceMode>('mix');
+  const [generated, setGenerated] = useState<Problem | null>(null);
+
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    refresh().catch(console.error);
+    getVisibleClasses(currentUser).then(setClasses).catch(console.error);
+    loadProblemBank().then(setBank).catch(console.error);
+    getManageableProblems(currentUser).then(problems => setAuthored(problems.filter(p => !getPublishIssue(p)))).catch(console.error);
+  }, []);
+
+  const refresh = async () => {
+    setAssignments((await getManageableAssignments(currentUser)).sort((a, b) => b.createdAt - a.createdAt));
+  };
+
+  const toggle = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id];
+
+  // Wraps each action with the shared loading / error / success handling
+  const run = async (action: () => Promise<void>, message: string) => {
+    setSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      await action();
+      await refresh();
+      setSuccess(message);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "操作失败，请重试");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleGenerate = () => {
+    run(async () => {
+      try {
+        setGenerated(await generateMathProblem(topic, { difficulty }));
+      } catch (e) {
+        throw classifyAIError(e);
+      }
+    }, "题目已生成，确认后加入作业");
+  };
+
+  const addTopicItems = () => {
+    setItems(list => [...list, ...Array.from({ length: count }, (): AssignmentItem => ({
+      id: createItemId(),
+      topic,
+      difficulty,
+      sourceMode: topicSourceMode
+    }))]);
+  };
+
+  const handleAssign = () => {
+    run(async () => {
+      await createAssignment(currentUser, { title, items, studentIds, classIds, dueAt: new Date(due).getTime() });
+      setTitle('');
+      setItems([]);
+      setClassIds([]);
+      setStudentIds([]);
+      setGenerated(null);
+      onChanged();
+    }, "作业已布置");
+  };
+
+  const handleDelete = (assignment: Assignment) => {
+    if (!confirm(`确定删除作业「${assignment.title}」吗？学生已完成的记录会保留。`)) return;
+    run(async () => {
+      await deleteAssignments(currentUser, [assignment.id]);
+      if (viewingId === assignment.id) setViewingId(null);
+      onChanged();
+    }, "作业已删除");
+  };
+
+  const recipientsOf = (assignment: Assignment) => students.filter(s => isAssignedTo(assignment, s));
+  const viewing = assignments.find(a => a.id === viewingId);
+  const selectClass = "px-2 py-1.5 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+  const pickable = source === 'bank' ? bank.filter(p => p.topic === topic) : authored.filter(p => p.topic === topic);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-8 max-w-6xl w-full shadow-2xl max-h-full flex flex-col">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">作业管理</h2>
+            <p className="text-slate-500 text-sm mt-1">从题库、教练题或 AI 出题中选题，或按主题指定题量，布置给班级或学生并设定截止时间。</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">×</button>
+        </div>
+
+        {error && <p className="text-red-500 text-sm mb-3">{error}</p>}
+        {success && <p className="text-green-600 text-sm mb-3">{success}</p>}
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Assignment list */}
+          <div className="flex flex-col min-h-0">
+            <Button variant="secondary" onClick={() => setViewingId(null)} className="mb-3">布置新作业</Button>
+            <div className="flex-1 overflow-y-auto border border-slate-200 rounded-xl divide-y divide-slate-100">
+              {assignments.length === 0 && <p className="p-4 text-sm text-slate-400">暂无作业</p>}
+              {assignments.map(a => {
+                const recipients = recipientsOf(a);
+                const summaries = recipients.map(s => summarizeHomework(a, homeworkByStudent[s.id] || []));
+                return (
+                  <button
+                    key={a.id}
+                    onClick={() => setViewingId(a.id)}
+                    className={`w-full text-left px-3 py-2 ${viewingId === a.id ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <p className="text-sm font-medium text-slate-800 truncate">{a.title}</p>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {a.items.length} 题 · 截止 {new Date(a.dueAt).toLocaleString('zh-CN')}
+                      {currentUser.role === 'admin' && ` · ${a.coachName}`}
+                    </p>
+                    <p className="text-xs mt-0.5 text-slate-600">
+                      完成 {summaries.filter(s => s.status === 'completed').length}/{recipients.length}
+                      {summaries.some(s => s.late) && <span className="text-red-600"> · 逾期 {summaries.filter(s => s.late).length}</span>}
+                    </p>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="md:col-span-2 min-h-0 overflow-y-auto pr-1">
+            {viewing ? (
+              /* Progress of one assignment */
+              <div className="space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="text-lg font-bold text-slate-900">{viewing.title}</h3>
+                    <p className="text-sm text-slate-500">
+                      {viewing.items.length} 题 · 截止 {new Date(viewing.dueAt).toLocaleString('zh-CN')} · {viewing.coachName} 布置
+                    </p>
+                  </div>
+                  <button onClick={() => handleDelete(viewing)} disabled={saving} className="text-sm text-red-600 hover:text-red-800 font-medium">删除</button>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-500 border-b border-slate-200">
+                      <th className="py-2">学生</th>
+                      <th className="py-2">状态</th>
+                      <th className="py-2">完成题数</th>
+                      <th className="py-2">得分</th>
+                      <th className="py-2">完成时间</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {recipientsOf(viewing).map(s => {
+                      const summary = summarizeHomework(viewing, homeworkByStudent[s.id] || []);
+                      return (
+                        <tr key={s.id}>
+                          <td className="py-2 text-slate-800">{s.name}</td>
+                          <td className="py-2">
+                            {HOMEWORK_STATUS_LABELS[summary.status]}
+                            {summary.late && <span className="ml-1 text-red-600">{summary.status === 'completed' ? '（迟交）' : '（逾期）'}</span>}
+                          </td>
+                          <td className="py-2">{summary.completed}/{summary.total}</td>
+                          <td className="py-2">{summary.score ?? '-'}</td>
+                          <td className="py-2 text-slate-500">{summary.completedAt ? new Date(summary.completedAt).toLocaleString('zh-CN') : '-'}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {recipientsOf(viewing).length === 0 && <p className="text-sm text-slate-400">没有可查看的学生</p>}
+              </div>
+            ) : (
+              /* New assignment */
+              <div className="space-y-5">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <input value={title} placeholder="作业标题，如：第三周 级数练习" onChange={(e) => setTitle(e.target.value)} className={selectClass} />
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    截止时间
+                    <input type="datetime-local" value={due} onChange={(e) => setDue(e.target.value)} className={`${selectClass} flex-1`} />
+                  </label>
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium text-slate-700 mb-2">布置给</p>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 mb-2 text-sm">
+                    {classes.length === 0 && <span className="text-slate-500">暂无班级</span>}
+                    {classes.map(c => (
+                      <label key={c.id} className="flex items-center gap-1 text-slate-700">
+                        <input type="checkbox" checked={classIds.includes(c.id)} onChange={() => setClassIds(ids => toggle(ids, c.id))} />
+                        {c.name}（全班）
+                      </label>
+                    ))}
+                  </div>
+                  <div className="max-h-28 overflow-y-auto border border-slate-200 rounded-lg p-2 flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                    {students.map(s => (
+                      <label key={s.id} className="flex items-center gap-1 text-slate-700">
+                        <input type="checkbox" checked={studentIds.includes(s.id)} onChange={() => setStudentIds(ids => toggle(ids, s.id))} />
+                        {s.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Item picker */}
+                <div className="border border-slate-200 rounded-xl p-4 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {ITEM_SOURCES.map(s => (
+                      <button
+                        key={s.value}
+                        onClick={() => setSource(s.value)}
+                        className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${source === s.value ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+                      >
+                        {s.label}
+                      </button>
+                    ))}
+                    <select value={topic} onChange={(e) => setTopic(e.target.value)} className={`${selectClass} ml-auto`}>
+                      {PROBLEM_TOPICS.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                    {(source === 'ai' || source === 'topic') && (
+                      <select value={difficulty} onChange={(e) => setDifficulty(e.target.value as Difficulty)} className={selectClass}>
+                        {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map(d => <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>)}
+                      </select>
+                    )}
+                  </div>
+
+                  {(source === 'bank' || source === 'authored') && (
+                    <div className="max-h-48 overflow-y-auto divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                      {pickable.length === 0 && <p className="p-3 text-sm text-slate-400">{source === 'bank' ? '题库中暂无该主题的题目' : '暂无该主题的完整教练题'}</p>}
+                      {pickable.map(p => {
+                        const added = items.some(i => i.problem?.bankId === p.id);
+                        return (
+                          <div key={p.id} className="flex items-center gap-2 px-3 py-2">
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm text-slate-800 truncate">{p.content}</p>
+                              <p className="text-xs text-slate-500">{DIFFICULTY_LABELS[p.difficulty]} · {p.source}</p>
+                            </div>
+                            <button
+                              onClick={() => setItems(list => [...list, toItem(bankProblemToProblem(p, source === 'bank' ? 'bank' : 'authored'))])}
+                              disabled={added}
+                              className="text-sm text-indigo-600 hover:text-indigo-900 font-medium disabled:text-slate-400"
+                            >
+                              {added ? '已添加' : '添加'}
+                            </button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {source === 'ai' && (
+                    <div className="space-y-3">
+                      <Button variant="secondary" onClick={handleGenerate} isLoading={saving}>生成一道题</Button>
+                      {generated && (
+                        <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+                          <div className="prose prose-slate prose-sm max-w-none mb-2">
+                            <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>{generated.content}</ReactMarkdown>
+                          </div>
+                          <button
+                            onClick={() => { setItems(list => [...list, toItem(generated)]); setGenerated(null); }}
+                            className="text-sm text-indigo-600 hover:text-indigo-900 font-medium"
+                          >
+                            加入作业
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {source === 'topic' && (
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+                      题量
+                      <input type="number" min={1} max={20} value={count} onChange={(e) => setCount(Math.max(1, Math.min(20, Number(e.target.value) || 1)))} className={`${selectClass} w-20`} />
+                      <select value={topicSourceMode} onChange={(e) => setTopicSourceMode(e.target.value as ProblemSourceMode)} className={selectClass}>
+                        {TOPIC_SOURCE_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                      </select>
+                      <Button variant="secondary" onClick={addTopicItems}>添加</Button>
+                      <span className="text-xs text-slate-400">每位学生打开时各自抽题</span>
+                    </div>
+                  )}
+                </div>
+
+                {/* Chosen items */}
+                <div>
+                  <p className="text-sm font-medium text-slate-700 mb-2">已选题目（{items.length}）</p>
+                  <div className="border border-slate-200 rounded-xl divide-y divide-slate-100">
+                    {items.length === 0 && <p className="p-3 text-sm text-slate-400">尚未添加题目</p>}
+                    {items.map((item, i) => (
+                      <div key={item.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                        <span className="font-medium text-slate-700">第 {i + 1} 题</span>
+                        <span className="text-slate-500">{item.topic} · {DIFFICULTY_LABELS[item.difficulty]} · {itemSourceLabel(item)}</span>
+                        {item.problem && <span className="flex-1 min-w-0 truncate text-slate-400">{item.problem.content}</span>}
+                        <button onClick={() => setItems(list => list.filter(x => x.id !== item.id))} className="ml-auto text-slate-400 hover:text-red-500" title="移除">✕</button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <Button onClick={handleAssign} isLoading={saving}>布置作业</Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import ExcelJS from 'exceljs';
+import { Button } from './Button';
+import { User } from '../types';
+import {
+  AuditAction,
+  AuditEntry,
+  AUDIT_ACTION_LABELS,
+  getAuditLog,
+  filterAuditLog,
+  recordAuditEvent
+} from '../services/auditService';
+
+interface AuditLogModalProps {
+  currentUser: User;
+  students: User[]; // Students visible to the current user
+  onClose: () => void;
+}
+
+// Only the newest entries are rendered; the Excel export always contains every match
+const MAX_ROWS = 300;
+
+const toDayStart = (date: string) => date ? new Date(`${date}T00:00:00`).getTime() : undefined;
+const toDayEnd = (date: string) => date ? new Date(`${date}T23:59:59.999`).getTime() : undefined;
+
+export const AuditLogModal: React.FC<AuditLogModalProps> = ({ currentUser, students, onClose }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [query, setQuery] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    getAuditLog().then(setEntries).catch(console.error);
+  }, []);
+
+  // Coaches see their own actions and entries about their students
+  const visibleUserIds = currentUser.role === 'admin'
+    ? undefined
+    : new Set([currentUser.id, ...students.map(s => s.id)]);
+
+  const filtered = filterAuditLog(entries, {
+    action: action || undefined,
+    query,
+    from: toDayStart(fromDate),
+    to: toDayEnd(toDate)
+  }, visibleUserIds);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('操作日志');
+      sheet.columns = [
+        { header: '时间', key: 'time', width: 20 },
+        { header: '操作', key: 'action', width: 12 },
+        { header: '操作人', key: 'actor', width: 24 },
+        { header: '对象', key: 'target', width: 24 },
+        { header: '详情', key: 'details', width: 50 },
+      ];
+      filtered.forEach(e => sheet.addRow({
+        time: new Date(e.timestamp).toLocaleString('zh-CN'),
+        action: AUDIT_ACTION_LABELS[e.action],
+        actor: e.actorName || '',
+        target: e.targetName || '',
+        details: e.details || ''
+      }));
+
+      const buffer = await workbook.xlsx.writeBuffer();
+      const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+      const url = window.URL.createObjectURL(blob);
+
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `FeynmanMath_AuditLog_${new Date().toISOString().slice(0,10)}.xlsx`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+
+      await recordAuditEvent('data_export', { actor: currentUser }, `操作日志 Excel（${filtered.length} 条）`);
+    } catch (e) {
+      console.error(e);
+      alert("导出失败");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-8 max-w-5xl w-full shadow-2xl max-h-full flex flex-col">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">操作日志</h2>
+            <p className="text-slate-500 text-sm mt-1">登录、密码、导入、删除及数据导出记录。日志只可追加，不可修改。</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">×</button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as AuditAction | '')}
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="">全部操作</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => (
+              <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索姓名、账号或详情..."
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 w-56"
+          />
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="px-3 py-2 border border-slate-300 rounded-lg text-sm" />
+          <span className="text-slate-400 text-sm">至</span>
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="px-3 py-2 border border-slate-300 rounded-lg text-sm" />
+          <Button variant="secondary" onClick={handleExport} isLoading={exporting} disabled={filtered.length === 0} className="ml-auto">
+            导出 Excel
+          </Button>
+        </div>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-y-auto border border-slate-200 rounded-xl">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 border-b border-slate-200 sticky top-0">
+              <tr>
+                <th className="px-4 py-3 font-semibold text-slate-700">时间</th>
+                <th className="px-4 py-3 font-semibold text-slate-700">操作</th>
+                <th className="px-4 py-3 font-semibold text-slate-700">操作人</th>
+                <th className="px-4 py-3 font-semibold text-slate-700">对象</th>
+                <th className="px-4 py-3 font-semibold text-slate-700">详情</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filtered.slice(0, MAX_ROWS).map(e => (
+                <tr key={e.id} className="hover:bg-slate-50">
+                  <td className="px-4 py-2 text-slate-500 whitespace-nowrap">{new Date(e.timestamp).toLocaleString('zh-CN')}</td>
+                  <td className="px-4 py-2">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${e.action === 'login_failed' || e.action === 'user_delete' ? 'bg-red-100 text-red-800' : 'bg-slate-100 text-slate-700'}`}>
+                      {AUDIT_ACTION_LABELS[e.action]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-slate-700">{e.actorName || '-'}</td>
+                  <td className="px-4 py-2 text-slate-700">{e.targetName || '-'}</td>
+                  <td className="px-4 py-2 text-slate-500 break-all">{e.details}</td>
+                </tr>
+              ))}
+              {filtered.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-12 text-center text-slate-400">没有符合条件的记录。</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {filtered.length > MAX_ROWS && (
+          <p className="text-xs text-slate-400 mt-2">共 {filtered.length} 条，仅显示最新 {MAX_ROWS} 条。导出 Excel 可获取全部记录。</p>
+        )}
+      </div>
+    </div>
+  );
+};
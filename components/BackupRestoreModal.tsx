@@ -0,0 +1,191 @@
+import React, { useState, useRef } from 'react';
+import { Button } from './Button';
+import {
+  BackupArchive,
+  RestoreMode,
+  RestoreReport,
+  RestoreTarget,
+  exportClassBackup,
+  exportStudentBackup,
+  parseBackupArchive,
+  analyzeRestore,
+  restoreBackup
+} from '../services/backupService';
+
+interface BackupRestoreModalProps {
+  target: RestoreTarget;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+export const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ target, onClose, onRestored }) => {
+  const [exporting, setExporting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isClass = target.scope === 'class';
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError('');
+    try {
+      const backup = isClass ? await exportClassBackup(target.currentUser) : await exportStudentBackup(target.user);
+      const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+      const url = window.URL.createObjectURL(blob);
+
+      const a = document.createElement('a');
+      a.href = url;
+      const owner = isClass ? 'Class' : target.user.username;
+      a.download = `FeynmanMath_Backup_${owner}_${new Date().toISOString().slice(0,10)}.json`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error(e);
+      setError("导出失败，请重试");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    setSuccess('');
+    setArchive(null);
+    setReport(null);
+
+    const reader = new FileReader();
+    reader.onload = async () => {
+      try {
+        const parsed = parseBackupArchive(reader.result as string);
+        setReport(await analyzeRestore(parsed, target));
+        setArchive(parsed);
+      } catch (err: any) {
+        setError(err.message || "备份文件解析失败");
+      } finally {
+        if (fileInputRef.current) fileInputRef.current.value = '';
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    const warning = mode === 'replace'
+      ? "替换模式将用备份覆盖现有数据，此操作不可撤销。确定继续吗？"
+      : "确定将备份合并到现有数据中吗？";
+    if (!window.confirm(warning)) return;
+
+    setRestoring(true);
+    setError('');
+    try {
+      await restoreBackup(archive, mode, target);
+      setSuccess("恢复完成");
+      setArchive(null);
+      setReport(null);
+      onRestored();
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "恢复失败，请重试");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-8 max-w-lg w-full shadow-2xl max-h-full overflow-y-auto">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">数据备份与恢复</h2>
+            <p className="text-slate-500 text-sm mt-1">
+              {isClass ? '导出或恢复全班账号、错题、对话记录及附件。' : '导出或恢复你的错题、对话记录及附件。'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">×</button>
+        </div>
+
+        {/* Export */}
+        <div className="mb-6">
+          <h3 className="text-sm font-bold text-slate-800 mb-2">导出备份</h3>
+          <Button variant="secondary" onClick={handleExport} isLoading={exporting} className="w-full">
+            下载备份文件 (JSON)
+          </Button>
+        </div>
+
+        {/* Import */}
+        <div>
+          <h3 className="text-sm font-bold text-slate-800 mb-2">从备份恢复</h3>
+          <input
+            type="file"
+            ref={fileInputRef}
+            className="hidden"
+            accept=".json,application/json"
+            onChange={handleFileSelect}
+          />
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()} className="w-full">
+            选择备份文件
+          </Button>
+
+          {report && archive && (
+            <div className="mt-4 space-y-4">
+              <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 text-sm text-slate-700 space-y-1">
+                <div>备份时间: {archive.exportedAt ? new Date(archive.exportedAt).toLocaleString('zh-CN') : '未知'}</div>
+                {isClass && <div>新账号: {report.newUsers} 个</div>}
+                <div>新题目: {report.newProblems} 道</div>
+              </div>
+
+              {(report.usernameConflicts.length > 0 || report.problemConflicts.length > 0) && (
+                <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-800 space-y-2">
+                  <div className="font-bold">发现冲突</div>
+                  {report.usernameConflicts.length > 0 && (
+                    <div>
+                      {isClass ? '账号已存在（不同用户）: ' : '备份属于其他账号: '}
+                      <span className="font-mono">{report.usernameConflicts.join(', ')}</span>
+                    </div>
+                  )}
+                  {report.problemConflicts.length > 0 && (
+                    <div>
+                      重复题目 {report.problemConflicts.length} 道
+                      <ul className="mt-1 max-h-24 overflow-y-auto font-mono text-xs">
+                        {report.problemConflicts.map(c => (
+                          <li key={`${c.username}:${c.problemId}`}>{c.username} / {c.problemId}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  <div className="text-xs">合并模式保留本地版本；替换模式以备份为准。</div>
+                </div>
+              )}
+
+              <div className="flex gap-4 text-sm">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                  合并（保留现有数据）
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                  替换（覆盖现有数据）
+                </label>
+              </div>
+
+              <Button onClick={handleRestore} isLoading={restoring} className="w-full">
+                确认恢复
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+        {success && <p className="text-green-600 text-sm mt-4">{success}</p>}
+      </div>
+    </div>
+  );
+};
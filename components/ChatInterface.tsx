@@ -2,17 +2,37 @@ import React, { useState, useRef, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
-import { Message, Sender, Problem, Attachment } from '../types';
-import { evaluateSolution } from '../services/geminiService';
+import { Message, Sender, Problem, Attachment, Grading, GradingVerdict } from '../types';
+import { gradeSolution, streamSolutionFeedback } from '../services/geminiService';
+import { AIError, classifyAIError } from '../services/aiErrors';
+import { ANSWER_FILE_ACCEPT, readAttachmentFile } from '../services/attachmentReader';
+import { ERROR_CATEGORY_LABELS, OPTION_MENU_MARKER, VERDICT_LABELS, shouldSaveToNotebook } from '../services/gradingService';
 import { Button } from './Button';
+import { AIErrorNotice } from './AIErrorNotice';
 
 interface ChatInterfaceProps {
   problem: Problem;
   onAutoSave?: () => void;
   onMessagesUpdate: (messages: Message[]) => void;
+  onEasierProblem?: () => Promise<void>; // Option (A): replace the problem with an easier follow-up
 }
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ problem, onAutoSave, onMessagesUpdate }) => {
+// "A", "(A)", "选A", "我选择 A。" or naming the option
+const CHOOSES_EASIER = /^\s*(我?选(择)?\s*)?[(（]?\s*A\s*[)）]?\s*[。.!！]?\s*$|降级挑战/i;
+
+const MENU_CHOICES = [
+  { label: '(B) 费曼引导', text: '我选择 (B) 费曼引导' },
+  { label: '(C) 直接解答', text: '我选择 (C) 直接解答' }
+];
+
+const VERDICT_STYLES: Record<GradingVerdict, string> = {
+  correct: 'bg-green-100 text-green-700',
+  partial: 'bg-amber-100 text-amber-700',
+  incorrect: 'bg-red-100 text-red-600',
+  no_attempt: 'bg-slate-100 text-slate-500'
+};
+
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ problem, onAutoSave, onMessagesUpdate, onEasierProblem }) => {
   // Initialize state with history if it exists, otherwise show welcome message
   const [messages, setMessages] = useState<Message[]>(() => {
     if (problem.chatHistory && problem.chatHistory.length > 0) {
@@ -28,7 +48,12 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ problem, onAutoSav
   const [inputText, setInputText] = useState('');
   const [selectedAttachment, setSelectedAttachment] = useState<Attachment | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [streamingText, setStreamingText] = useState(''); // Reply being generated, not yet in messages
+  const [loadingFollowUp, setLoadingFollowUp] = useState(false);
+  // Last failed AI call; onRetry is absent when retrying makes no sense (e.g. part of the reply was shown)
+  const [replyError, setReplyError] = useState<{ error: AIError, onRetry?: () => void } | null>(null);
   
+  const abortControllerRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -46,7 +71,12 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ problem, onAutoSav
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, isProcessing]);
+  }, [messages, isProcessing, streamingText]);
+
+  // Leaving the problem cancels a reply that is still being generated
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   // Propagate messages up whenever they change
   useEffect(() => {
@@ -56,80 +86,114 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ problem, onAutoSav
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      const isTex = file.name.endsWith('.tex');
-      const reader = new FileReader();
-      
-      reader.onloadend = () => {
-        const result = reader.result as string;
-        let mimeType = file.type;
-        let type: 'image' | 'file' = 'file';
-        
-        if (file.type.startsWith('image/')) {
-          type = 'image';
-        } else if (file.name.endsWith('.tex')) {
-          mimeType = 'text/x-tex';
-        } else if (file.name.endsWith('.docx')) {
-            mimeType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
-        }
-
-        setSelectedAttachment({
-          type,
-          mimeType,
-          data: result,
-          name: file.name,
-          isText: isTex
-        });
-      };
-
-      if (isTex) {
-        reader.readAsText(file);
-      } else {
-        reader.readAsDataURL(file);
-      }
+      readAttachmentFile(file).then(setSelectedAttachment).catch(console.error);
     }
   };
 
+  const lastMessage = messages[messages.length - 1];
+  const menuOffered = !!onEasierProblem && lastMessage?.sender === Sender.AI && lastMessage.text.includes(OPTION_MENU_MARKER);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if ((!inputText.trim() && !selectedAttachment) || isProcessing) return;
-
-    if (!selectedAttachment && onAutoSave) {
-        const keywords = ['不会', '太难', '不懂', '放弃', '没思路', '很难', '不知道', 'Help'];
-        if (keywords.some(k => inputText.toLowerCase().includes(k.toLowerCase()))) {
-            onAutoSave();
-        }
-    }
+    if ((!inputText.trim() && !selectedAttachment) || isProcessing || loadingFollowUp) return;
+    await sendMessage(inputText, selectedAttachment || undefined);
+  };
 
+  const sendMessage = async (text: string, attachment?: Attachment) => {
     const userMsg: Message = {
       id: Date.now().toString(),
       sender: Sender.User,
-      text: inputText,
-      attachment: selectedAttachment || undefined,
+      text,
+      attachment,
     };
 
     const updatedMessages = [...messages, userMsg];
     setMessages(updatedMessages);
     setInputText('');
     setSelectedAttachment(null);
+
+    // Choosing (A) loads a real easier problem instead of asking the tutor for one
+    if (menuOffered && !attachment && CHOOSES_EASIER.test(text)) {
+      await handleEasierProblem();
+      return;
+    }
+    await requestFeedback(updatedMessages, userMsg);
+  };
+
+  const handleEasierProblem = async () => {
+    if (!onEasierProblem) return;
+    setLoadingFollowUp(true);
+    setReplyError(null);
+    try {
+      await onEasierProblem(); // On success the parent swaps the problem and this chat is replaced
+    } catch (err) {
+      console.error("AI Generate Error:", err);
+      setReplyError({ error: classifyAIError(err), onRetry: handleEasierProblem });
+    } finally {
+      setLoadingFollowUp(false);
+    }
+  };
+
+  const requestFeedback = async (history: Message[], userMsg: Message) => {
     setIsProcessing(true);
+    setReplyError(null);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let partialText = '';
+
+    // The verdict is graded alongside the streamed reply; if grading fails the reply still counts
+    const gradingPromise: Promise<Grading | undefined> = gradeSolution(
+      problem, history, userMsg.attachment, userMsg.text, controller.signal
+    ).catch(error => {
+      if (!controller.signal.aborted) console.error("AI Grading Error:", error);
+      return undefined;
+    });
 
     try {
-      const aiResponseText = await evaluateSolution(problem, updatedMessages, userMsg.attachment, userMsg.text);
-      
+      // Partial text is only rendered while streaming; the message is committed once,
+      // so chat history is not saved on every chunk
+      const aiResponseText = await streamSolutionFeedback(
+        problem, history, text => { partialText = text; setStreamingText(text); },
+        controller.signal, userMsg.attachment, userMsg.text
+      );
+      if (controller.signal.aborted && !aiResponseText) return;
+
+      const grading = controller.signal.aborted ? undefined : await gradingPromise;
       const aiMsg: Message = {
         id: (Date.now() + 1).toString(),
         sender: Sender.AI,
-        text: aiResponseText
+        text: controller.signal.aborted ? `${aiResponseText}\n\n*（已停止生成）*` : aiResponseText,
+        grading
       };
       setMessages(prev => [...prev, aiMsg]);
+
+      if (grading && onAutoSave && shouldSaveToNotebook(history, grading)) {
+        onAutoSave();
+      }
     } catch (err) {
-      console.error(err);
+      controller.abort(); // Stop the grading call as well
+      console.error("AI Evaluate Error:", err);
+      // The student may already have read part of the reply, so it stays in the chat
+      if (partialText) {
+        setMessages(prev => [...prev, { id: (Date.now() + 1).toString(), sender: Sender.AI, text: partialText }]);
+      }
+      setReplyError({
+        error: classifyAIError(err),
+        onRetry: partialText ? undefined : () => requestFeedback(history, userMsg)
+      });
     } finally {
+      abortControllerRef.current = null;
+      setStreamingText('');
       setIsProcessing(false);
       if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const renderAttachmentPreview = (att: Attachment) => {
     if (att.type === 'image') {
       return <img src={att.data} alt="User submission" className="max-h-64 object-contain bg-black/50" />;
@@ -171,11 +235,6 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ problem, onAutoSav
                   : 'bg-white border border-slate-200 text-slate-800 rounded-bl-none'
               }`}
             >
-              {msg.image && !msg.attachment && (
-                <div className="mb-3 rounded-lg overflow-hidden border border-white/20">
-                  <img src={msg.image} alt="User submission" className="max-h-64 object-contain bg-black/50" />
-                </div>
-              )}
               {msg.attachment && (
                 <div className="mb-3 rounded-lg overflow-hidden border border-white/20">
                    {renderAttachmentPreview(msg.attachment)}
@@ -194,10 +253,45 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ problem, onAutoSav
                   {msg.text}
                 </ReactMarkdown>
               </div>
+
+              {msg.grading && msg.grading.verdict !== 'no_attempt' && (
+                <div className="mt-3 pt-3 border-t border-slate-100 text-xs text-slate-500 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded-full font-bold ${VERDICT_STYLES[msg.grading.verdict]}`}>
+                      {VERDICT_LABELS[msg.grading.verdict]}
+                    </span>
+                    {msg.grading.errorCategory && msg.grading.errorCategory !== 'none' && (
+                      <span className="px-2 py-0.5 rounded-full bg-slate-100">{ERROR_CATEGORY_LABELS[msg.grading.errorCategory]}</span>
+                    )}
+                    <span className="text-slate-400">置信度 {Math.round(msg.grading.confidence * 100)}%</span>
+                  </div>
+                  {msg.grading.firstFaultyStep && (
+                    <div className="prose prose-slate max-w-none text-xs">
+                      <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                        {`**首个错误步骤：** ${msg.grading.firstFaultyStep}`}
+                      </ReactMarkdown>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         ))}
-        {isProcessing && (
+        {isProcessing && streamingText && (
+          <div className="flex justify-start">
+            <div className="max-w-[85%] rounded-2xl p-4 shadow-sm bg-white border border-slate-200 text-slate-800 rounded-bl-none">
+              <div className="prose max-w-none text-sm md:text-base prose-slate">
+                <ReactMarkdown 
+                  remarkPlugins={[remarkMath]} 
+                  rehypePlugins={[rehypeKatex]}
+                >
+                  {streamingText}
+                </ReactMarkdown>
+              </div>
+            </div>
+          </div>
+        )}
+        {isProcessing && !streamingText && (
           <div className="flex justify-start">
             <div className="bg-white border border-slate-200 rounded-2xl rounded-bl-none p-4 shadow-sm flex items-center gap-2">
               <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"></span>
@@ -206,6 +300,39 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ problem, onAutoSav
             </div>
           </div>
         )}
+        {loadingFollowUp && (
+          <div className="flex justify-start">
+            <div className="bg-white border border-slate-200 rounded-2xl rounded-bl-none p-4 shadow-sm text-sm text-slate-500 animate-pulse">
+              正在准备一道更基础的同类题目...
+            </div>
+          </div>
+        )}
+        {menuOffered && !isProcessing && !loadingFollowUp && (
+          <div className="flex flex-wrap gap-2 pl-1">
+            <button
+              onClick={() => sendMessage('我选择 (A) 降级挑战')}
+              className="px-3 py-1.5 rounded-full border border-indigo-200 bg-indigo-50 text-indigo-700 text-sm font-medium hover:bg-indigo-100 transition-colors"
+            >
+              (A) 降级挑战
+            </button>
+            {MENU_CHOICES.map(choice => (
+              <button
+                key={choice.label}
+                onClick={() => sendMessage(choice.text)}
+                className="px-3 py-1.5 rounded-full border border-slate-200 bg-white text-slate-600 text-sm font-medium hover:border-indigo-300 hover:text-indigo-600 transition-colors"
+              >
+                {choice.label}
+              </button>
+            ))}
+          </div>
+        )}
+        {!isProcessing && !loadingFollowUp && replyError && (
+          <AIErrorNotice
+            error={replyError.error}
+            onRetry={replyError.onRetry}
+            onDismiss={() => setReplyError(null)}
+          />
+        )}
       </div>
 
       {/* Input Area */}
@@ -235,7 +362,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ problem, onAutoSav
           </button>
           <input 
             type="file" 
-            accept="image/*,.pdf,.doc,.docx,.tex" 
+            accept={ANSWER_FILE_ACCEPT} 
             ref={fileInputRef} 
             className="hidden" 
             onChange={handleFileUpload}
@@ -257,16 +384,29 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ problem, onAutoSav
             />
           </div>
 
-          <Button 
-            type="submit" 
-            disabled={!inputText.trim() && !selectedAttachment}
-            isLoading={isProcessing}
-            className="rounded-full w-12 h-12 p-0 flex items-center justify-center flex-shrink-0"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2.5">
-              <path strokeLinecap="round" strokeLinejoin="round" d="M5 10l7-7m0 0l7 7m-7-7v18" />
-            </svg>
-          </Button>
+          {isProcessing ? (
+            <Button 
+              type="button" 
+              variant="secondary"
+              onClick={handleStop}
+              className="rounded-full w-12 h-12 p-0 flex items-center justify-center flex-shrink-0"
+              title="停止生成"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="currentColor">
+                <rect x="5" y="5" width="14" height="14" rx="2" />
+              </svg>
+            </Button>
+          ) : (
+            <Button 
+              type="submit" 
+              disabled={(!inputText.trim() && !selectedAttachment) || loadingFollowUp}
+              className="rounded-full w-12 h-12 p-0 flex items-center justify-center flex-shrink-0"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2.5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M5 10l7-7m0 0l7 7m-7-7v18" />
+              </svg>
+            </Button>
+          )}
         </form>
       </div>
     </div>
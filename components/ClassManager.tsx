@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './Button';
+import { Class, User } from '../types';
+import { createCoach, getCoaches } from '../services/authService';
+import { getVisibleClasses, createClass, updateClass, deleteClass, setClassStudents } from '../services/classService';
+
+interface ClassManagerProps {
+  currentUser: User;
+  students: User[]; // Students the current user may assign
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const ClassManager: React.FC<ClassManagerProps> = ({ currentUser, students, onClose, onChanged }) => {
+  const isAdmin = currentUser.role === 'admin';
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [coaches, setCoaches] = useState<User[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editCoachIds, setEditCoachIds] = useState<string[]>([]);
+  const [editStudentIds, setEditStudentIds] = useState<string[]>([]);
+  const [newClassName, setNewClassName] = useState('');
+  const [coachName, setCoachName] = useState('');
+  const [coachUsername, setCoachUsername] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    refresh().catch(console.error);
+  }, []);
+
+  const refresh = async () => {
+    setClasses(await getVisibleClasses(currentUser));
+    if (isAdmin) setCoaches(await getCoaches());
+  };
+
+  const selectClass = (cls: Class) => {
+    setSelectedId(cls.id);
+    setEditName(cls.name);
+    setEditCoachIds(cls.coachIds);
+    setEditStudentIds(students.filter(s => (s.classIds || []).includes(cls.id)).map(s => s.id));
+    setError('');
+    setSuccess('');
+  };
+
+  const toggle = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id];
+
+  // Wraps each action with the shared loading / error / success handling
+  const run = async (action: () => Promise<void>, message: string) => {
+    setSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      await action();
+      await refresh();
+      setSuccess(message);
+      onChanged();
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "操作失败，请重试");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateClass = () => {
+    if (!newClassName.trim()) return;
+    run(async () => {
+      await createClass(currentUser, newClassName.trim(), []);
+      setNewClassName('');
+    }, "班级已创建");
+  };
+
+  const handleCreateCoach = () => {
+    if (!coachName.trim() || !coachUsername.trim()) {
+      setError("请填写教练姓名和账号");
+      return;
+    }
+    run(async () => {
+      const coach = await createCoach(currentUser, coachName.trim(), coachUsername.trim());
+      setCoachName('');
+      setCoachUsername('');
+      alert(`教练账号已创建。初始密码与账号相同: ${coach.username}`);
+    }, "教练账号已创建");
+  };
+
+  const handleSaveClass = () => {
+    if (!selectedId) return;
+    run(async () => {
+      if (isAdmin) await updateClass(currentUser, selectedId, { name: editName.trim(), coachIds: editCoachIds });
+      await setClassStudents(currentUser, selectedId, editStudentIds);
+    }, "班级已保存");
+  };
+
+  const handleDeleteClass = () => {
+    const cls = classes.find(c => c.id === selectedId);
+    if (!cls || !window.confirm(`确定要删除班级「${cls.name}」吗？\n学生账号和学习数据不会被删除。`)) return;
+    run(async () => {
+      await deleteClass(currentUser, cls.id);
+      setSelectedId(null);
+    }, "班级已删除");
+  };
+
+  const selected = classes.find(c => c.id === selectedId);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-8 max-w-3xl w-full shadow-2xl max-h-full overflow-y-auto">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">班级管理</h2>
+            <p className="text-slate-500 text-sm mt-1">
+              {isAdmin ? '创建班级、添加教练，并为班级分配教练和学生。' : '管理你所负责班级的学生名单。'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-6">
+          {/* Class list */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-bold text-slate-800 mb-2">班级</h3>
+            {classes.map(cls => (
+              <button
+                key={cls.id}
+                onClick={() => selectClass(cls)}
+                className={`w-full text-left px-4 py-2 rounded-lg text-sm border transition-colors ${cls.id === selectedId ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'border-slate-200 hover:bg-slate-50'}`}
+              >
+                {cls.name}
+              </button>
+            ))}
+            {classes.length === 0 && <p className="text-sm text-slate-400">暂无班级</p>}
+
+            {isAdmin && (
+              <div className="pt-2 flex gap-2">
+                <input
+                  type="text"
+                  value={newClassName}
+                  onChange={(e) => setNewClassName(e.target.value)}
+                  placeholder="新班级名称"
+                  className="flex-1 min-w-0 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                <button onClick={handleCreateClass} disabled={saving} className="text-sm text-indigo-600 hover:text-indigo-900 font-medium">
+                  新建
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Class details */}
+          <div className="md:col-span-2">
+            {selected ? (
+              <div className="space-y-4">
+                {isAdmin && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">班级名称</label>
+                      <input
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                      />
+                    </div>
+                    <div>
+                      <h4 className="text-sm font-medium text-slate-700 mb-1">负责教练</h4>
+                      <div className="flex flex-wrap gap-3">
+                        {coaches.map(coach => (
+                          <label key={coach.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <input type="checkbox" checked={editCoachIds.includes(coach.id)} onChange={() => setEditCoachIds(ids => toggle(ids, coach.id))} />
+                            {coach.name} <span className="text-slate-400 font-mono">({coach.username})</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                <div>
+                  <h4 className="text-sm font-medium text-slate-700 mb-1">学生 ({editStudentIds.length})</h4>
+                  <div className="max-h-64 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100">
+                    {students.map(student => (
+                      <label key={student.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-slate-50">
+                        <input type="checkbox" checked={editStudentIds.includes(student.id)} onChange={() => setEditStudentIds(ids => toggle(ids, student.id))} />
+                        <span className="text-slate-900">{student.name}</span>
+                        <span className="text-slate-400 font-mono">{student.username}</span>
+                      </label>
+                    ))}
+                    {students.length === 0 && <p className="px-3 py-4 text-sm text-slate-400">暂无学生</p>}
+                  </div>
+                </div>
+
+                <div className="flex gap-3">
+                  <Button onClick={handleSaveClass} isLoading={saving} className="flex-1">保存</Button>
+                  {isAdmin && (
+                    <Button variant="secondary" onClick={handleDeleteClass} disabled={saving} className="text-red-600">删除班级</Button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400 py-12 text-center">请选择左侧班级</p>
+            )}
+          </div>
+        </div>
+
+        {/* Coach accounts */}
+        {isAdmin && (
+          <div className="mt-8 pt-6 border-t border-slate-200">
+            <h3 className="text-sm font-bold text-slate-800 mb-2">添加教练</h3>
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                type="text"
+                value={coachName}
+                onChange={(e) => setCoachName(e.target.value)}
+                placeholder="姓名"
+                className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+              <input
+                type="text"
+                value={coachUsername}
+                onChange={(e) => setCoachUsername(e.target.value)}
+                placeholder="账号（初始密码与账号相同）"
+                className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+              <Button variant="secondary" onClick={handleCreateCoach} disabled={saving}>创建教练</Button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+        {success && <p className="text-green-600 text-sm mt-4">{success}</p>}
+      </div>
+    </div>
+  );
+};
@@ -1,49 +1,111 @@
 import React, { useState, useEffect, useRef } from 'react';
 import ExcelJS from 'exceljs';
 import { Button } from './Button';
-import { User, Problem, TOPICS } from '../types';
-import { getStudents, registerBatchUsers, getUserMistakes, resetUserPasswordToUsername } from '../services/authService';
+import { BackupRestoreModal } from './BackupRestoreModal';
+import { ClassManager } from './ClassManager';
+import { ProblemAuthoringModal } from './ProblemAuthoringModal';
+import { AssignmentModal } from './AssignmentModal';
+import { StudentEditModal } from './StudentEditModal';
+import { AuditLogModal } from './AuditLogModal';
+import { RosterImportModal } from './RosterImportModal';
+import { User, Problem, Class, TOPICS, Attempt, Assignment, HomeworkRecord, DIFFICULTY_LABELS } from '../types';
+import { getUserMistakes, resetUserPasswordToUsername, unlockUser, isUserLocked, setUsersActive, deleteUsers } from '../services/authService';
+import { getVisibleClasses, getStudentsForUser, moveStudentsToClass } from '../services/classService';
+import { recordAuditEvent } from '../services/auditService';
+import { ATTEMPT_OUTCOME_LABELS, getAttempts, summarizeAttempts } from '../services/attemptService';
+import { RosterRow, parseRosterFile } from '../services/rosterImport';
+import { HOMEWORK_STATUS_LABELS, getAssignments, getHomework, isAssignedTo, summarizeHomework, summarizeStudentHomework } from '../services/assignmentService';
 
 interface CoachDashboardProps {
-  onSelectStudent: (student: User, mistakes: Problem[]) => void;
+  currentUser: User;
+  onSelectStudent: (student: User, mistakes: Problem[], attempts: Attempt[]) => void;
   onLogout: () => void;
 }
 
-export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent, onLogout }) => {
+export const CoachDashboard: React.FC<CoachDashboardProps> = ({ currentUser, onSelectStudent, onLogout }) => {
+  const isAdmin = currentUser.role === 'admin';
   const [students, setStudents] = useState<User[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [classFilter, setClassFilter] = useState(''); // '' = all visible classes
+  const [mistakesByStudent, setMistakesByStudent] = useState<Record<string, Problem[]>>({});
+  const [attemptsByStudent, setAttemptsByStudent] = useState<Record<string, Attempt[]>>({});
+  const [homeworkByStudent, setHomeworkByStudent] = useState<Record<string, HomeworkRecord[]>>({});
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [filteredStudents, setFilteredStudents] = useState<User[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [importing, setImporting] = useState(false);
+  const [importRows, setImportRows] = useState<RosterRow[] | null>(null);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showClassManager, setShowClassManager] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showAuthoring, setShowAuthoring] = useState(false);
+  const [showAssignments, setShowAssignments] = useState(false);
+  const [editingStudent, setEditingStudent] = useState<User | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [transferTarget, setTransferTarget] = useState('');
+  const [bulkBusy, setBulkBusy] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    refreshStudents();
+    refreshStudents().catch(console.error);
   }, []);
 
+  // Students in the selected class (or all visible students)
+  const classStudents = classFilter
+    ? students.filter(s => (s.classIds || []).includes(classFilter))
+    : students;
+
   useEffect(() => {
     if (!searchTerm.trim()) {
-      setFilteredStudents(students);
+      setFilteredStudents(classStudents);
     } else {
       const lowerTerm = searchTerm.toLowerCase();
-      setFilteredStudents(students.filter(s => 
+      setFilteredStudents(classStudents.filter(s => 
         s.name.toLowerCase().includes(lowerTerm) || 
         s.username.toLowerCase().includes(lowerTerm)
       ));
     }
-  }, [searchTerm, students]);
+  }, [searchTerm, students, classFilter]);
+
+  const refreshStudents = async () => {
+    // Coaches only ever load the students of their own classes
+    const visibleClasses = await getVisibleClasses(currentUser);
+    const allStudents = await getStudentsForUser(currentUser);
+    const allMistakes = await Promise.all(allStudents.map(s => getUserMistakes(s.id)));
+    const allAttempts = await Promise.all(allStudents.map(s => getAttempts(s.id)));
+    const allHomework = await Promise.all(allStudents.map(s => getHomework(s.id)));
+    const byStudent: Record<string, Problem[]> = {};
+    const attemptsById: Record<string, Attempt[]> = {};
+    const homeworkById: Record<string, HomeworkRecord[]> = {};
+    allStudents.forEach((s, i) => {
+      byStudent[s.id] = allMistakes[i];
+      attemptsById[s.id] = allAttempts[i];
+      homeworkById[s.id] = allHomework[i];
+    });
 
-  const refreshStudents = () => {
-    const allStudents = getStudents();
+    setMistakesByStudent(byStudent);
+    setAttemptsByStudent(attemptsById);
+    setHomeworkByStudent(homeworkById);
+    // Students may have homework from other coaches too, so every assignment counts
+    setAssignments(await getAssignments());
+    setClasses(visibleClasses);
+    if (classFilter && !visibleClasses.some(c => c.id === classFilter)) setClassFilter('');
     setStudents(allStudents);
-    setFilteredStudents(allStudents);
+    setSelectedIds(ids => ids.filter(id => allStudents.some(s => s.id === id)));
   };
 
+  const getStatusLabel = (student: User) =>
+    student.deactivatedAt ? "已停用" : isUserLocked(student) ? "已锁定" : student.isFirstLogin ? "未激活" : "活跃";
+
+  const getClassNames = (student: User) =>
+    classes.filter(c => (student.classIds || []).includes(c.id)).map(c => c.name).join('、');
+
   const handleResetPassword = async (student: User) => {
     if (window.confirm(`确定要重置 ${student.name} (${student.username}) 的密码吗？\n重置后密码将变更为与账号相同，并要求学生下次登录时修改。`)) {
       try {
-        await resetUserPasswordToUsername(student.id);
+        await resetUserPasswordToUsername(student.id, currentUser);
         alert(`成功重置。密码已设置为: ${student.username}`);
-        refreshStudents(); // Refresh to show status change if any
+        await refreshStudents(); // Refresh to show status change if any
       } catch (e) {
         alert("重置失败");
         console.error(e);
@@ -51,6 +113,83 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
     }
   };
 
+  const handleUnlock = async (student: User) => {
+    try {
+      await unlockUser(student.id, currentUser);
+      await refreshStudents();
+    } catch (e) {
+      alert("解锁失败");
+      console.error(e);
+    }
+  };
+
+  // --- Bulk actions on the selected rows ---
+
+  const allFilteredSelected = filteredStudents.length > 0 && filteredStudents.every(s => selectedIds.includes(s.id));
+
+  const toggleSelectAll = () => {
+    const filteredIds = filteredStudents.map(s => s.id);
+    setSelectedIds(ids => allFilteredSelected
+      ? ids.filter(id => !filteredIds.includes(id))
+      : [...ids.filter(id => !filteredIds.includes(id)), ...filteredIds]);
+  };
+
+  const toggleSelect = (studentId: string) => {
+    setSelectedIds(ids => ids.includes(studentId) ? ids.filter(id => id !== studentId) : [...ids, studentId]);
+  };
+
+  const runBulk = async (action: () => Promise<void>) => {
+    setBulkBusy(true);
+    try {
+      await action();
+      setSelectedIds([]);
+      await refreshStudents();
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message || "操作失败");
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleBulkActive = (active: boolean) => {
+    if (!active && !window.confirm(`确定要停用选中的 ${selectedIds.length} 个账号吗？\n停用后无法登录，学习数据会保留。`)) return;
+    runBulk(() => setUsersActive(selectedIds, active, currentUser));
+  };
+
+  const handleBulkDelete = () => {
+    if (!window.confirm(`确定要永久删除选中的 ${selectedIds.length} 个账号吗？\n账号、错题本和对话记录将被彻底删除，无法恢复。`)) return;
+    runBulk(() => deleteUsers(selectedIds, currentUser));
+  };
+
+  const handleBulkTransfer = () => {
+    if (!transferTarget) return;
+    runBulk(async () => {
+      await moveStudentsToClass(currentUser, selectedIds, transferTarget);
+      setTransferTarget('');
+    });
+  };
+
+  const practiceColumns = (attempts: Attempt[]) => {
+    const summary = summarizeAttempts(attempts);
+    return {
+      attempted: summary.total,
+      accuracy: summary.accuracy === null ? '' : `${Math.round(summary.accuracy * 100)}%`,
+      averageMinutes: summary.averageMinutes === null ? '' : Math.round(summary.averageMinutes),
+      averageHints: summary.averageHints === null ? '' : Number(summary.averageHints.toFixed(1))
+    };
+  };
+
+  const homeworkColumns = (student: User) => {
+    const summary = summarizeStudentHomework(student, assignments, homeworkByStudent[student.id] || []);
+    return {
+      homeworkAssigned: summary.assigned,
+      homeworkCompleted: summary.completed,
+      homeworkLate: summary.late,
+      homeworkScore: summary.averageScore ?? ''
+    };
+  };
+
   const handleExportData = async () => {
     const workbook = new ExcelJS.Workbook();
     const sheet = workbook.addWorksheet('学生学情统计');
@@ -59,8 +198,17 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
     const columns = [
       { header: '姓名', key: 'name', width: 15 },
       { header: '账号', key: 'username', width: 15 },
+      { header: '班级', key: 'classes', width: 20 },
       { header: '状态', key: 'status', width: 10 },
       { header: '错题总数', key: 'totalMistakes', width: 12 },
+      { header: '练习题数', key: 'attempted', width: 12 },
+      { header: '正确率', key: 'accuracy', width: 10 },
+      { header: '平均用时(分钟)', key: 'averageMinutes', width: 15 },
+      { header: '平均提示次数', key: 'averageHints', width: 14 },
+      { header: '布置作业数', key: 'homeworkAssigned', width: 12 },
+      { header: '完成作业数', key: 'homeworkCompleted', width: 12 },
+      { header: '逾期作业数', key: 'homeworkLate', width: 12 },
+      { header: '作业平均分', key: 'homeworkScore', width: 12 },
     ];
 
     // Add dynamic topic columns
@@ -71,9 +219,9 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
 
     sheet.columns = columns;
 
-    // Add Data
-    students.forEach(student => {
-        const mistakes = getUserMistakes(student.id);
+    // Add Data (only the class currently shown)
+    classStudents.forEach(student => {
+        const mistakes = mistakesByStudent[student.id] || [];
         const topicCounts: Record<string, number> = {};
         topics.forEach(t => topicCounts[t] = 0);
         
@@ -88,13 +236,77 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
         const rowData: any = {
             name: student.name,
             username: student.username,
-            status: student.isFirstLogin ? "未激活" : "活跃",
+            classes: getClassNames(student),
+            status: getStatusLabel(student),
             totalMistakes: mistakes.length,
+            ...practiceColumns(attemptsByStudent[student.id] || []),
+            ...homeworkColumns(student),
             ...topicCounts
         };
         sheet.addRow(rowData);
     });
 
+    // One row per practice session
+    const attemptSheet = workbook.addWorksheet('练习记录');
+    attemptSheet.columns = [
+      { header: '姓名', key: 'name', width: 15 },
+      { header: '账号', key: 'username', width: 15 },
+      { header: '主题', key: 'topic', width: 20 },
+      { header: '难度', key: 'difficulty', width: 8 },
+      { header: '题目', key: 'content', width: 50 },
+      { header: '开始时间', key: 'startedAt', width: 20 },
+      { header: '结束时间', key: 'endedAt', width: 20 },
+      { header: '提示次数', key: 'hintsUsed', width: 10 },
+      { header: '结果', key: 'outcome', width: 10 },
+    ];
+    classStudents.forEach(student => {
+      (attemptsByStudent[student.id] || []).forEach(a => {
+        attemptSheet.addRow({
+          name: student.name,
+          username: student.username,
+          topic: a.problem.topic,
+          difficulty: DIFFICULTY_LABELS[a.problem.difficulty],
+          content: a.problem.content.slice(0, 200),
+          startedAt: new Date(a.startedAt).toLocaleString('zh-CN'),
+          endedAt: a.endedAt ? new Date(a.endedAt).toLocaleString('zh-CN') : '进行中',
+          hintsUsed: a.hintsUsed,
+          outcome: ATTEMPT_OUTCOME_LABELS[a.outcome]
+        });
+      });
+    });
+
+    // One row per student and assignment
+    const homeworkSheet = workbook.addWorksheet('作业');
+    homeworkSheet.columns = [
+      { header: '姓名', key: 'name', width: 15 },
+      { header: '账号', key: 'username', width: 15 },
+      { header: '作业', key: 'title', width: 25 },
+      { header: '布置人', key: 'coach', width: 12 },
+      { header: '截止时间', key: 'dueAt', width: 20 },
+      { header: '状态', key: 'status', width: 10 },
+      { header: '完成题数', key: 'completed', width: 10 },
+      { header: '得分', key: 'score', width: 8 },
+      { header: '完成时间', key: 'completedAt', width: 20 },
+      { header: '是否逾期', key: 'late', width: 10 },
+    ];
+    classStudents.forEach(student => {
+      assignments.filter(a => isAssignedTo(a, student)).forEach(a => {
+        const summary = summarizeHomework(a, homeworkByStudent[student.id] || []);
+        homeworkSheet.addRow({
+          name: student.name,
+          username: student.username,
+          title: a.title,
+          coach: a.coachName,
+          dueAt: new Date(a.dueAt).toLocaleString('zh-CN'),
+          status: HOMEWORK_STATUS_LABELS[summary.status],
+          completed: `${summary.completed}/${summary.total}`,
+          score: summary.score ?? '',
+          completedAt: summary.completedAt ? new Date(summary.completedAt).toLocaleString('zh-CN') : '',
+          late: summary.late ? '是' : '否'
+        });
+      });
+    });
+
     // Write to buffer and download
     const buffer = await workbook.xlsx.writeBuffer();
     const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
@@ -102,87 +314,99 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
     
     const a = document.createElement('a');
     a.href = url;
-    a.download = `FeynmanMath_Export_${new Date().toISOString().slice(0,10)}.xlsx`;
+    const className = classes.find(c => c.id === classFilter)?.name;
+    a.download = `FeynmanMath_Export_${className ? `${className}_` : ''}${new Date().toISOString().slice(0,10)}.xlsx`;
     a.click();
     window.URL.revokeObjectURL(url);
+
+    await recordAuditEvent('data_export', { actor: currentUser }, `学情统计 Excel（${className || '全部'}，${classStudents.length} 名学生）`);
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     setImporting(true);
-    const reader = new FileReader();
-    
-    reader.onload = async (evt) => {
-      try {
-        const buffer = evt.target?.result as ArrayBuffer;
-        const workbook = new ExcelJS.Workbook();
-        await workbook.xlsx.load(buffer);
-        
-        const worksheet = workbook.getWorksheet(1);
-        if (!worksheet) throw new Error("Excel 文件为空");
-
-        const newUsersRaw: {name: string, username: string}[] = [];
-        const headers: string[] = [];
-
-        // Read headers from row 1
-        worksheet.getRow(1).eachCell((cell, colNumber) => {
-           headers[colNumber] = cell.text.toLowerCase().trim();
-        });
-
-        const nameIndex = headers.indexOf('name');
-        const usernameIndex = headers.indexOf('username');
-
-        // Allow Chinese headers fallback
-        const nameIndexCn = headers.indexOf('姓名');
-        const usernameIndexCn = headers.indexOf('账号');
-        
-        const finalNameIdx = nameIndex > -1 ? nameIndex : nameIndexCn;
-        const finalUserIdx = usernameIndex > -1 ? usernameIndex : usernameIndexCn;
-
-        if (finalNameIdx === -1 || finalUserIdx === -1) {
-            alert("Excel格式错误。第一行必须包含 'name' (或 '姓名') 和 'username' (或 '账号') 列。");
-            setImporting(false);
-            return;
-        }
-
-        // Iterate rows (ExcelJS is 1-based, start from 2)
-        worksheet.eachRow((row, rowNumber) => {
-            if (rowNumber === 1) return;
-            
-            // @ts-ignore - ExcelJS types for cells can be complex
-            const name = row.getCell(finalNameIdx).text; 
-            // @ts-ignore
-            const username = row.getCell(finalUserIdx).text;
-
-            if (name && username) {
-                newUsersRaw.push({ name, username });
-            }
-        });
-        
-        if (newUsersRaw.length > 0) {
-          const count = await registerBatchUsers(newUsersRaw);
-          alert(`成功导入 ${count} 名学生。初始密码与账号(Username)相同。`);
-          refreshStudents();
-        } else {
-          alert("未找到有效的学生数据。");
-        }
-      } catch (err) {
-        console.error(err);
-        alert("文件解析失败");
-      } finally {
-        setImporting(false);
-        if (fileInputRef.current) fileInputRef.current.value = '';
+    try {
+      const rows = await parseRosterFile(file);
+      if (rows.length > 0) {
+        setImportRows(rows);
+      } else {
+        alert("未找到有效的学生数据。");
       }
-    };
-    
-    // ExcelJS needs ArrayBuffer
-    reader.readAsArrayBuffer(file);
+    } catch (err: any) {
+      console.error(err);
+      alert(err.message || "文件解析失败");
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
   };
 
   return (
     <div className="h-full bg-slate-50 flex flex-col">
+      {showClassManager && (
+        <ClassManager
+          currentUser={currentUser}
+          students={students}
+          onClose={() => setShowClassManager(false)}
+          onChanged={() => refreshStudents().catch(console.error)}
+        />
+      )}
+
+      {importRows && (
+        <RosterImportModal
+          currentUser={currentUser}
+          initialRows={importRows}
+          classes={classes}
+          defaultClass={classes.find(c => c.id === classFilter)}
+          onClose={() => setImportRows(null)}
+          onImported={() => refreshStudents().catch(console.error)}
+        />
+      )}
+
+      {showAuditLog && (
+        <AuditLogModal
+          currentUser={currentUser}
+          students={students}
+          onClose={() => setShowAuditLog(false)}
+        />
+      )}
+
+      {showAuthoring && (
+        <ProblemAuthoringModal
+          currentUser={currentUser}
+          onClose={() => setShowAuthoring(false)}
+        />
+      )}
+
+      {showAssignments && (
+        <AssignmentModal
+          currentUser={currentUser}
+          students={students}
+          homeworkByStudent={homeworkByStudent}
+          onClose={() => setShowAssignments(false)}
+          onChanged={() => refreshStudents().catch(console.error)}
+        />
+      )}
+
+      {editingStudent && (
+        <StudentEditModal
+          student={editingStudent}
+          actor={currentUser}
+          onClose={() => setEditingStudent(null)}
+          onChanged={() => refreshStudents().catch(console.error)}
+        />
+      )}
+
+      {showBackup && (
+        <BackupRestoreModal
+          target={{ scope: 'class', currentUser }}
+          onClose={() => setShowBackup(false)}
+          onRestored={() => refreshStudents().catch(console.error)}
+        />
+      )}
+
       <header className="bg-white border-b border-slate-200 py-4 px-6 flex items-center justify-between">
         <div className="flex items-center gap-3">
           <div className="w-10 h-10 bg-indigo-900 rounded-lg flex items-center justify-center shadow-lg">
@@ -190,7 +414,7 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
           </div>
           <div>
             <h1 className="text-lg font-bold text-slate-900 leading-tight">教练控制台</h1>
-            <p className="text-xs text-slate-500">FeynmanMath 管理系统</p>
+            <p className="text-xs text-slate-500">FeynmanMath 管理系统 · {currentUser.name}{isAdmin ? '（管理员）' : ''}</p>
           </div>
         </div>
         <button onClick={onLogout} className="text-sm text-slate-500 hover:text-red-600">退出登录</button>
@@ -204,6 +428,16 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
               <h2 className="text-2xl font-bold text-slate-900">学生管理</h2>
               <p className="text-slate-500 mt-1 mb-4">查看学生进度或导入新账号</p>
               
+              <div className="flex flex-col md:flex-row gap-3">
+              <select
+                value={classFilter}
+                onChange={(e) => setClassFilter(e.target.value)}
+                className="px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">{isAdmin ? '全部学生' : '我的全部班级'}</option>
+                {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+
               {/* Search Bar */}
               <div className="relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -219,6 +453,7 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
                   className="pl-10 pr-4 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 w-full md:w-64"
                 />
               </div>
+              </div>
             </div>
 
             <div className="flex gap-3">
@@ -226,7 +461,7 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
                 type="file" 
                 ref={fileInputRef} 
                 className="hidden" 
-                accept=".xlsx, .xls"
+                accept=".xlsx, .csv"
                 onChange={handleFileUpload} 
               />
               <Button 
@@ -238,6 +473,54 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
                 </svg>
                 导出数据
               </Button>
+              <Button 
+                variant="secondary" 
+                onClick={() => setShowClassManager(true)}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" fill="none" viewBox="0 0 24 24" stroke="currentColor" className="mr-2">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+                班级管理
+              </Button>
+              <Button 
+                variant="secondary" 
+                onClick={() => setShowAuthoring(true)}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" fill="none" viewBox="0 0 24 24" stroke="currentColor" className="mr-2">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                </svg>
+                题目管理
+              </Button>
+              <Button 
+                variant="secondary" 
+                onClick={() => setShowAssignments(true)}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" fill="none" viewBox="0 0 24 24" stroke="currentColor" className="mr-2">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                布置作业
+              </Button>
+              <Button 
+                variant="secondary" 
+                onClick={() => setShowAuditLog(true)}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" fill="none" viewBox="0 0 24 24" stroke="currentColor" className="mr-2">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+                </svg>
+                操作日志
+              </Button>
+              {/* Full backups contain every account, so only the administrator gets them */}
+              {isAdmin && (
+                <Button 
+                  variant="secondary" 
+                  onClick={() => setShowBackup(true)}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" fill="none" viewBox="0 0 24 24" stroke="currentColor" className="mr-2">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+                  </svg>
+                  备份与恢复
+                </Button>
+              )}
               <Button 
                 variant="secondary" 
                 onClick={() => fileInputRef.current?.click()}
@@ -246,31 +529,73 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
                 <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" fill="none" viewBox="0 0 24 24" stroke="currentColor" className="mr-2">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
                 </svg>
-                Excel 批量导入
+                批量导入 (Excel/CSV)
               </Button>
             </div>
           </div>
 
+          {/* Bulk Actions */}
+          {selectedIds.length > 0 && (
+            <div className="mb-4 bg-indigo-50 border border-indigo-200 rounded-xl px-4 py-3 flex flex-wrap items-center gap-4 text-sm">
+              <span className="font-medium text-indigo-900">已选择 {selectedIds.length} 名学生</span>
+              <button onClick={() => handleBulkActive(false)} disabled={bulkBusy} className="text-slate-600 hover:text-slate-900 font-medium">停用</button>
+              <button onClick={() => handleBulkActive(true)} disabled={bulkBusy} className="text-slate-600 hover:text-slate-900 font-medium">启用</button>
+              <button onClick={handleBulkDelete} disabled={bulkBusy} className="text-red-600 hover:text-red-800 font-medium">删除</button>
+              {classes.length > 0 && (
+                <span className="flex items-center gap-2">
+                  <select
+                    value={transferTarget}
+                    onChange={(e) => setTransferTarget(e.target.value)}
+                    className="px-2 py-1 border border-slate-300 rounded-lg bg-white"
+                  >
+                    <option value="">转入班级...</option>
+                    {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                  <button onClick={handleBulkTransfer} disabled={bulkBusy || !transferTarget} className="text-indigo-600 hover:text-indigo-900 font-medium disabled:opacity-50">转班</button>
+                </span>
+              )}
+              <button onClick={() => setSelectedIds([])} className="ml-auto text-slate-400 hover:text-slate-600">取消选择</button>
+            </div>
+          )}
+
           {/* Student List */}
           <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
             <table className="w-full text-left">
               <thead className="bg-slate-50 border-b border-slate-200">
                 <tr>
+                  <th className="pl-6 py-4 w-8">
+                    <input type="checkbox" checked={allFilteredSelected} onChange={toggleSelectAll} title="全选" />
+                  </th>
                   <th className="px-6 py-4 font-semibold text-slate-700 text-sm">姓名</th>
                   <th className="px-6 py-4 font-semibold text-slate-700 text-sm">账号</th>
+                  <th className="px-6 py-4 font-semibold text-slate-700 text-sm">班级</th>
                   <th className="px-6 py-4 font-semibold text-slate-700 text-sm">状态</th>
+                  <th className="px-6 py-4 font-semibold text-slate-700 text-sm">作业</th>
                   <th className="px-6 py-4 font-semibold text-slate-700 text-sm text-right">操作</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-100">
                 {filteredStudents.map(student => {
-                    const mistakes = getUserMistakes(student.id);
+                    const mistakes = mistakesByStudent[student.id] || [];
+                    const homework = summarizeStudentHomework(student, assignments, homeworkByStudent[student.id] || []);
                     return (
-                        <tr key={student.id} className="hover:bg-slate-50 transition-colors group">
+                        <tr key={student.id} className={`hover:bg-slate-50 transition-colors group ${student.deactivatedAt ? 'opacity-60' : ''}`}>
+                        <td className="pl-6 py-4">
+                            <input type="checkbox" checked={selectedIds.includes(student.id)} onChange={() => toggleSelect(student.id)} />
+                        </td>
                         <td className="px-6 py-4 text-slate-900 font-medium">{student.name}</td>
                         <td className="px-6 py-4 text-slate-500 font-mono text-sm">{student.username}</td>
+                        <td className="px-6 py-4 text-slate-500 text-sm">{getClassNames(student) || <span className="text-slate-300">未分班</span>}</td>
                         <td className="px-6 py-4">
-                            {student.isFirstLogin ? (
+                            {student.deactivatedAt ? (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-200 text-slate-700" title={`停用于 ${new Date(student.deactivatedAt).toLocaleDateString('zh-CN')}`}>
+                                已停用
+                            </span>
+                            ) : isUserLocked(student) ? (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800" title={`锁定至 ${new Date(student.lockedUntil!).toLocaleTimeString('zh-CN')}`}>
+                                已锁定
+                            </span>
+                            ) : student.isFirstLogin ? (
                             <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
                                 未激活
                             </span>
@@ -280,7 +605,33 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
                             </span>
                             )}
                         </td>
+                        <td className="px-6 py-4 text-slate-500 text-sm">
+                            {homework.assigned === 0 ? (
+                              <span className="text-slate-300">-</span>
+                            ) : (
+                              <span title={homework.averageScore !== null ? `平均分 ${homework.averageScore}` : undefined}>
+                                {homework.completed}/{homework.assigned} 完成
+                                {homework.late > 0 && <span className="text-red-600"> · 逾期 {homework.late}</span>}
+                              </span>
+                            )}
+                        </td>
                         <td className="px-6 py-4 text-right space-x-4">
+                            {isUserLocked(student) && (
+                              <button 
+                                onClick={() => handleUnlock(student)}
+                                className="text-red-600 hover:text-red-800 text-sm font-medium transition-colors"
+                                title="解除登录锁定"
+                              >
+                                解锁
+                              </button>
+                            )}
+                            <button 
+                              onClick={() => setEditingStudent(student)}
+                              className="text-slate-400 hover:text-indigo-600 text-sm font-medium transition-colors"
+                              title="修改姓名/账号、停用或删除"
+                            >
+                              编辑
+                            </button>
                             <button 
                               onClick={() => handleResetPassword(student)}
                               className="text-slate-400 hover:text-red-600 text-sm font-medium transition-colors"
@@ -289,7 +640,7 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
                               重置密码
                             </button>
                             <button 
-                            onClick={() => onSelectStudent(student, mistakes)}
+                            onClick={() => onSelectStudent(student, mistakes, attemptsByStudent[student.id] || [])}
                             className="text-indigo-600 hover:text-indigo-900 text-sm font-medium transition-opacity"
                             >
                             查看学情 &rarr;
@@ -300,7 +651,7 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
                 })}
                 {filteredStudents.length === 0 && (
                   <tr>
-                    <td colSpan={4} className="px-6 py-12 text-center text-slate-400">
+                    <td colSpan={7} className="px-6 py-12 text-center text-slate-400">
                       {searchTerm ? "未找到匹配的学生。" : "暂无学生数据。请使用 Excel 导入。"}
                     </td>
                   </tr>
@@ -310,8 +661,8 @@ export const CoachDashboard: React.FC<CoachDashboardProps> = ({ onSelectStudent,
           </div>
           
           <div className="mt-4 text-xs text-slate-400">
-            * 仅展示已注册学生。密码加密存储。
-            Excel 模板格式: 第一列 "name" 或 "姓名", 第二列 "username" 或 "账号"。
+            * {isAdmin ? '仅展示已注册学生。' : '仅展示你所负责班级的学生。'}密码加密存储。导入的学生会加入当前选择的班级。
+            导入模板 (.xlsx 或 .csv): 必需列 "name"/"姓名" 和 "username"/"账号"；可选列 "class"/"班级" 和 "password"/"初始密码"。
           </div>
         </div>
       </main>
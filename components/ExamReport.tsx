@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { Exam, ExamQuestion, GradingVerdict } from '../types';
+import { EXAM_TOTAL_POINTS, formatPoints, getUngradedQuestions, hasAnswer, scoreExam, scoreQuestion } from '../services/examService';
+import { ERROR_CATEGORY_LABELS, VERDICT_LABELS, isConfident } from '../services/gradingService';
+import { Button } from './Button';
+
+interface ExamReportProps {
+  exam: Exam;
+  grading: { graded: number, total: number } | null; // Progress while a grading pass runs
+  onGrade: () => void;         // Grades what is still ungraded (after a failure or a reload)
+  onClose: () => void;
+}
+
+const VERDICT_STYLES: Record<GradingVerdict, string> = {
+  correct: 'bg-green-100 text-green-700',
+  partial: 'bg-amber-100 text-amber-700',
+  incorrect: 'bg-red-100 text-red-700',
+  no_attempt: 'bg-slate-100 text-slate-600'
+};
+
+const QuestionResult: React.FC<{ question: ExamQuestion, number: number }> = ({ question, number }) => {
+  const [showSolution, setShowSolution] = useState(false);
+  const { grading } = question;
+
+  let status: { label: string, style: string };
+  if (!hasAnswer(question)) {
+    status = { label: '未作答', style: VERDICT_STYLES.no_attempt };
+  } else if (!grading) {
+    status = { label: '待评分', style: 'bg-slate-100 text-slate-500' };
+  } else {
+    status = { label: VERDICT_LABELS[grading.verdict], style: VERDICT_STYLES[grading.verdict] };
+  }
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-2xl p-6 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className="font-bold text-slate-900">第 {number} 题</span>
+        <span className="px-2 py-0.5 bg-indigo-50 text-indigo-700 text-xs font-bold rounded-md">{question.problem.topic}</span>
+        <span className={`px-2 py-0.5 text-xs font-bold rounded-md ${status.style}`}>{status.label}</span>
+        <span className="ml-auto font-bold text-slate-800">{formatPoints(scoreQuestion(question))} / {formatPoints(question.points)} 分</span>
+      </div>
+
+      <div className="prose prose-slate prose-sm max-w-none line-clamp-3 mb-3">
+        <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+          {question.problem.content.replace(/\*\*题目:\*\*/g, '').replace(/\*\*Problem:\*\*/g, '').trim()}
+        </ReactMarkdown>
+      </div>
+
+      {grading && (
+        <div className="text-sm text-slate-600 space-y-1 mb-3">
+          {grading.firstFaultyStep && <p>第一处错误：{grading.firstFaultyStep}</p>}
+          {grading.errorCategory && grading.errorCategory !== 'none' && <p>错误类型：{ERROR_CATEGORY_LABELS[grading.errorCategory]}</p>}
+          {!isConfident(grading) && <p className="text-amber-600">评分把握不大，建议请教练复核。</p>}
+        </div>
+      )}
+
+      {question.problem.standardSolution && (
+        <div>
+          <button onClick={() => setShowSolution(s => !s)} className="text-sm font-medium text-indigo-600 hover:text-indigo-700">
+            {showSolution ? '收起参考解答' : '查看参考解答'}
+          </button>
+          {showSolution && (
+            <div className="prose prose-slate prose-sm max-w-none mt-3 p-4 bg-slate-50 rounded-xl">
+              <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                {question.problem.standardSolution}
+              </ReactMarkdown>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ExamReport: React.FC<ExamReportProps> = ({ exam, grading, onGrade, onClose }) => {
+  const ungraded = getUngradedQuestions(exam).length;
+  const minutesUsed = Math.round(((exam.submittedAt || exam.endsAt) - exam.startedAt) / 60000);
+  const answered = exam.questions.filter(hasAnswer).length;
+
+  return (
+    <div className="h-full overflow-y-auto p-6">
+      <div className="max-w-4xl mx-auto pt-6 pb-20 space-y-6">
+        <div className="bg-gradient-to-r from-indigo-600 to-purple-600 rounded-2xl p-8 text-white shadow-lg">
+          <h2 className="text-lg font-medium text-indigo-100 mb-2">模拟考试成绩</h2>
+          <div className="text-5xl font-bold">
+            {grading || !exam.gradedAt ? '--' : formatPoints(scoreExam(exam))}
+            <span className="text-2xl text-indigo-200"> / {EXAM_TOTAL_POINTS}</span>
+          </div>
+          <p className="text-indigo-100 mt-3 text-sm">
+            用时 {minutesUsed} 分钟 · 作答 {answered}/{exam.questions.length} 题
+          </p>
+        </div>
+
+        {grading && (
+          <div className="p-4 bg-indigo-50 text-indigo-700 text-sm rounded-xl">
+            正在评分 {grading.graded}/{grading.total}，请稍候...
+          </div>
+        )}
+
+        {!grading && (ungraded > 0 || !exam.gradedAt) && (
+          <div className="p-4 bg-amber-50 text-amber-700 text-sm rounded-xl flex items-center gap-3">
+            <span className="flex-1">
+              {exam.gradedAt ? `有 ${ungraded} 道题评分失败，得分暂未计入。` : '试卷已提交，尚未评分。'}
+            </span>
+            <Button onClick={onGrade} className="px-4 py-2">{exam.gradedAt ? '重新评分' : '开始评分'}</Button>
+          </div>
+        )}
+
+        {exam.gradedAt && !grading && (
+          <p className="text-sm text-slate-500">没做对和未作答的题目已加入错题本，可以在那里向导师继续请教。</p>
+        )}
+
+        {exam.questions.map((q, i) => (
+          <QuestionResult key={q.problem.id} question={q} number={i + 1} />
+        ))}
+
+        <div className="flex justify-center">
+          <Button onClick={onClose} disabled={!!grading}>完成</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
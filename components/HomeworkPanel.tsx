@@ -0,0 +1,64 @@
+import React from 'react';
+import { Assignment, AssignmentItem, DIFFICULTY_LABELS, HomeworkRecord } from '../types';
+import { HOMEWORK_STATUS_LABELS, HomeworkStatus, summarizeHomework } from '../services/assignmentService';
+import { ATTEMPT_OUTCOME_LABELS } from '../services/attemptService';
+
+interface HomeworkPanelProps {
+  assignments: Assignment[];
+  records: HomeworkRecord[];
+  disabled: boolean;
+  onOpen: (assignment: Assignment, item: AssignmentItem) => void;
+}
+
+const STATUS_STYLES: Record<HomeworkStatus, string> = {
+  not_started: 'bg-slate-100 text-slate-600',
+  in_progress: 'bg-indigo-100 text-indigo-700',
+  completed: 'bg-green-100 text-green-700'
+};
+
+export const HomeworkPanel: React.FC<HomeworkPanelProps> = ({ assignments, records, disabled, onOpen }) => (
+  <div className="space-y-4">
+    {assignments.map(assignment => {
+      const summary = summarizeHomework(assignment, records);
+      return (
+        <div key={assignment.id} className="bg-white border border-slate-200 rounded-2xl p-6 shadow-sm">
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <h4 className="font-bold text-slate-900">{assignment.title}</h4>
+            <span className={`px-2 py-0.5 text-xs font-bold rounded-md ${STATUS_STYLES[summary.status]}`}>
+              {HOMEWORK_STATUS_LABELS[summary.status]} {summary.completed}/{summary.total}
+            </span>
+            {summary.late && (
+              <span className="px-2 py-0.5 text-xs font-bold rounded-md bg-red-100 text-red-700">
+                {summary.status === 'completed' ? '迟交' : '已逾期'}
+              </span>
+            )}
+            {summary.score !== null && <span className="ml-auto text-sm font-bold text-slate-700">得分 {summary.score}</span>}
+          </div>
+          <p className="text-xs text-slate-500 mb-4">
+            {assignment.coachName} 布置 · 截止 {new Date(assignment.dueAt).toLocaleString('zh-CN')}
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {assignment.items.map((item, i) => {
+              const record = records.find(r => r.assignmentId === assignment.id && r.itemId === item.id);
+              return (
+                <button
+                  key={item.id}
+                  onClick={() => onOpen(assignment, item)}
+                  disabled={disabled}
+                  className="flex items-center gap-2 px-4 py-3 rounded-xl border border-slate-200 text-left text-sm hover:border-indigo-400 hover:bg-indigo-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span className="font-bold text-slate-700">第 {i + 1} 题</span>
+                  <span className="text-slate-500 truncate">{item.topic} · {DIFFICULTY_LABELS[item.difficulty]}</span>
+                  <span className={`ml-auto shrink-0 text-xs font-medium ${record?.completedAt ? 'text-green-600' : record ? 'text-indigo-600' : 'text-slate-400'}`}>
+                    {record?.completedAt ? ATTEMPT_OUTCOME_LABELS[record.outcome] : record ? '进行中' : '未开始'}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
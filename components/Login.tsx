@@ -5,9 +5,10 @@ import { User } from '../types';
 
 interface LoginProps {
   onLoginSuccess: (user: User, previousLogin?: number) => void;
+  notice?: string; // e.g. why the previous session ended
 }
 
-export const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
+export const Login: React.FC<LoginProps> = ({ onLoginSuccess, notice }) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
@@ -38,6 +39,12 @@ export const Login: React.FC<LoginProps> = ({ onLoginSuccess }) => {
           <p className="text-slate-500 mt-2">竞赛生专属训练平台</p>
         </div>
 
+        {notice && !error && (
+          <div className="mb-4 p-3 bg-amber-50 text-amber-700 text-sm rounded-lg">
+            {notice}
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-1">账号</label>
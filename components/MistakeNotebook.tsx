@@ -1,22 +1,46 @@
-import React from 'react';
+import React, { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import { Problem } from '../types';
+import { getSchedule, isDue } from '../services/reviewScheduler';
+import { isMastered } from '../services/gradingService';
+import { AIError, classifyAIError } from '../services/aiErrors';
+import { AIErrorNotice } from './AIErrorNotice';
 
 interface MistakeNotebookProps {
   mistakes: Problem[];
   onSelect: (problem: Problem) => void;
   onDelete: (id: string, e: React.MouseEvent) => void;
+  onVariant: (problem: Problem) => Promise<void>; // Practice a fresh variant; the parent swaps the view on success
   onBack: () => void;
+  onBackup: () => void;
 }
 
 export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ 
   mistakes, 
   onSelect, 
   onDelete, 
-  onBack 
+  onVariant,
+  onBack,
+  onBackup
 }) => {
+  const [variantLoadingId, setVariantLoadingId] = useState<string | null>(null);
+  const [variantError, setVariantError] = useState<{ error: AIError, problem: Problem } | null>(null);
+
+  const handleVariant = async (problem: Problem) => {
+    setVariantLoadingId(problem.id);
+    setVariantError(null);
+    try {
+      await onVariant(problem);
+    } catch (err) {
+      console.error("Variant Generate Error:", err);
+      setVariantError({ error: classifyAIError(err), problem });
+    } finally {
+      setVariantLoadingId(null);
+    }
+  };
+
   return (
     <div className="h-full flex flex-col bg-slate-50">
       <div className="max-w-4xl mx-auto w-full p-6 flex-1 overflow-y-auto">
@@ -31,8 +55,23 @@ export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({
           </button>
           <h2 className="text-2xl font-bold text-slate-900">我的错题本</h2>
           <span className="text-slate-500 text-sm bg-slate-200 px-2 py-1 rounded-full">{mistakes.length}</span>
+          <button
+            onClick={onBackup}
+            className="ml-auto text-sm text-slate-500 hover:text-indigo-600 px-3 py-2 rounded-lg hover:bg-slate-100 transition-colors"
+          >
+            备份与恢复
+          </button>
         </div>
 
+        {variantError && (
+          <AIErrorNotice
+            error={variantError.error}
+            onRetry={() => handleVariant(variantError.problem)}
+            onDismiss={() => setVariantError(null)}
+            className="mb-4"
+          />
+        )}
+
         {mistakes.length === 0 ? (
           <div className="text-center py-20">
             <div className="w-24 h-24 bg-slate-200 rounded-full mx-auto flex items-center justify-center mb-4 text-slate-400">
@@ -55,6 +94,12 @@ export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({
                   <span className="inline-block px-2 py-1 bg-indigo-50 text-indigo-700 text-xs font-bold uppercase tracking-wider rounded-md">
                     {problem.topic}
                   </span>
+                  {isMastered(problem) && (
+                    <span className="ml-2 px-2 py-1 bg-green-50 text-green-700 text-xs font-medium rounded-md">已掌握</span>
+                  )}
+                  <span className={`ml-2 mr-auto px-2 py-1 text-xs rounded-md ${isDue(problem) ? 'bg-amber-50 text-amber-700' : 'text-slate-400'}`}>
+                    {isDue(problem) ? '待复习' : `下次复习 ${new Date(getSchedule(problem).dueAt).toLocaleDateString('zh-CN')}`}
+                  </span>
                   <button 
                     onClick={(e) => onDelete(problem.id, e)}
                     className="text-slate-400 hover:text-red-500 p-2 -mr-2 -mt-2 opacity-0 group-hover:opacity-100 transition-opacity"
@@ -75,11 +120,21 @@ export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({
                   </ReactMarkdown>
                 </div>
                 
-                <div className="text-indigo-600 text-sm font-medium mt-2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                  重新挑战
-                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M13 7l5 5m0 0l-5 5m5-5H6" />
-                  </svg>
+                <div className="flex items-center justify-between mt-2">
+                  <div className="text-indigo-600 text-sm font-medium flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    重新挑战
+                    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M13 7l5 5m0 0l-5 5m5-5H6" />
+                    </svg>
+                  </div>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleVariant(problem); }}
+                    disabled={variantLoadingId !== null}
+                    className="text-sm font-medium text-emerald-600 hover:text-emerald-700 px-3 py-1 rounded-lg border border-emerald-200 hover:bg-emerald-50 transition-colors disabled:opacity-50"
+                    title="换一组数字或函数，出一道同类型的新题"
+                  >
+                    {variantLoadingId === problem.id ? '正在出题...' : '换题再练'}
+                  </button>
                 </div>
               </div>
             ))}
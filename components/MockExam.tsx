@@ -0,0 +1,243 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { Exam, ExamQuestion } from '../types';
+import { DEFAULT_EXAM_MINUTES, DEFAULT_EXAM_SIZE, EXAM_DURATIONS, EXAM_SIZES, formatPoints, hasAnswer } from '../services/examService';
+import { ANSWER_FILE_ACCEPT, readAttachmentFile } from '../services/attachmentReader';
+import { ProblemBankError } from '../services/problemBank';
+import { AIError, classifyAIError } from '../services/aiErrors';
+import { Button } from './Button';
+import { AIErrorNotice } from './AIErrorNotice';
+
+interface MockExamProps {
+  exam: Exam | null;           // Null until the student has set up and started a paper
+  settings: string;            // Difficulty, round and source chosen on the topic screen
+  onStart: (size: number, minutes: number, onProgress: (drawn: number) => void) => Promise<void>;
+  onAnswer: (index: number, answer: Pick<ExamQuestion, 'answerText' | 'attachment'>) => void;
+  onSubmit: () => void;
+  onExit: () => void;
+}
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${hours > 0 ? `${hours}:` : ''}${pad(minutes)}:${pad(seconds)}`;
+};
+
+export const MockExam: React.FC<MockExamProps> = ({ exam, settings, onStart, onAnswer, onSubmit, onExit }) => {
+  // --- Setup ---
+  const [size, setSize] = useState(DEFAULT_EXAM_SIZE);
+  const [minutes, setMinutes] = useState(DEFAULT_EXAM_MINUTES);
+  const [drawn, setDrawn] = useState<number | null>(null);
+  const [setupError, setSetupError] = useState<{ error?: AIError, message?: string } | null>(null);
+
+  // --- Paper ---
+  const [index, setIndex] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const submittedRef = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!exam) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [exam]);
+
+  // Hand in automatically when time is up, also when a reload finds the time already over
+  useEffect(() => {
+    if (exam && now >= exam.endsAt && !submittedRef.current) {
+      submittedRef.current = true;
+      onSubmit();
+    }
+  }, [exam, now, onSubmit]);
+
+  const handleStart = async () => {
+    setDrawn(0);
+    setSetupError(null);
+    try {
+      await onStart(size, minutes, setDrawn);
+    } catch (err) {
+      console.error("Exam Generate Error:", err);
+      setSetupError(err instanceof ProblemBankError ? { message: err.message } : { error: classifyAIError(err) });
+    } finally {
+      setDrawn(null);
+    }
+  };
+
+  if (!exam) {
+    return (
+      <div className="h-full overflow-y-auto p-6">
+        <div className="max-w-2xl mx-auto pt-6 pb-20">
+          <button onClick={onExit} className="text-sm text-slate-500 hover:text-indigo-600 mb-6">← 返回</button>
+          <h2 className="text-3xl font-bold text-slate-900 mb-2">模拟考试</h2>
+          <p className="text-slate-500 mb-8">
+            按全国大学生数学竞赛的形式组卷：各主题轮流出题，限时作答。考试期间没有导师提示，每道题上传或输入自己的解答，交卷后统一评分，没做对的题自动加入错题本。
+          </p>
+
+          <div className="bg-white border border-slate-200 rounded-2xl p-6 shadow-sm space-y-6">
+            <div>
+              <div className="text-sm font-medium text-slate-500 mb-2">题量（满分 100 分，每题分值相同）</div>
+              <div className="flex gap-2">
+                {EXAM_SIZES.map(n => (
+                  <button
+                    key={n}
+                    onClick={() => setSize(n)}
+                    className={`px-4 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                      size === n ? 'bg-indigo-600 text-white border-indigo-600' : 'border-slate-200 text-slate-600 hover:bg-slate-100'
+                    }`}
+                  >
+                    {n} 题
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm font-medium text-slate-500 mb-2">时长</div>
+              <div className="flex gap-2">
+                {EXAM_DURATIONS.map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setMinutes(m)}
+                    className={`px-4 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                      minutes === m ? 'bg-indigo-600 text-white border-indigo-600' : 'border-slate-200 text-slate-600 hover:bg-slate-100'
+                    }`}
+                  >
+                    {m} 分钟
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-sm text-slate-500">难度、轮次与题源沿用首页的选择：{settings}</p>
+
+            {setupError?.error && (
+              <AIErrorNotice error={setupError.error} onRetry={handleStart} onDismiss={() => setSetupError(null)} />
+            )}
+            {setupError?.message && (
+              <div className="p-3 bg-amber-50 text-amber-700 text-sm rounded-lg">{setupError.message}</div>
+            )}
+
+            <Button onClick={handleStart} isLoading={drawn !== null} className="w-full">
+              {drawn !== null ? `正在组卷 ${drawn}/${size}...` : '开始考试'}
+            </Button>
+            <p className="text-xs text-slate-400 text-center">题目全部准备好后才开始计时。</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const question = exam.questions[index];
+  const remaining = exam.endsAt - now;
+  const answeredCount = exam.questions.filter(hasAnswer).length;
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      readAttachmentFile(file)
+        .then(attachment => onAnswer(index, { answerText: question.answerText, attachment }))
+        .catch(console.error);
+    }
+  };
+
+  const handleSubmit = () => {
+    const unanswered = exam.questions.length - answeredCount;
+    const warning = unanswered > 0 ? `还有 ${unanswered} 道题没有作答。` : '';
+    if (!window.confirm(`${warning}确定要交卷吗？交卷后不能再修改答案。`)) return;
+    submittedRef.current = true;
+    onSubmit();
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Exam bar: progress, countdown and hand-in */}
+      <div className="bg-white border-b border-slate-200 px-6 py-3 flex flex-wrap items-center gap-4 flex-none">
+        <span className="font-bold text-slate-900">模拟考试</span>
+        <span className="text-sm text-slate-500">已作答 {answeredCount}/{exam.questions.length}</span>
+        <span className={`ml-auto font-mono text-lg font-bold ${remaining < 5 * 60 * 1000 ? 'text-red-600' : 'text-slate-800'}`}>
+          {formatCountdown(remaining)}
+        </span>
+        <Button onClick={handleSubmit} className="px-4 py-2">交卷</Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-4xl mx-auto space-y-6">
+          {/* Question navigation */}
+          <div className="flex flex-wrap gap-2">
+            {exam.questions.map((q, i) => (
+              <button
+                key={q.problem.id}
+                onClick={() => setIndex(i)}
+                className={`w-10 h-10 rounded-lg text-sm font-bold border transition-colors ${
+                  i === index
+                    ? 'bg-indigo-600 text-white border-indigo-600'
+                    : hasAnswer(q)
+                      ? 'bg-indigo-50 text-indigo-700 border-indigo-200'
+                      : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-100'
+                }`}
+                title={hasAnswer(q) ? '已作答' : '未作答'}
+              >
+                {i + 1}
+              </button>
+            ))}
+          </div>
+
+          <div className="bg-white border border-slate-200 rounded-2xl p-6 shadow-sm">
+            <div className="flex items-center gap-2 mb-4">
+              <span className="font-bold text-slate-900">第 {index + 1} 题</span>
+              <span className="px-2 py-0.5 bg-indigo-50 text-indigo-700 text-xs font-bold rounded-md">{question.problem.topic}</span>
+              <span className="text-sm text-slate-500">（{formatPoints(question.points)} 分）</span>
+            </div>
+            <div className="prose prose-slate max-w-none">
+              <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                {question.problem.content.replace(/\*\*题目:\*\*/g, '').replace(/\*\*Problem:\*\*/g, '').trim()}
+              </ReactMarkdown>
+            </div>
+          </div>
+
+          <div className="bg-white border border-slate-200 rounded-2xl p-6 shadow-sm space-y-3">
+            <div className="text-sm font-medium text-slate-700">你的解答</div>
+            <textarea
+              value={question.answerText}
+              onChange={(e) => onAnswer(index, { answerText: e.target.value, attachment: question.attachment })}
+              placeholder="写出解题过程和答案（支持 LaTeX），也可以上传图片、PDF、Word 或 .tex 文件"
+              rows={8}
+              className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 focus:bg-white transition-all text-slate-800 placeholder-slate-400"
+            />
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="text-sm text-slate-600 hover:text-indigo-600 px-3 py-1.5 rounded-lg border border-slate-200 hover:bg-slate-50 transition-colors"
+              >
+                上传答案文件
+              </button>
+              <input type="file" accept={ANSWER_FILE_ACCEPT} ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
+              {question.attachment && (
+                <span className="flex items-center gap-2 text-sm text-slate-600 bg-slate-100 px-3 py-1.5 rounded-lg">
+                  <span className="truncate max-w-[240px]">{question.attachment.name}</span>
+                  <button
+                    onClick={() => onAnswer(index, { answerText: question.answerText, attachment: undefined })}
+                    className="text-slate-400 hover:text-red-500"
+                    title="移除"
+                  >
+                    ✕
+                  </button>
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-between">
+            <Button variant="secondary" onClick={() => setIndex(i => i - 1)} disabled={index === 0}>上一题</Button>
+            <Button variant="secondary" onClick={() => setIndex(i => i + 1)} disabled={index === exam.questions.length - 1}>下一题</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
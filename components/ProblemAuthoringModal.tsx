@@ -0,0 +1,291 @@
+import React, { useState, useEffect, useRef } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { Button } from './Button';
+import { AuthoredProblem, Class, CompetitionLevel, Difficulty, DIFFICULTY_LABELS, LEVEL_LABELS, TOPICS, User } from '../types';
+import { getVisibleClasses } from '../services/classService';
+import {
+  AuthoredProblemFields,
+  deleteAuthoredProblems,
+  getManageableProblems,
+  getPublishIssue,
+  importAuthoredProblems,
+  parseProblemFile,
+  publishAuthoredProblems,
+  saveAuthoredProblem,
+  unpublishAuthoredProblems
+} from '../services/authoredProblemService';
+
+interface ProblemAuthoringModalProps {
+  currentUser: User;
+  onClose: () => void;
+}
+
+const PROBLEM_TOPICS = TOPICS.filter(t => t !== "随机选题");
+
+const emptyFields = (): AuthoredProblemFields => ({
+  topic: PROBLEM_TOPICS[0],
+  difficulty: 'Medium',
+  level: 'preliminary',
+  content: '',
+  standardSolution: '',
+  feynmanExplanation: '',
+  finalAnswer: '',
+  source: ''
+});
+
+const toFields = (p: AuthoredProblem): AuthoredProblemFields => ({
+  topic: p.topic,
+  difficulty: p.difficulty,
+  level: p.level,
+  content: p.content,
+  standardSolution: p.standardSolution,
+  feynmanExplanation: p.feynmanExplanation || '',
+  finalAnswer: p.finalAnswer || '',
+  source: p.source
+});
+
+// Textarea with the same Markdown + KaTeX rendering students see, side by side
+const MarkdownField: React.FC<{ label: string, value: string, rows: number, placeholder?: string, onChange: (value: string) => void }> = ({ label, value, rows, placeholder, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+    <div className="grid grid-cols-2 gap-3">
+      <textarea
+        value={value}
+        rows={rows}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-500 resize-y"
+      />
+      <div className="prose prose-slate prose-sm max-w-none bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 overflow-y-auto">
+        {value.trim() ? (
+          <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+            {value}
+          </ReactMarkdown>
+        ) : (
+          <p className="text-slate-400 text-xs">预览</p>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export const ProblemAuthoringModal: React.FC<ProblemAuthoringModalProps> = ({ currentUser, onClose }) => {
+  const [problems, setProblems] = useState<AuthoredProblem[]>([]);
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [publishClassIds, setPublishClassIds] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [fields, setFields] = useState<AuthoredProblemFields | null>(null);
+  const [importTopic, setImportTopic] = useState(PROBLEM_TOPICS[0]);
+  const [importDifficulty, setImportDifficulty] = useState<Difficulty>('Medium');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    refresh().catch(console.error);
+    getVisibleClasses(currentUser).then(setClasses).catch(console.error);
+  }, []);
+
+  const refresh = async () => {
+    setProblems((await getManageableProblems(currentUser)).sort((a, b) => b.updatedAt - a.updatedAt));
+  };
+
+  const toggle = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id];
+
+  // Wraps each action with the shared loading / error / success handling
+  const run = async (action: () => Promise<void>, message: string) => {
+    setSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      await action();
+      await refresh();
+      setSuccess(message);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "操作失败，请重试");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openEditor = (problem: AuthoredProblem | null) => {
+    setEditingId(problem?.id || null);
+    setFields(problem ? toFields(problem) : emptyFields());
+    setError('');
+    setSuccess('');
+  };
+
+  const updateFields = (changes: Partial<AuthoredProblemFields>) => {
+    setFields(f => f && { ...f, ...changes });
+  };
+
+  const handleSave = () => {
+    if (!fields) return;
+    run(async () => {
+      const saved = await saveAuthoredProblem(currentUser, {
+        ...fields,
+        feynmanExplanation: fields.feynmanExplanation?.trim() || undefined,
+        finalAnswer: fields.finalAnswer?.trim() || undefined
+      }, editingId || undefined);
+      setEditingId(saved.id);
+    }, "题目已保存");
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    await run(async () => {
+      const imported = parseProblemFile(file.name, await file.text());
+      const drafts = await importAuthoredProblems(currentUser, imported, { topic: importTopic, difficulty: importDifficulty });
+      setSelectedIds(drafts.map(d => d.id));
+      if (drafts.length > 0) openEditor(drafts[0]);
+    }, "已导入为草稿，请逐题检查后发布");
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handlePublish = () => {
+    run(() => publishAuthoredProblems(currentUser, selectedIds, publishClassIds), `已发布 ${selectedIds.length} 道题目`);
+  };
+
+  const handleUnpublish = () => {
+    run(() => unpublishAuthoredProblems(currentUser, selectedIds), "已撤回为草稿");
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`确定删除所选的 ${selectedIds.length} 道题目吗？`)) return;
+    run(async () => {
+      await deleteAuthoredProblems(currentUser, selectedIds);
+      if (editingId && selectedIds.includes(editingId)) {
+        setEditingId(null);
+        setFields(null);
+      }
+      setSelectedIds([]);
+    }, "题目已删除");
+  };
+
+  const classLabel = (id: string) => classes.find(c => c.id === id)?.name || '已删除的班级';
+  const selectClass = "px-2 py-1.5 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-8 max-w-6xl w-full shadow-2xl max-h-full flex flex-col">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">题目管理</h2>
+            <p className="text-slate-500 text-sm mt-1">编写或导入题目（.tex / .json），检查后发布到班级，学生即可在题库中抽到。</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <Button onClick={() => openEditor(null)}>新建题目</Button>
+          <input type="file" ref={fileInputRef} className="hidden" accept=".tex,.json" onChange={handleFileUpload} />
+          <div className="flex items-center gap-2 text-sm text-slate-500">
+            导入默认
+            <select value={importTopic} onChange={(e) => setImportTopic(e.target.value)} className={selectClass}>
+              {PROBLEM_TOPICS.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+            <select value={importDifficulty} onChange={(e) => setImportDifficulty(e.target.value as Difficulty)} className={selectClass}>
+              {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map(d => <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>)}
+            </select>
+            <Button variant="secondary" onClick={() => fileInputRef.current?.click()} disabled={saving}>导入 .tex / .json</Button>
+          </div>
+        </div>
+
+        {error && <p className="text-red-500 text-sm mb-3">{error}</p>}
+        {success && <p className="text-green-600 text-sm mb-3">{success}</p>}
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Problem list & publishing */}
+          <div className="flex flex-col min-h-0">
+            <div className="flex-1 overflow-y-auto border border-slate-200 rounded-xl divide-y divide-slate-100">
+              {problems.length === 0 && <p className="p-4 text-sm text-slate-400">暂无题目</p>}
+              {problems.map(p => {
+                const issue = getPublishIssue(p);
+                return (
+                  <div key={p.id} className={`flex items-start gap-2 px-3 py-2 ${editingId === p.id ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}>
+                    <input type="checkbox" className="mt-1" checked={selectedIds.includes(p.id)} onChange={() => setSelectedIds(ids => toggle(ids, p.id))} />
+                    <button onClick={() => openEditor(p)} className="flex-1 min-w-0 text-left">
+                      <p className="text-sm text-slate-800 truncate">{p.content}</p>
+                      <p className="text-xs text-slate-500 mt-0.5">
+                        {p.topic} · {DIFFICULTY_LABELS[p.difficulty]}
+                        {currentUser.role === 'admin' && ` · ${p.authorName}`}
+                      </p>
+                      <p className="text-xs mt-0.5">
+                        {p.status === 'published'
+                          ? <span className="text-emerald-600">已发布：{p.classIds.map(classLabel).join('、')}</span>
+                          : <span className="text-slate-400">草稿</span>}
+                        {issue && <span className="text-amber-600">（{issue}）</span>}
+                      </p>
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+
+            {selectedIds.length > 0 && (
+              <div className="mt-3 bg-indigo-50 border border-indigo-100 rounded-xl p-3 text-sm">
+                <p className="font-medium text-indigo-900 mb-2">已选 {selectedIds.length} 道，发布到：</p>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mb-3">
+                  {classes.length === 0 && <span className="text-slate-500">暂无可发布的班级</span>}
+                  {classes.map(c => (
+                    <label key={c.id} className="flex items-center gap-1 text-slate-700">
+                      <input type="checkbox" checked={publishClassIds.includes(c.id)} onChange={() => setPublishClassIds(ids => toggle(ids, c.id))} />
+                      {c.name}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex gap-4">
+                  <button onClick={handlePublish} disabled={saving || publishClassIds.length === 0} className="text-indigo-600 hover:text-indigo-900 font-medium disabled:opacity-50">发布</button>
+                  <button onClick={handleUnpublish} disabled={saving} className="text-slate-600 hover:text-slate-900 font-medium">撤回</button>
+                  <button onClick={handleDelete} disabled={saving} className="text-red-600 hover:text-red-800 font-medium">删除</button>
+                  <button onClick={() => setSelectedIds([])} className="ml-auto text-slate-400 hover:text-slate-600">取消选择</button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Editor with live preview */}
+          <div className="md:col-span-2 min-h-0 overflow-y-auto pr-1">
+            {!fields ? (
+              <div className="h-full flex items-center justify-center text-sm text-slate-400 border border-dashed border-slate-200 rounded-xl p-8">
+                选择左侧题目进行检查和编辑，或新建一道题目
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <select value={fields.topic} onChange={(e) => updateFields({ topic: e.target.value })} className={selectClass}>
+                    {PROBLEM_TOPICS.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                  <select value={fields.difficulty} onChange={(e) => updateFields({ difficulty: e.target.value as Difficulty })} className={selectClass}>
+                    {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map(d => <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>)}
+                  </select>
+                  <select value={fields.level || 'preliminary'} onChange={(e) => updateFields({ level: e.target.value as CompetitionLevel })} className={selectClass}>
+                    {(Object.keys(LEVEL_LABELS) as CompetitionLevel[]).map(l => <option key={l} value={l}>{LEVEL_LABELS[l]}</option>)}
+                  </select>
+                  <input value={fields.source} placeholder="出处（默认：教练原创）" onChange={(e) => updateFields({ source: e.target.value })} className={selectClass} />
+                </div>
+
+                <MarkdownField label="题目" rows={6} value={fields.content} placeholder="支持 Markdown，公式用 $...$ 或 $$...$$" onChange={content => updateFields({ content })} />
+                <MarkdownField label="标准解答" rows={8} value={fields.standardSolution} onChange={standardSolution => updateFields({ standardSolution })} />
+                <MarkdownField label="费曼讲解（可选）" rows={4} value={fields.feynmanExplanation || ''} onChange={feynmanExplanation => updateFields({ feynmanExplanation })} />
+                <MarkdownField label="最终答案（可选）" rows={1} value={fields.finalAnswer || ''} placeholder="如 $\frac{16}{15}$" onChange={finalAnswer => updateFields({ finalAnswer })} />
+
+                <div className="flex justify-end gap-3">
+                  <Button variant="secondary" onClick={() => { setFields(null); setEditingId(null); }}>关闭编辑</Button>
+                  <Button onClick={handleSave} isLoading={saving}>{editingId ? '保存修改' : '保存为草稿'}</Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,16 +2,17 @@ import React, { useState, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
-import { Problem } from '../types';
+import { DIFFICULTY_LABELS, LEVEL_LABELS, Problem } from '../types';
 
 interface ProblemDisplayProps {
   problem: Problem;
   onBack: () => void;
   isSaved: boolean;
   onToggleSave: () => void;
+  onBackToParent?: () => void; // Shown on an easier follow-up while its original problem is known
 }
 
-export const ProblemDisplay: React.FC<ProblemDisplayProps> = ({ problem, onBack, isSaved, onToggleSave }) => {
+export const ProblemDisplay: React.FC<ProblemDisplayProps> = ({ problem, onBack, isSaved, onToggleSave, onBackToParent }) => {
   const [showToast, setShowToast] = useState(false);
 
   const cleanContent = problem.content
@@ -57,9 +58,40 @@ export const ProblemDisplay: React.FC<ProblemDisplayProps> = ({ problem, onBack,
             <span className="inline-block px-3 py-1 bg-indigo-100 text-indigo-700 text-xs font-bold uppercase tracking-wider rounded-full mb-2">
               {problem.topic}
             </span>
-            <h2 className="text-xl font-bold text-slate-900">当前挑战</h2>
+            <span className="inline-block ml-2 px-3 py-1 bg-slate-100 text-slate-600 text-xs font-bold rounded-full mb-2">
+              {problem.level ? `${LEVEL_LABELS[problem.level]} · ` : ''}{DIFFICULTY_LABELS[problem.difficulty]}
+            </span>
+            {problem.origin === 'bank' && (
+              <span className="inline-block ml-2 px-3 py-1 bg-emerald-100 text-emerald-700 text-xs font-bold rounded-full mb-2" title="来自题库的竞赛真题，出处已核实">
+                真题
+              </span>
+            )}
+            {problem.origin === 'authored' && (
+              <span className="inline-block ml-2 px-3 py-1 bg-sky-100 text-sky-700 text-xs font-bold rounded-full mb-2" title="由教练编写或导入并发布到你的班级">
+                教练题
+              </span>
+            )}
+            {problem.verification?.status === 'verified' && (
+              <span className="inline-block ml-2 px-3 py-1 bg-green-100 text-green-700 text-xs font-bold rounded-full mb-2" title="答案已通过独立求解与数值验算">
+                已验证
+              </span>
+            )}
+            {problem.verification?.status === 'unverified' && (
+              <span className="inline-block ml-2 px-3 py-1 bg-amber-100 text-amber-700 text-xs font-bold rounded-full mb-2" title={problem.verification.note}>
+                未验证
+              </span>
+            )}
+            <h2 className="text-xl font-bold text-slate-900">{problem.assignmentId ? '课后作业' : problem.reviewOfId ? '错题复习' : problem.variantOfId ? '变式练习' : problem.parentProblemId ? '降级练习' : '当前挑战'}</h2>
           </div>
           <div className="flex items-center gap-2">
+            {onBackToParent && (
+              <button
+                onClick={onBackToParent}
+                className="px-3 py-1.5 rounded-lg border border-indigo-200 text-sm font-medium text-indigo-600 hover:bg-indigo-50 transition-colors"
+              >
+                返回原题
+              </button>
+            )}
              <button
               onClick={handleToggle}
               className={`flex items-center gap-1 px-3 py-1.5 rounded-lg border text-sm font-medium transition-colors ${
@@ -87,6 +119,11 @@ export const ProblemDisplay: React.FC<ProblemDisplayProps> = ({ problem, onBack,
       {/* Scrollable Content Area */}
       <div className="flex-1 min-h-0 w-full max-w-4xl mx-auto">
         <div className="bg-slate-50 p-6 rounded-lg border-l-4 border-indigo-500 overflow-y-auto h-full shadow-inner">
+          {problem.verification?.status === 'unverified' && (
+            <div className="p-3 mb-3 bg-amber-50 text-amber-700 text-sm rounded-lg">
+              该题未通过自动校验（{problem.verification.note}），题目或参考解答可能有误，请谨慎参考。
+            </div>
+          )}
           {problem.source && (
             <div className="font-bold text-slate-600 mb-3">
               {problem.source}
@@ -0,0 +1,38 @@
+import React from 'react';
+import { REVIEW_RATING_LABELS, ReviewRating } from '../services/reviewScheduler';
+
+interface ReviewBarProps {
+  remaining: number;                 // Due reviews including the current one
+  suggested: ReviewRating | null;    // From the tutor's verdict, once there is one
+  onRate: (rating: ReviewRating) => void;
+}
+
+const RATING_STYLES: Record<ReviewRating, string> = {
+  again: 'border-red-200 text-red-600 hover:bg-red-50',
+  hard: 'border-amber-200 text-amber-600 hover:bg-amber-50',
+  good: 'border-green-200 text-green-600 hover:bg-green-50',
+  easy: 'border-indigo-200 text-indigo-600 hover:bg-indigo-50'
+};
+
+export const ReviewBar: React.FC<ReviewBarProps> = ({ remaining, suggested, onRate }) => (
+  <div className="bg-indigo-50 border-b border-indigo-100 px-6 py-2 flex flex-wrap items-center gap-3 flex-none">
+    <span className="text-sm font-medium text-indigo-900">错题复习 · 今日剩余 {remaining} 题</span>
+    <span className="text-xs text-indigo-500">
+      {suggested ? '根据导师判定已给出建议，也可以按自己的感受评价：' : '做完后评价这次复习，决定下次复习的时间：'}
+    </span>
+    <div className="flex gap-2 ml-auto">
+      {(Object.keys(REVIEW_RATING_LABELS) as ReviewRating[]).map(rating => (
+        <button
+          key={rating}
+          onClick={() => onRate(rating)}
+          className={`px-3 py-1 rounded-lg border bg-white text-sm font-medium transition-colors ${RATING_STYLES[rating]} ${
+            suggested === rating ? 'ring-2 ring-offset-1 ring-indigo-400' : ''
+          }`}
+        >
+          {REVIEW_RATING_LABELS[rating]}
+          {suggested === rating && <span className="ml-1 text-xs opacity-70">（建议）</span>}
+        </button>
+      ))}
+    </div>
+  </div>
+);
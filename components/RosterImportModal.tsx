@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './Button';
+import { Class, User } from '../types';
+import { getAllUsernames, registerBatchUsers } from '../services/authService';
+import { RosterRow, ROSTER_ISSUE_LABELS, validateRoster } from '../services/rosterImport';
+
+interface RosterImportModalProps {
+  currentUser: User;
+  initialRows: RosterRow[];
+  classes: Class[];      // Classes the importer may add students to
+  defaultClass?: Class;  // Used for rows without a class column value
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export const RosterImportModal: React.FC<RosterImportModalProps> = ({ currentUser, initialRows, classes, defaultClass, onClose, onImported }) => {
+  const [rows, setRows] = useState<RosterRow[]>(initialRows);
+  const [existingUsernames, setExistingUsernames] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getAllUsernames().then(setExistingUsernames).catch(console.error);
+  }, []);
+
+  // Coaches only see students in their classes, so every import must land in one
+  const requireClass = currentUser.role !== 'admin' && !defaultClass;
+  const issues = validateRoster(rows, existingUsernames, classes, requireClass);
+  const activeRows = rows.filter(r => !r.skip);
+  const problemCount = Object.keys(issues).length;
+  const hasPasswordColumn = rows.some(r => r.password);
+
+  const updateRow = (rowNumber: number, changes: Partial<RosterRow>) => {
+    setRows(rs => rs.map(r => r.rowNumber === rowNumber ? { ...r, ...changes } : r));
+  };
+
+  const skipProblemRows = () => {
+    setRows(rs => rs.map(r => issues[r.rowNumber] ? { ...r, skip: true } : r));
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError('');
+    try {
+      const count = await registerBatchUsers(
+        activeRows.map(r => ({
+          name: r.name.trim(),
+          username: r.username,
+          password: r.password || undefined,
+          classIds: r.className ? [classes.find(c => c.name === r.className)!.id] : []
+        })),
+        defaultClass ? [defaultClass.id] : [],
+        currentUser
+      );
+      alert(`成功导入 ${count} 名学生。${hasPasswordColumn ? '未填写初始密码的学生，' : ''}初始密码与账号(Username)相同。`);
+      onImported();
+      onClose();
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "导入失败，请重试");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const inputClass = (invalid: boolean) =>
+    `w-full px-2 py-1 border rounded text-sm outline-none focus:ring-2 focus:ring-indigo-500 ${invalid ? 'border-red-300 bg-red-50' : 'border-slate-200'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-8 max-w-5xl w-full shadow-2xl max-h-full flex flex-col">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">导入预览</h2>
+            <p className="text-slate-500 text-sm mt-1">
+              共 {rows.length} 行，将导入 {activeRows.length} 名学生
+              {defaultClass && <>，未填写班级的学生加入「{defaultClass.name}」</>}。
+              可直接修改单元格或跳过有问题的行。
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">×</button>
+        </div>
+
+        {problemCount > 0 && (
+          <div className="mb-4 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 text-sm text-amber-800 flex items-center justify-between">
+            <span>{problemCount} 行存在问题，修正或跳过后才能导入。</span>
+            <button onClick={skipProblemRows} className="font-medium hover:underline">全部跳过</button>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto border border-slate-200 rounded-xl">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 border-b border-slate-200 sticky top-0">
+              <tr>
+                <th className="px-3 py-3 font-semibold text-slate-700">行</th>
+                <th className="px-3 py-3 font-semibold text-slate-700">姓名</th>
+                <th className="px-3 py-3 font-semibold text-slate-700">账号</th>
+                <th className="px-3 py-3 font-semibold text-slate-700">班级</th>
+                <th className="px-3 py-3 font-semibold text-slate-700">初始密码</th>
+                <th className="px-3 py-3 font-semibold text-slate-700">问题</th>
+                <th className="px-3 py-3 font-semibold text-slate-700 text-right">跳过</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.map(row => {
+                const rowIssues = issues[row.rowNumber] || [];
+                const has = (...keys: string[]) => rowIssues.some(i => keys.includes(i));
+                return (
+                  <tr key={row.rowNumber} className={row.skip ? 'opacity-40' : rowIssues.length > 0 ? 'bg-red-50/40' : ''}>
+                    <td className="px-3 py-2 text-slate-400 font-mono">{row.rowNumber}</td>
+                    <td className="px-3 py-2">
+                      <input value={row.name} disabled={row.skip} onChange={(e) => updateRow(row.rowNumber, { name: e.target.value })} className={inputClass(has('empty_name'))} />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input value={row.username} disabled={row.skip} onChange={(e) => updateRow(row.rowNumber, { username: e.target.value.trim() })}
+                        className={`${inputClass(has('empty_username', 'invalid_username', 'duplicate_in_file', 'username_exists'))} font-mono`} />
+                    </td>
+                    <td className="px-3 py-2">
+                      <select value={row.className} disabled={row.skip} onChange={(e) => updateRow(row.rowNumber, { className: e.target.value })} className={inputClass(has('unknown_class', 'missing_class'))}>
+                        <option value="">{defaultClass ? `(${defaultClass.name})` : '-'}</option>
+                        {classes.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+                        {row.className && !classes.some(c => c.name === row.className) && (
+                          <option value={row.className}>{row.className}</option>
+                        )}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <input value={row.password} disabled={row.skip} placeholder="同账号" onChange={(e) => updateRow(row.rowNumber, { password: e.target.value })} className={`${inputClass(has('short_password'))} font-mono`} />
+                    </td>
+                    <td className="px-3 py-2 text-xs text-red-600">
+                      {rowIssues.map(i => ROSTER_ISSUE_LABELS[i]).join('、')}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <input type="checkbox" checked={row.skip} onChange={(e) => updateRow(row.rowNumber, { skip: e.target.checked })} />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+
+        <div className="mt-4 flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose}>取消</Button>
+          <Button onClick={handleImport} isLoading={importing} disabled={problemCount > 0 || activeRows.length === 0}>
+            导入 {activeRows.length} 名学生
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
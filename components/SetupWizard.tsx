@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { createInitialAdmin, login } from '../services/authService';
+import { User } from '../types';
+
+interface SetupWizardProps {
+  onSetupComplete: (user: User, previousLogin?: number) => void;
+}
+
+export const SetupWizard: React.FC<SetupWizardProps> = ({ onSetupComplete }) => {
+  const [name, setName] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPass, setConfirmPass] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !username.trim()) {
+      setError("请填写姓名和账号");
+      return;
+    }
+    if (password.length < 8) {
+      setError("管理员密码长度至少需8位");
+      return;
+    }
+    if (password !== confirmPass) {
+      setError("两次输入的密码不一致");
+      return;
+    }
+
+    setError('');
+    setLoading(true);
+    try {
+      await createInitialAdmin(name.trim(), username.trim(), password);
+      const result = await login(username.trim(), password);
+      onSetupComplete(result.user, result.previousLogin);
+    } catch (err: any) {
+      setError(err.message || '初始化失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-slate-50 p-4">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-8 border border-slate-200">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-indigo-900 rounded-xl flex items-center justify-center shadow-lg mx-auto mb-4">
+            <span className="text-white font-bold text-3xl">C</span>
+          </div>
+          <h1 className="text-2xl font-bold text-slate-900">欢迎使用 FeynmanMath</h1>
+          <p className="text-slate-500 mt-2">首次使用，请创建管理员账号。管理员可添加教练并分配班级。</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">姓名</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-4 py-3 rounded-xl bg-slate-50 border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+              placeholder="例如：竞赛主教练"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">账号</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full px-4 py-3 rounded-xl bg-slate-50 border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+              placeholder="用于登录的用户名"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">密码</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-4 py-3 rounded-xl bg-slate-50 border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+              placeholder="至少8位"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">确认密码</label>
+            <input
+              type="password"
+              value={confirmPass}
+              onChange={(e) => setConfirmPass(e.target.value)}
+              className="w-full px-4 py-3 rounded-xl bg-slate-50 border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+              required
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-600 text-sm rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <Button type="submit" className="w-full justify-center" isLoading={loading}>
+            创建管理员账号并登录
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
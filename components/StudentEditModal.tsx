@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { User } from '../types';
+import { updateUserProfile, setUsersActive, deleteUsers } from '../services/authService';
+
+interface StudentEditModalProps {
+  student: User;
+  actor: User; // The coach making the change, recorded in the audit log
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const StudentEditModal: React.FC<StudentEditModalProps> = ({ student, actor, onClose, onChanged }) => {
+  const [name, setName] = useState(student.name);
+  const [username, setUsername] = useState(student.username);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Runs an action, then refreshes the dashboard and closes the dialog
+  const run = async (action: () => Promise<unknown>) => {
+    setSaving(true);
+    setError('');
+    try {
+      await action();
+      onChanged();
+      onClose();
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "操作失败，请重试");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !username.trim()) {
+      setError("姓名和账号不能为空");
+      return;
+    }
+    run(() => updateUserProfile(student.id, { name, username }));
+  };
+
+  const handleToggleActive = () => {
+    const active = !!student.deactivatedAt;
+    if (!active && !window.confirm(`确定要停用 ${student.name} 的账号吗？\n停用后无法登录，学习数据会保留。`)) return;
+    run(() => setUsersActive([student.id], active, actor));
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`确定要永久删除 ${student.name} (${student.username}) 吗？\n账号、错题本和对话记录将被彻底删除，无法恢复。`)) return;
+    run(() => deleteUsers([student.id], actor));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl p-8 max-w-md w-full shadow-2xl">
+        <div className="flex justify-between items-start mb-6">
+          <h2 className="text-xl font-bold text-slate-900">编辑学生</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-2xl leading-none">×</button>
+        </div>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">姓名</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">账号</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            {student.isFirstLogin && (
+              <p className="text-xs text-slate-400 mt-1">该学生尚未激活，初始密码会随账号一同修改。</p>
+            )}
+          </div>
+
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+
+          <Button type="submit" isLoading={saving} className="w-full">保存</Button>
+        </form>
+
+        <div className="mt-6 pt-6 border-t border-slate-200 flex gap-3">
+          <Button variant="secondary" onClick={handleToggleActive} disabled={saving} className="flex-1">
+            {student.deactivatedAt ? '重新启用账号' : '停用账号'}
+          </Button>
+          <Button variant="secondary" onClick={handleDelete} disabled={saving} className="flex-1 text-red-600">
+            删除账号
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
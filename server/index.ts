@@ -0,0 +1,509 @@
+import express, { Request, Response, NextFunction } from 'express';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { User } from '../types';
+import { configureStorage, getStorage } from '../services/storageService';
+import {
+  initializeAdmin,
+  needsInitialSetup,
+  createInitialAdmin,
+  authenticate,
+  createSession,
+  resolveSession,
+  endSession,
+  setPassword,
+  registerBatchUsers,
+  deleteUsers,
+  getStudents,
+  getAllUsernames,
+  setUsersActive,
+  unlockUser,
+  resetUserPasswordToUsername,
+  updateUserProfile,
+  getCoaches,
+  createCoach,
+  getUserMistakes,
+  saveUserMistakes,
+  getLastSession,
+  saveLastSession
+} from '../services/authService';
+import {
+  getVisibleClasses,
+  getStudentsForUser,
+  createClass,
+  updateClass,
+  deleteClass,
+  setClassStudents,
+  moveStudentsToClass
+} from '../services/classService';
+import {
+  getManageableProblems,
+  getPublishedProblemsForStudent,
+  saveAuthoredProblem,
+  importAuthoredProblems,
+  publishAuthoredProblems,
+  unpublishAuthoredProblems,
+  deleteAuthoredProblems
+} from '../services/authoredProblemService';
+import {
+  getAssignments,
+  getAssignmentsForStudent,
+  createAssignment,
+  deleteAssignments,
+  getHomework,
+  recordHomework
+} from '../services/assignmentService';
+import { AuditAction, filterAuditLog, getAuditLog, recordAuditEvent } from '../services/auditService';
+import { BackupArchive, analyzeRestore, checkRestoreScope, exportClassBackup, parseBackupArchive, restoreBackup } from '../services/backupService';
+import { createSqliteAdapter } from './sqliteAdapter';
+
+// --- FeynmanMath classroom server ---
+// Runs the same authService logic as the browser, backed by SQLite, so a coach and
+// every student share one dataset. Point the frontend at it with
+// STORAGE_BACKEND=http and STORAGE_API_URL=http://<host>:<port>/api
+
+const PORT = Number(process.env.PORT) || 4000;
+const DB_PATH = process.env.DB_PATH || fileURLToPath(new URL('./data/feynman.db', import.meta.url));
+
+fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+const db = new Database(DB_PATH);
+db.pragma('journal_mode = WAL');
+configureStorage({ backend: 'sqlite' }, createSqliteAdapter(db));
+
+// Never send password hashes or salts to the browser
+const toPublicUser = (user: User): User => {
+  const { passwordSalt, passwordIterations, ...rest } = user;
+  return { ...rest, passwordHash: '' };
+};
+
+// --- Access control ---
+// Every route except setup and login needs the token issued at login. The logged-in
+// user is the actor for every action, so the browser never names who is acting.
+
+class ForbiddenError extends Error {
+  constructor() {
+    super("无权限执行此操作");
+  }
+}
+
+const PUBLIC_PATHS = ['/setup', '/login'];
+
+// Per-user documents the generic storage route serves, keyed `${prefix}${userId}`
+const USER_DOCUMENT_PREFIXES = ['feynman_attempts_', 'feynman_exam_'];
+
+// The only entries a browser may append, for what it does on its own: exports and
+// restoring a personal backup. Everything else is logged by the routes themselves.
+const CLIENT_AUDIT_ACTIONS: AuditAction[] = ['data_export', 'data_restore'];
+
+const sessionUser = (res: Response): User => res.locals.user;
+
+const isStaff = (user: User) => user.role === 'admin' || user.role === 'coach';
+
+const requireStaff = (user: User) => {
+  if (!isStaff(user)) throw new ForbiddenError();
+};
+
+const requireAdmin = (user: User) => {
+  if (user.role !== 'admin') throw new ForbiddenError();
+};
+
+/**
+ * Coaches may only act on students of their own classes; administrators on every student.
+ */
+const requireManagedStudents = async (actor: User, userIds: string[]) => {
+  requireStaff(actor);
+  const visible = new Set((await getStudentsForUser(actor)).map(s => s.id));
+  if (userIds.some(id => !visible.has(id))) throw new ForbiddenError();
+};
+
+/**
+ * A user's own data is theirs to read and write; their coaches may read it.
+ */
+const requireUserData = async (actor: User, userId: string, write: boolean) => {
+  if (actor.id === userId) return;
+  if (write) throw new ForbiddenError();
+  await requireManagedStudents(actor, [userId]);
+};
+
+const requireStorageKey = async (actor: User, key: string, write: boolean) => {
+  const prefix = USER_DOCUMENT_PREFIXES.find(p => key.startsWith(p));
+  // Accounts, sessions, classes, notebooks, authored problems, assignments, homework and
+  // the audit log only go through their own routes
+  if (!prefix) throw new ForbiddenError();
+  await requireUserData(actor, key.slice(prefix.length), write);
+};
+
+const bearerToken = (req: Request) => req.get('Authorization')?.match(/^Bearer (\S+)$/)?.[1];
+
+type Handler = (req: Request, res: Response) => Promise<void>;
+
+// Express 4 does not catch rejected promises, so route them to a JSON error
+const handle = (fn: Handler, errorStatus = 400) => (req: Request, res: Response, next: NextFunction) => {
+  fn(req, res).catch((err: Error) => {
+    console.error(err);
+    if (res.headersSent) return next(err);
+    res.status(err instanceof ForbiddenError ? 403 : errorStatus).json({ error: err.message });
+  });
+};
+
+const app = express();
+
+// Mistakes carry base64 attachments, so allow large bodies
+app.use(express.json({ limit: '50mb' }));
+
+app.use((req, res, next) => {
+  res.header('Access-Control-Allow-Origin', process.env.CORS_ORIGIN || '*');
+  res.header('Access-Control-Allow-Methods', 'GET, PUT, POST, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(204);
+    return;
+  }
+  next();
+});
+
+app.use('/api', (req, res, next) => {
+  if (PUBLIC_PATHS.includes(req.path)) return next();
+  const token = bearerToken(req);
+  // The browser polls GET /session for expiry; that alone must not keep an idle session alive
+  const touch = !(req.method === 'GET' && req.path === '/session');
+  (token ? resolveSession(token, touch) : Promise.resolve(null)).then(user => {
+    // Deactivated and deleted accounts lose their sessions at once (resolveSession checks both)
+    if (!user) {
+      res.status(401).json({ error: "登录已过期，请重新登录" });
+      return;
+    }
+    res.locals.user = user;
+    next();
+  }, next);
+});
+
+// --- Setup & login ---
+
+app.get('/api/setup', handle(async (_req, res) => {
+  res.json({ needed: await needsInitialSetup() });
+}));
+
+app.post('/api/setup', handle(async (req, res) => {
+  const { name, username, password } = req.body || {};
+  if (!name || !username || !password) throw new Error("请填写完整信息");
+  await createInitialAdmin(String(name), String(username), String(password));
+  res.sendStatus(204);
+}));
+
+app.post('/api/login', handle(async (req, res) => {
+  const { username, password } = req.body || {};
+  const result = await authenticate(String(username || ''), String(password || ''));
+  const token = await createSession(result.user);
+  res.json({ user: toPublicUser(result.user), token, previousLogin: result.previousLogin });
+}, 401));
+
+app.post('/api/logout', handle(async (req, res) => {
+  await endSession(bearerToken(req)!);
+  res.sendStatus(204);
+}));
+
+app.get('/api/session', handle(async (_req, res) => {
+  res.json(toPublicUser(sessionUser(res)));
+}));
+
+// Any other request counts as activity too; this one is for activity without one
+app.post('/api/session/touch', handle(async (_req, res) => {
+  res.json(toPublicUser(sessionUser(res)));
+}));
+
+app.post('/api/password', handle(async (req, res) => {
+  const password = String(req.body?.password || '');
+  if (!password) throw new Error("请填写新密码");
+  res.json(toPublicUser(await setPassword(sessionUser(res).id, password)));
+}));
+
+// --- Generic document storage (used by the browser's HTTP StorageAdapter) ---
+
+app.get('/api/storage/:key', handle(async (req, res) => {
+  await requireStorageKey(sessionUser(res), req.params.key, false);
+  const value = await getStorage().get(req.params.key);
+  if (value === null) {
+    res.status(404).json({ error: 'Not found' });
+    return;
+  }
+  res.json(value);
+}));
+
+app.put('/api/storage/:key', handle(async (req, res) => {
+  await requireStorageKey(sessionUser(res), req.params.key, true);
+  await getStorage().set(req.params.key, req.body);
+  res.sendStatus(204);
+}));
+
+app.delete('/api/storage/:key', handle(async (req, res) => {
+  await requireStorageKey(sessionUser(res), req.params.key, true);
+  await getStorage().remove(req.params.key);
+  res.sendStatus(204);
+}));
+
+// --- Roster ---
+
+app.get('/api/students', handle(async (_req, res) => {
+  requireStaff(sessionUser(res));
+  const students = await getStudents();
+  res.json(students.map(toPublicUser));
+}));
+
+app.get('/api/usernames', handle(async (_req, res) => {
+  requireStaff(sessionUser(res));
+  res.json(await getAllUsernames());
+}));
+
+app.post('/api/users/batch', handle(async (req, res) => {
+  const actor = sessionUser(res);
+  requireStaff(actor);
+  const users = Array.isArray(req.body?.users) ? req.body.users : [];
+  const classIds: string[] = Array.isArray(req.body?.classIds) ? req.body.classIds.map(String) : [];
+  const requested = [...classIds, ...users.flatMap((u: { classIds?: unknown }) => Array.isArray(u.classIds) ? u.classIds.map(String) : [])];
+  const visible = new Set((await getVisibleClasses(actor)).map(c => c.id));
+  if (requested.some(id => !visible.has(id))) throw new ForbiddenError();
+  const count = await registerBatchUsers(users, classIds, actor);
+  res.json({ count });
+}));
+
+app.post('/api/users/delete', handle(async (req, res) => {
+  const userIds: string[] = Array.isArray(req.body?.userIds) ? req.body.userIds.map(String) : [];
+  await requireManagedStudents(sessionUser(res), userIds);
+  await deleteUsers(userIds, sessionUser(res));
+  res.sendStatus(204);
+}));
+
+app.post('/api/users/active', handle(async (req, res) => {
+  const userIds: string[] = Array.isArray(req.body?.userIds) ? req.body.userIds.map(String) : [];
+  await requireManagedStudents(sessionUser(res), userIds);
+  await setUsersActive(userIds, !!req.body?.active, sessionUser(res));
+  res.sendStatus(204);
+}));
+
+app.post('/api/users/:userId/unlock', handle(async (req, res) => {
+  await requireManagedStudents(sessionUser(res), [req.params.userId]);
+  await unlockUser(req.params.userId, sessionUser(res));
+  res.sendStatus(204);
+}));
+
+app.post('/api/users/:userId/reset-password', handle(async (req, res) => {
+  await requireManagedStudents(sessionUser(res), [req.params.userId]);
+  await resetUserPasswordToUsername(req.params.userId, sessionUser(res));
+  res.sendStatus(204);
+}));
+
+app.put('/api/users/:userId/profile', handle(async (req, res) => {
+  await requireManagedStudents(sessionUser(res), [req.params.userId]);
+  const { name, username } = req.body || {};
+  const user = await updateUserProfile(req.params.userId, {
+    name: typeof name === 'string' ? name : undefined,
+    username: typeof username === 'string' ? username : undefined
+  });
+  res.json(toPublicUser(user));
+}));
+
+app.get('/api/coaches', handle(async (_req, res) => {
+  requireStaff(sessionUser(res));
+  res.json((await getCoaches()).map(toPublicUser));
+}));
+
+app.post('/api/coaches', handle(async (req, res) => {
+  const { name, username } = req.body || {};
+  if (!name || !username) throw new Error("请填写完整信息");
+  res.json(toPublicUser(await createCoach(sessionUser(res), String(name), String(username))));
+}));
+
+// --- Classes ---
+// classService checks who may change which class; these routes only add the session user
+
+app.get('/api/classes', handle(async (_req, res) => {
+  res.json(await getVisibleClasses(sessionUser(res)));
+}));
+
+app.post('/api/classes', handle(async (req, res) => {
+  const coachIds = Array.isArray(req.body?.coachIds) ? req.body.coachIds.map(String) : [];
+  res.json(await createClass(sessionUser(res), String(req.body?.name || ''), coachIds));
+}));
+
+app.put('/api/classes/:classId', handle(async (req, res) => {
+  const { name, coachIds } = req.body || {};
+  await updateClass(sessionUser(res), req.params.classId, {
+    ...(typeof name === 'string' ? { name } : {}),
+    ...(Array.isArray(coachIds) ? { coachIds: coachIds.map(String) } : {})
+  });
+  res.sendStatus(204);
+}));
+
+app.delete('/api/classes/:classId', handle(async (req, res) => {
+  await deleteClass(sessionUser(res), req.params.classId);
+  res.sendStatus(204);
+}));
+
+app.put('/api/classes/:classId/students', handle(async (req, res) => {
+  const studentIds: string[] = Array.isArray(req.body?.studentIds) ? req.body.studentIds.map(String) : [];
+  await requireManagedStudents(sessionUser(res), studentIds);
+  await setClassStudents(sessionUser(res), req.params.classId, studentIds);
+  res.sendStatus(204);
+}));
+
+app.post('/api/classes/:classId/transfer', handle(async (req, res) => {
+  const studentIds: string[] = Array.isArray(req.body?.studentIds) ? req.body.studentIds.map(String) : [];
+  await requireManagedStudents(sessionUser(res), studentIds);
+  await moveStudentsToClass(sessionUser(res), studentIds, req.params.classId);
+  res.sendStatus(204);
+}));
+
+// --- Authored problems & assignments ---
+// The services check who may change which problem or assignment; these routes add the session user
+
+app.get('/api/authored-problems', handle(async (_req, res) => {
+  const actor = sessionUser(res);
+  res.json(isStaff(actor) ? await getManageableProblems(actor) : await getPublishedProblemsForStudent(actor));
+}));
+
+app.post('/api/authored-problems', handle(async (req, res) => {
+  res.json(await saveAuthoredProblem(sessionUser(res), req.body || {}));
+}));
+
+app.put('/api/authored-problems/:problemId', handle(async (req, res) => {
+  res.json(await saveAuthoredProblem(sessionUser(res), req.body || {}, req.params.problemId));
+}));
+
+app.post('/api/authored-problems/import', handle(async (req, res) => {
+  const problems = Array.isArray(req.body?.problems) ? req.body.problems : [];
+  res.json(await importAuthoredProblems(sessionUser(res), problems, req.body?.defaults || {}));
+}));
+
+app.post('/api/authored-problems/publish', handle(async (req, res) => {
+  const ids: string[] = Array.isArray(req.body?.ids) ? req.body.ids.map(String) : [];
+  const classIds: string[] = Array.isArray(req.body?.classIds) ? req.body.classIds.map(String) : [];
+  await publishAuthoredProblems(sessionUser(res), ids, classIds);
+  res.sendStatus(204);
+}));
+
+app.post('/api/authored-problems/unpublish', handle(async (req, res) => {
+  const ids: string[] = Array.isArray(req.body?.ids) ? req.body.ids.map(String) : [];
+  await unpublishAuthoredProblems(sessionUser(res), ids);
+  res.sendStatus(204);
+}));
+
+app.post('/api/authored-problems/delete', handle(async (req, res) => {
+  const ids: string[] = Array.isArray(req.body?.ids) ? req.body.ids.map(String) : [];
+  await deleteAuthoredProblems(sessionUser(res), ids);
+  res.sendStatus(204);
+}));
+
+app.get('/api/assignments', handle(async (_req, res) => {
+  const actor = sessionUser(res);
+  // Students may have homework from several coaches, so coaches see every assignment
+  res.json(isStaff(actor) ? await getAssignments() : await getAssignmentsForStudent(actor));
+}));
+
+app.post('/api/assignments', handle(async (req, res) => {
+  res.json(await createAssignment(sessionUser(res), req.body || {}));
+}));
+
+app.post('/api/assignments/delete', handle(async (req, res) => {
+  const ids: string[] = Array.isArray(req.body?.ids) ? req.body.ids.map(String) : [];
+  await deleteAssignments(sessionUser(res), ids);
+  res.sendStatus(204);
+}));
+
+// --- Audit log & backup ---
+
+app.get('/api/audit', handle(async (_req, res) => {
+  const actor = sessionUser(res);
+  requireStaff(actor);
+  const visibleUserIds = actor.role === 'admin'
+    ? undefined
+    : new Set([actor.id, ...(await getStudentsForUser(actor)).map(s => s.id)]);
+  res.json(filterAuditLog(await getAuditLog(), {}, visibleUserIds));
+}));
+
+app.post('/api/audit', handle(async (req, res) => {
+  const actor = sessionUser(res);
+  const { action, targetId, details } = req.body || {};
+  if (!CLIENT_AUDIT_ACTIONS.includes(action)) throw new ForbiddenError();
+  if (targetId !== undefined && targetId !== actor.id) throw new ForbiddenError();
+  await recordAuditEvent(action, { actor, target: targetId ? actor : undefined }, typeof details === 'string' ? details : undefined);
+  res.sendStatus(204);
+}));
+
+// Class archives contain every account with its password hash, so they are administrator-only
+app.get('/api/backup', handle(async (_req, res) => {
+  requireAdmin(sessionUser(res));
+  res.json(await exportClassBackup(sessionUser(res)));
+}));
+
+// Only class archives restore here; personal ones go through the student's own storage routes
+const parseClassArchive = (req: Request, res: Response): BackupArchive => {
+  const archive = parseBackupArchive(JSON.stringify(req.body?.archive));
+  checkRestoreScope(archive, { scope: 'class', currentUser: sessionUser(res) });
+  return archive;
+};
+
+app.post('/api/backup/analyze', handle(async (req, res) => {
+  requireAdmin(sessionUser(res));
+  const archive = parseClassArchive(req, res);
+  res.json(await analyzeRestore(archive, { scope: 'class', currentUser: sessionUser(res) }));
+}));
+
+app.post('/api/backup/restore', handle(async (req, res) => {
+  requireAdmin(sessionUser(res));
+  const archive = parseClassArchive(req, res);
+  const mode = req.body?.mode === 'replace' ? 'replace' : 'merge';
+  res.json(await restoreBackup(archive, mode, { scope: 'class', currentUser: sessionUser(res) }));
+}));
+
+// --- Mistakes & last session ---
+
+app.get('/api/users/:userId/mistakes', handle(async (req, res) => {
+  await requireUserData(sessionUser(res), req.params.userId, false);
+  res.json(await getUserMistakes(req.params.userId));
+}));
+
+app.put('/api/users/:userId/mistakes', handle(async (req, res) => {
+  await requireUserData(sessionUser(res), req.params.userId, true);
+  await saveUserMistakes(req.params.userId, Array.isArray(req.body) ? req.body : []);
+  res.sendStatus(204);
+}));
+
+// Homework outcomes and times are derived here from the chat, never taken from the browser
+app.get('/api/users/:userId/homework', handle(async (req, res) => {
+  await requireUserData(sessionUser(res), req.params.userId, false);
+  res.json(await getHomework(req.params.userId));
+}));
+
+app.post('/api/users/:userId/homework', handle(async (req, res) => {
+  if (sessionUser(res).id !== req.params.userId) throw new ForbiddenError();
+  const problem = req.body?.problem;
+  if (typeof problem !== 'object' || problem === null) throw new Error("作业数据无效");
+  await recordHomework(sessionUser(res), problem);
+  res.sendStatus(204);
+}));
+
+app.get('/api/users/:userId/session', handle(async (req, res) => {
+  if (sessionUser(res).id !== req.params.userId) throw new ForbiddenError();
+  res.json(await getLastSession(req.params.userId));
+}));
+
+app.put('/api/users/:userId/session', handle(async (req, res) => {
+  if (sessionUser(res).id !== req.params.userId) throw new ForbiddenError();
+  await saveLastSession(req.params.userId, req.body);
+  res.sendStatus(204);
+}));
+
+app.delete('/api/users/:userId/session', handle(async (req, res) => {
+  if (sessionUser(res).id !== req.params.userId) throw new ForbiddenError();
+  await saveLastSession(req.params.userId, null);
+  res.sendStatus(204);
+}));
+
+initializeAdmin().then(() => {
+  app.listen(PORT, () => {
+    console.log(`FeynmanMath server listening on http://0.0.0.0:${PORT} (database: ${DB_PATH})`);
+  });
+});
@@ -0,0 +1,36 @@
+import Database from 'better-sqlite3';
+import { StorageAdapter } from '../services/storageService';
+
+/**
+ * StorageAdapter over a single SQLite table of JSON documents.
+ * Uses the same keys as the browser backends, so the shared services run unchanged.
+ */
+export const createSqliteAdapter = (db: Database.Database): StorageAdapter => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS documents (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  const selectStmt = db.prepare('SELECT value FROM documents WHERE key = ?');
+  const upsertStmt = db.prepare(`
+    INSERT INTO documents (key, value, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `);
+  const deleteStmt = db.prepare('DELETE FROM documents WHERE key = ?');
+
+  return {
+    async get<T>(key: string): Promise<T | null> {
+      const row = selectStmt.get(key) as { value: string } | undefined;
+      return row ? JSON.parse(row.value) : null;
+    },
+    async set<T>(key: string, value: T): Promise<void> {
+      upsertStmt.run(key, JSON.stringify(value), Date.now());
+    },
+    async remove(key: string): Promise<void> {
+      deleteStmt.run(key);
+    }
+  };
+};
@@ -0,0 +1,120 @@
+// --- AI Error Handling ---
+// Every failed model call surfaces as an AIError with a kind the UI can explain,
+// instead of placeholder content that looks like a real problem or tutor reply.
+
+export type AIErrorKind =
+  | 'auth'       // Missing or invalid API key
+  | 'quota'      // Rate limit or exhausted quota
+  | 'network'    // Offline, DNS, CORS, server unreachable or 5xx
+  | 'timeout'
+  | 'safety'     // Blocked by the provider's safety filters
+  | 'malformed'  // Reply could not be parsed (e.g. broken JSON)
+  | 'unknown';
+
+export const AI_ERROR_MESSAGES: Record<AIErrorKind, string> = {
+  auth: 'AI 服务认证失败，请检查 API Key 配置。',
+  quota: 'AI 服务调用次数已达上限，请稍后再试。',
+  network: '无法连接 AI 服务，请检查网络连接。',
+  timeout: 'AI 服务响应超时，请稍后重试。',
+  safety: '内容被 AI 安全策略拦截，请换一种表述或换一道题。',
+  malformed: 'AI 返回的内容格式有误，请重试。',
+  unknown: 'AI 服务出现未知错误，请稍后重试。'
+};
+
+// Transient failures worth retrying automatically
+const RETRYABLE: AIErrorKind[] = ['quota', 'network', 'timeout', 'malformed'];
+
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+
+  constructor(kind: AIErrorKind, message = AI_ERROR_MESSAGES[kind], cause?: unknown) {
+    super(message, { cause });
+    this.name = 'AIError';
+    this.kind = kind;
+  }
+
+  get retryable() {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+/**
+ * Maps an HTTP status code from any provider to an error kind.
+ */
+export const kindFromStatus = (status: number): AIErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'network';
+  return 'unknown';
+};
+
+/**
+ * Turns whatever a provider threw into an AIError.
+ */
+export const classifyAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+
+  const err = error as { name?: string, status?: number, message?: string };
+  const message = err?.message || String(error);
+  let kind: AIErrorKind = 'unknown';
+
+  if (err?.name === 'TimeoutError') kind = 'timeout';
+  else if (error instanceof SyntaxError) kind = 'malformed';
+  else if (typeof err?.status === 'number') kind = kindFromStatus(err.status);
+  else if (/api key|api_key|permission|unauthenticated/i.test(message)) kind = 'auth';
+  else if (/quota|rate limit|resource_exhausted/i.test(message)) kind = 'quota';
+  else if (/safety|blocked|prohibited/i.test(message)) kind = 'safety';
+  else if (err?.name === 'TypeError' || /failed to fetch|network|fetch failed/i.test(message)) kind = 'network';
+
+  return new AIError(kind, AI_ERROR_MESSAGES[kind], error);
+};
+
+export const isAbortError = (error: unknown) => (error as { name?: string })?.name === 'AbortError';
+
+// --- Retry & Timeout ---
+
+export interface RetryOptions {
+  retries?: number;     // Extra attempts after the first one
+  baseDelayMs?: number; // Backoff doubles from here: 1s, 2s, 4s...
+  timeoutMs?: number;   // Per attempt
+  signal?: AbortSignal; // Caller cancellation; never retried
+}
+
+const DEFAULT_RETRY: Required<Omit<RetryOptions, 'signal'>> = {
+  retries: 2,
+  baseDelayMs: 1000,
+  timeoutMs: 60000
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a model call with a per-attempt timeout and exponential backoff on transient
+ * errors. The callback receives a signal that fires on timeout or caller cancellation.
+ * Rejects with an AIError, or rethrows the AbortError when the caller cancelled.
+ */
+export const withRetry = async <T>(fn: (signal: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries, baseDelayMs, timeoutMs } = { ...DEFAULT_RETRY, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new DOMException('Timed out', 'TimeoutError')), timeoutMs);
+    const onCancel = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', onCancel);
+
+    try {
+      return await fn(controller.signal);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      const aiError = classifyAIError(controller.signal.aborted ? controller.signal.reason : error);
+      if (!aiError.retryable || attempt >= retries) throw aiError;
+      console.warn(`AI call failed (${aiError.kind}), retrying...`, aiError.cause);
+      // Jitter keeps a class of students from retrying in lockstep
+      await sleep(baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5));
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onCancel);
+    }
+  }
+};
@@ -0,0 +1,178 @@
+import { User, Problem, Class, AuthoredProblem, Assignment, Difficulty, HomeworkRecord } from '../types';
+import { getApiAuthHeaders, getStorageConfig } from './storageService';
+import { AuditAction, AuditEntry } from './auditService';
+import { NewStudentInput } from './authService';
+import { BackupArchive, RestoreMode, RestoreReport } from './backupService';
+import { AuthoredProblemFields, ImportedProblem } from './authoredProblemService';
+import { AssignmentFields } from './assignmentService';
+
+// --- REST Client for the self-hosted server (server/) ---
+// Used by the services when STORAGE_BACKEND=http, so login, roster, class, authored problem,
+// homework and audit operations run on the shared server instead of in each browser. The server acts as
+// the user the session token belongs to, so no call names the acting user.
+
+export class ApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const { apiUrl } = getStorageConfig();
+  if (!apiUrl) throw new Error("STORAGE_API_URL is not configured");
+
+  const response = await fetch(`${apiUrl.replace(/\/+$/, '')}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...getApiAuthHeaders(), ...init?.headers }
+  });
+
+  if (!response.ok) {
+    // The server reports errors as { error: string } with the same messages as authService
+    const body = await response.json().catch(() => null);
+    throw new ApiError(body?.error || `服务器错误 (${response.status})`, response.status);
+  }
+  if (response.status === 204) return undefined as T;
+  return response.json();
+};
+
+const post = (body: unknown): RequestInit => ({ method: 'POST', body: JSON.stringify(body) });
+
+const put = (body: unknown): RequestInit => ({ method: 'PUT', body: JSON.stringify(body) });
+
+const userPath = (userId: string) => `/users/${encodeURIComponent(userId)}`;
+
+// --- Login ---
+
+export const apiLogin = (username: string, password: string) =>
+  request<{ user: User, token: string, previousLogin?: number }>('/login', post({ username, password }));
+
+export const apiLogout = () => request<void>('/logout', { method: 'POST' });
+
+// Resolves to null once the server no longer accepts the token
+const orSignedOut = async <T>(call: Promise<T>): Promise<T | null> => {
+  try {
+    return await call;
+  } catch (e) {
+    if (e instanceof ApiError && e.status === 401) return null;
+    throw e;
+  }
+};
+
+export const apiGetSessionUser = () => orSignedOut(request<User>('/session'));
+
+export const apiTouchSession = () => orSignedOut(request<User>('/session/touch', { method: 'POST' }));
+
+export const apiNeedsInitialSetup = async () => {
+  const result = await request<{ needed: boolean }>('/setup');
+  return result.needed;
+};
+
+export const apiCreateInitialAdmin = (name: string, username: string, password: string) =>
+  request<void>('/setup', post({ name, username, password }));
+
+export const apiChangePassword = (password: string) => request<User>('/password', post({ password }));
+
+// --- Roster ---
+
+export const apiRegisterBatchUsers = async (users: NewStudentInput[], classIds: string[]) => {
+  const result = await request<{ count: number }>('/users/batch', post({ users, classIds }));
+  return result.count;
+};
+
+export const apiGetStudents = () => request<User[]>('/students');
+
+export const apiGetAllUsernames = () => request<string[]>('/usernames');
+
+export const apiDeleteUsers = (userIds: string[]) => request<void>('/users/delete', post({ userIds }));
+
+export const apiSetUsersActive = (userIds: string[], active: boolean) =>
+  request<void>('/users/active', post({ userIds, active }));
+
+export const apiResetPassword = (userId: string) => request<void>(`${userPath(userId)}/reset-password`, { method: 'POST' });
+
+export const apiUnlockUser = (userId: string) => request<void>(`${userPath(userId)}/unlock`, { method: 'POST' });
+
+export const apiUpdateUserProfile = (userId: string, changes: { name?: string, username?: string }) =>
+  request<User>(`${userPath(userId)}/profile`, put(changes));
+
+export const apiGetCoaches = () => request<User[]>('/coaches');
+
+export const apiCreateCoach = (name: string, username: string) => request<User>('/coaches', post({ name, username }));
+
+// --- Classes ---
+
+export const apiGetClasses = () => request<Class[]>('/classes');
+
+export const apiCreateClass = (name: string, coachIds: string[]) => request<Class>('/classes', post({ name, coachIds }));
+
+export const apiUpdateClass = (classId: string, changes: Partial<Pick<Class, 'name' | 'coachIds'>>) =>
+  request<void>(`/classes/${encodeURIComponent(classId)}`, put(changes));
+
+export const apiDeleteClass = (classId: string) =>
+  request<void>(`/classes/${encodeURIComponent(classId)}`, { method: 'DELETE' });
+
+export const apiSetClassStudents = (classId: string, studentIds: string[]) =>
+  request<void>(`/classes/${encodeURIComponent(classId)}/students`, put({ studentIds }));
+
+export const apiMoveStudentsToClass = (studentIds: string[], classId: string) =>
+  request<void>(`/classes/${encodeURIComponent(classId)}/transfer`, post({ studentIds }));
+
+// --- Authored Problems & Homework ---
+
+export const apiGetAuthoredProblems = () => request<AuthoredProblem[]>('/authored-problems');
+
+export const apiSaveAuthoredProblem = (fields: AuthoredProblemFields, id?: string) =>
+  id
+    ? request<AuthoredProblem>(`/authored-problems/${encodeURIComponent(id)}`, put(fields))
+    : request<AuthoredProblem>('/authored-problems', post(fields));
+
+export const apiImportAuthoredProblems = (problems: ImportedProblem[], defaults: { topic: string, difficulty: Difficulty }) =>
+  request<AuthoredProblem[]>('/authored-problems/import', post({ problems, defaults }));
+
+export const apiPublishAuthoredProblems = (ids: string[], classIds: string[]) =>
+  request<void>('/authored-problems/publish', post({ ids, classIds }));
+
+export const apiUnpublishAuthoredProblems = (ids: string[]) =>
+  request<void>('/authored-problems/unpublish', post({ ids }));
+
+export const apiDeleteAuthoredProblems = (ids: string[]) =>
+  request<void>('/authored-problems/delete', post({ ids }));
+
+export const apiGetAssignments = () => request<Assignment[]>('/assignments');
+
+export const apiCreateAssignment = (fields: AssignmentFields) => request<Assignment>('/assignments', post(fields));
+
+export const apiDeleteAssignments = (ids: string[]) => request<void>('/assignments/delete', post({ ids }));
+
+export const apiGetHomework = (userId: string) => request<HomeworkRecord[]>(`${userPath(userId)}/homework`);
+
+export const apiRecordHomework = (userId: string, problem: Problem) =>
+  request<void>(`${userPath(userId)}/homework`, post({ problem }));
+
+// --- Audit Log & Backup ---
+
+export const apiGetAuditLog = () => request<AuditEntry[]>('/audit');
+
+export const apiRecordAuditEvent = (action: AuditAction, targetId?: string, details?: string) =>
+  request<void>('/audit', post({ action, targetId, details }));
+
+export const apiExportClassBackup = () => request<BackupArchive>('/backup');
+
+export const apiAnalyzeRestore = (archive: BackupArchive) =>
+  request<RestoreReport>('/backup/analyze', post({ archive }));
+
+export const apiRestoreBackup = (archive: BackupArchive, mode: RestoreMode) =>
+  request<RestoreReport>('/backup/restore', post({ archive, mode }));
+
+// --- Mistakes & Last Session ---
+
+export const apiGetUserMistakes = (userId: string) => request<Problem[]>(`${userPath(userId)}/mistakes`);
+
+export const apiSaveUserMistakes = (userId: string, mistakes: Problem[]) =>
+  request<void>(`${userPath(userId)}/mistakes`, put(mistakes));
+
+export const apiGetLastSession = (userId: string) => request<Problem | null>(`${userPath(userId)}/session`);
+
+export const apiSaveLastSession = (userId: string, problem: Problem | null) =>
+  request<void>(`${userPath(userId)}/session`, problem ? put(problem) : { method: 'DELETE' });
@@ -0,0 +1,238 @@
+import { Assignment, AssignmentItem, AttemptOutcome, HomeworkRecord, Problem, User } from '../types';
+import { getStorage, useRemoteApi } from './storageService';
+import { withCrossTabLock } from './syncService';
+import { getStudentsForUser, getVisibleClasses } from './classService';
+import { drawProblem } from './problemBank';
+import { getPublishedProblemsForStudent } from './authoredProblemService';
+import { deriveOutcome } from './attemptService';
+import { apiCreateAssignment, apiDeleteAssignments, apiGetAssignments, apiGetHomework, apiRecordHomework } from './apiClient';
+
+// --- Homework Sets ---
+// Coaches assign sets of problems with a due date to students or whole classes. A
+// student works on each problem with the tutor as usual; the chat is kept in a homework
+// record per item, from which completion, score and lateness are derived.
+// With the 'http' backend the server runs these checks and derives every outcome itself.
+
+const ASSIGNMENTS_KEY = 'feynman_assignments';
+const HOMEWORK_PREFIX = 'feynman_homework_';
+
+export type HomeworkStatus = 'not_started' | 'in_progress' | 'completed';
+
+export const HOMEWORK_STATUS_LABELS: Record<HomeworkStatus, string> = {
+  not_started: '未开始',
+  in_progress: '进行中',
+  completed: '已完成'
+};
+
+// Share of an item's score each outcome earns
+const OUTCOME_SCORE: Record<AttemptOutcome, number> = {
+  solved: 1,
+  partial: 0.5,
+  incorrect: 0,
+  gave_up: 0,
+  no_attempt: 0
+};
+
+// Fields the coach fills in; the id and author are owned by this module
+export type AssignmentFields = Pick<Assignment, 'title' | 'items' | 'studentIds' | 'classIds' | 'dueAt'>;
+
+export const getAssignments = async (): Promise<Assignment[]> => {
+  // The server sends coaches every assignment and a student only their own
+  if (useRemoteApi()) return apiGetAssignments();
+  return (await getStorage().get<Assignment[]>(ASSIGNMENTS_KEY)) || [];
+};
+
+const updateAssignments = async (update: (assignments: Assignment[]) => Assignment[]) => {
+  await withCrossTabLock(ASSIGNMENTS_KEY, async () => {
+    await getStorage().set(ASSIGNMENTS_KEY, update(await getAssignments()));
+  });
+};
+
+// Used by backup restore
+export const replaceAllAssignments = async (assignments: Assignment[]) => {
+  await updateAssignments(() => assignments);
+};
+
+const canEdit = (actor: User, assignment: Assignment) =>
+  actor.role === 'admin' || assignment.coachId === actor.id;
+
+/**
+ * Assignments the user may manage: all of them for an administrator, otherwise the coach's own.
+ */
+export const getManageableAssignments = async (user: User): Promise<Assignment[]> => {
+  const assignments = await getAssignments();
+  if (user.role === 'admin') return assignments;
+  if (user.role === 'coach') return assignments.filter(a => a.coachId === user.id);
+  return [];
+};
+
+export const isAssignedTo = (assignment: Assignment, student: User): boolean =>
+  assignment.studentIds.includes(student.id) || assignment.classIds.some(id => (student.classIds || []).includes(id));
+
+/**
+ * The student's assignments, earliest due first.
+ */
+export const getAssignmentsForStudent = async (student: User): Promise<Assignment[]> =>
+  (await getAssignments()).filter(a => isAssignedTo(a, student)).sort((a, b) => a.dueAt - b.dueAt);
+
+export const createItemId = () => `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Creates an assignment. Coaches may only assign to their own classes and students.
+ */
+export const createAssignment = async (actor: User, fields: AssignmentFields): Promise<Assignment> => {
+  if (actor.role !== 'admin' && actor.role !== 'coach') throw new Error("无权限执行此操作");
+  if (!fields.title.trim()) throw new Error("请填写作业标题");
+  if (fields.items.length === 0) throw new Error("请至少添加一道题目");
+  if (fields.studentIds.length === 0 && fields.classIds.length === 0) throw new Error("请选择布置给哪些班级或学生");
+  if (!Number.isFinite(fields.dueAt) || fields.dueAt <= Date.now()) throw new Error("截止时间必须晚于现在");
+  if (useRemoteApi()) return apiCreateAssignment(fields);
+
+  const visibleClasses = new Set((await getVisibleClasses(actor)).map(c => c.id));
+  const visibleStudents = new Set((await getStudentsForUser(actor)).map(s => s.id));
+  if (fields.classIds.some(id => !visibleClasses.has(id)) || fields.studentIds.some(id => !visibleStudents.has(id))) {
+    throw new Error("无权限执行此操作");
+  }
+
+  const assignment: Assignment = {
+    ...fields,
+    title: fields.title.trim(),
+    id: `assignment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    coachId: actor.id,
+    coachName: actor.name,
+    createdAt: Date.now()
+  };
+  await updateAssignments(assignments => [...assignments, assignment]);
+  return assignment;
+};
+
+/**
+ * Deletes assignments. Students' homework records stay, like their attempt log.
+ */
+export const deleteAssignments = async (actor: User, ids: string[]) => {
+  if (useRemoteApi()) return apiDeleteAssignments(ids);
+
+  await updateAssignments(assignments => {
+    if (assignments.some(a => ids.includes(a.id) && !canEdit(actor, a))) throw new Error("无权限执行此操作");
+    return assignments.filter(a => !ids.includes(a.id));
+  });
+};
+
+// --- Student Work ---
+
+const homeworkKey = (userId: string) => `${HOMEWORK_PREFIX}${userId}`;
+
+export const getHomework = async (userId: string): Promise<HomeworkRecord[]> => {
+  if (useRemoteApi()) return apiGetHomework(userId);
+  return (await getStorage().get<HomeworkRecord[]>(homeworkKey(userId))) || [];
+};
+
+// Local and server-side only: with the 'http' backend homework is only written by recordHomework
+export const replaceHomework = async (userId: string, records: HomeworkRecord[]) => {
+  if (records.length === 0) {
+    await getStorage().remove(homeworkKey(userId));
+  } else {
+    await getStorage().set(homeworkKey(userId), records);
+  }
+};
+
+/**
+ * The problem a student works on for an item: the saved one with its chat, the coach's
+ * problem, or for topic items a newly drawn one (saved once the student opens it).
+ */
+export const openAssignmentItem = async (
+  student: User,
+  assignment: Assignment,
+  item: AssignmentItem,
+  records: HomeworkRecord[]
+): Promise<Problem> => {
+  const saved = records.find(r => r.assignmentId === assignment.id && r.itemId === item.id);
+  if (saved) return saved.problem;
+
+  const problem = item.problem || await drawProblem(
+    item.topic,
+    { difficulty: item.difficulty },
+    item.sourceMode || 'mix',
+    undefined,
+    await getPublishedProblemsForStudent(student)
+  );
+  // One problem per student and item, whatever id the source gave it
+  return { ...problem, id: `${assignment.id}_${item.id}`, assignmentId: assignment.id, assignmentItemId: item.id };
+};
+
+/**
+ * Saves the homework problem on screen with its chat. The item is completed the first
+ * time an answer is graded or the student gives up; the outcome keeps following the chat.
+ * Outcome and times are always worked out here (on the server for 'http'), never sent in.
+ */
+export const recordHomework = async (student: User, problem: Problem) => {
+  const { assignmentId, assignmentItemId } = problem;
+  if (!assignmentId || !assignmentItemId) return;
+  if (useRemoteApi()) return apiRecordHomework(student.id, problem);
+
+  const assignment = (await getAssignments()).find(a => a.id === assignmentId);
+  if (!assignment || !isAssignedTo(assignment, student) || !assignment.items.some(i => i.id === assignmentItemId)) {
+    throw new Error("该作业不存在或未布置给你");
+  }
+  const now = Date.now();
+  const outcome = deriveOutcome(problem.chatHistory || []);
+  const userId = student.id;
+
+  await withCrossTabLock(homeworkKey(userId), async () => {
+    const records = await getHomework(userId);
+    const existing = records.find(r => r.assignmentId === assignmentId && r.itemId === assignmentItemId);
+    const record: HomeworkRecord = {
+      assignmentId,
+      itemId: assignmentItemId,
+      problem,
+      startedAt: existing?.startedAt || now,
+      updatedAt: now,
+      outcome,
+      completedAt: existing?.completedAt || (outcome !== 'no_attempt' ? now : undefined)
+    };
+    await replaceHomework(userId, existing ? records.map(r => r === existing ? record : r) : [...records, record]);
+  });
+};
+
+// --- Progress ---
+
+export interface HomeworkSummary {
+  status: HomeworkStatus;
+  completed: number;           // Items completed
+  total: number;
+  score: number | null;        // 0-100 over all items, null until something is completed
+  completedAt?: number;        // When the last item was completed
+  late: boolean;               // Completed after the due date, or still open past it
+}
+
+export const summarizeHomework = (assignment: Assignment, records: HomeworkRecord[], now = Date.now()): HomeworkSummary => {
+  const own = assignment.items
+    .map(item => records.find(r => r.assignmentId === assignment.id && r.itemId === item.id))
+    .filter((r): r is HomeworkRecord => !!r);
+  const done = own.filter(r => r.completedAt);
+  const total = assignment.items.length;
+  const completedAt = done.length === total && total > 0 ? Math.max(...done.map(r => r.completedAt!)) : undefined;
+
+  return {
+    status: completedAt ? 'completed' : own.length > 0 ? 'in_progress' : 'not_started',
+    completed: done.length,
+    total,
+    score: done.length > 0 ? Math.round(done.reduce((sum, r) => sum + OUTCOME_SCORE[r.outcome], 0) / total * 100) : null,
+    completedAt,
+    late: completedAt ? completedAt > assignment.dueAt : now > assignment.dueAt
+  };
+};
+
+/**
+ * A student's standing over all their assignments, for the coach dashboard and its export.
+ */
+export const summarizeStudentHomework = (student: User, assignments: Assignment[], records: HomeworkRecord[], now = Date.now()) => {
+  const summaries = assignments.filter(a => isAssignedTo(a, student)).map(a => summarizeHomework(a, records, now));
+  const scored = summaries.filter(s => s.score !== null);
+  return {
+    assigned: summaries.length,
+    completed: summaries.filter(s => s.status === 'completed').length,
+    late: summaries.filter(s => s.late).length,
+    averageScore: scored.length > 0 ? Math.round(scored.reduce((sum, s) => sum + s.score!, 0) / scored.length) : null
+  };
+};
@@ -0,0 +1,45 @@
+import { Attachment } from '../types';
+
+// --- Answer Uploads ---
+// Students hand in answers as photos, PDFs, Word documents or LaTeX sources.
+
+export const ANSWER_FILE_ACCEPT = 'image/*,.pdf,.doc,.docx,.tex';
+
+/**
+ * Reads an uploaded answer file. LaTeX is kept as raw text, everything else as a data URL.
+ */
+export const readAttachmentFile = (file: File): Promise<Attachment> => new Promise((resolve, reject) => {
+  const isTex = file.name.endsWith('.tex');
+  const reader = new FileReader();
+
+  reader.onloadend = () => {
+    if (reader.error) {
+      reject(reader.error);
+      return;
+    }
+    let mimeType = file.type;
+    let type: 'image' | 'file' = 'file';
+
+    if (file.type.startsWith('image/')) {
+      type = 'image';
+    } else if (isTex) {
+      mimeType = 'text/x-tex';
+    } else if (file.name.endsWith('.docx')) {
+      mimeType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    }
+
+    resolve({
+      type,
+      mimeType,
+      data: reader.result as string,
+      name: file.name,
+      isText: isTex
+    });
+  };
+
+  if (isTex) {
+    reader.readAsText(file);
+  } else {
+    reader.readAsDataURL(file);
+  }
+});
@@ -0,0 +1,173 @@
+import { Attempt, AttemptOutcome, Message, Problem, Sender } from '../types';
+import { getStorage } from './storageService';
+import { withCrossTabLock } from './syncService';
+import { OPTION_MENU_MARKER, getGradings, isConfident } from './gradingService';
+
+// --- Practice Attempt Log ---
+// Every problem a student opens becomes an Attempt that follows the chat while the
+// problem is on screen and ends when the student leaves it. Unlike the notebook the
+// log is never edited by the student; analytics, achievements and exports read it.
+
+const ATTEMPTS_PREFIX = 'feynman_attempts_';
+
+export const ATTEMPT_OUTCOME_LABELS: Record<AttemptOutcome, string> = {
+  solved: '做对',
+  partial: '部分正确',
+  incorrect: '做错',
+  gave_up: '放弃',
+  no_attempt: '未作答'
+};
+
+const attemptsKey = (userId: string) => `${ATTEMPTS_PREFIX}${userId}`;
+
+export const getAttempts = async (userId: string): Promise<Attempt[]> => {
+  return (await getStorage().get<Attempt[]>(attemptsKey(userId))) || [];
+};
+
+export const replaceAttempts = async (userId: string, attempts: Attempt[]) => {
+  if (attempts.length === 0) {
+    await getStorage().remove(attemptsKey(userId));
+  } else {
+    await getStorage().set(attemptsKey(userId), attempts);
+  }
+};
+
+const updateAttempts = async (userId: string, update: (attempts: Attempt[]) => Attempt[]) => {
+  await withCrossTabLock(attemptsKey(userId), async () => {
+    await replaceAttempts(userId, update(await getAttempts(userId)));
+  });
+};
+
+// --- Deriving progress from the chat ---
+
+/**
+ * Tutor replies to the student before the first confidently correct verdict, i.e. the
+ * guidance the student needed. The welcome message is not a reply.
+ */
+export const countHints = (chat: Message[]): number => {
+  let hints = 0;
+  for (let i = 1; i < chat.length; i++) {
+    const message = chat[i];
+    if (message.sender !== Sender.AI || chat[i - 1].sender !== Sender.User) continue;
+    if (isConfident(message.grading) && message.grading.verdict === 'correct') break;
+    hints++;
+  }
+  return hints;
+};
+
+export const deriveOutcome = (chat: Message[]): AttemptOutcome => {
+  const confident = getGradings(chat).filter(isConfident);
+  if (confident.some(g => g.verdict === 'correct')) return 'solved';
+  if (chat.some(m => m.sender === Sender.AI && m.text.includes(OPTION_MENU_MARKER))) return 'gave_up';
+  const graded = confident.filter(g => g.verdict === 'partial' || g.verdict === 'incorrect');
+  return graded.length > 0 ? graded[graded.length - 1].verdict as AttemptOutcome : 'no_attempt';
+};
+
+// Photos and PDFs are already kept in the notebook for missed problems; the log stays small
+const withoutAttachmentData = (chat: Message[]): Message[] =>
+  chat.map(m => m.attachment ? { ...m, attachment: { ...m.attachment, data: '' } } : m);
+
+const snapshot = (problem: Problem): Attempt['problem'] => {
+  const { chatHistory, ...rest } = problem;
+  return rest;
+};
+
+// --- Recording ---
+
+/**
+ * Records the current state of the problem on screen: updates its open attempt, or
+ * starts one. An open attempt of another problem was left without ending (closed tab,
+ * logout) and is ended at its last activity.
+ */
+export const recordAttempt = async (userId: string, problem: Problem) => {
+  const now = Date.now();
+  const chat = problem.chatHistory || [];
+
+  await updateAttempts(userId, attempts => {
+    const open = attempts.find(a => !a.endedAt && a.problem.id === problem.id);
+    const fields = {
+      problem: snapshot(problem),
+      updatedAt: now,
+      hintsUsed: countHints(chat),
+      outcome: deriveOutcome(chat),
+      chat: withoutAttachmentData(chat)
+    };
+
+    const closed = attempts.map(a => !a.endedAt && a.problem.id !== problem.id ? { ...a, endedAt: a.updatedAt } : a);
+    if (open) return closed.map(a => a.id === open.id ? { ...a, ...fields } : a);
+
+    return [...closed, {
+      id: `attempt_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      startedAt: now,
+      ...fields
+    }];
+  });
+};
+
+/**
+ * Ends the open attempt on the problem, if any, when the student leaves it.
+ */
+export const endAttempt = async (userId: string, problemId: string) => {
+  const now = Date.now();
+  await updateAttempts(userId, attempts =>
+    attempts.map(a => !a.endedAt && a.problem.id === problemId ? { ...a, endedAt: now } : a));
+};
+
+/**
+ * Logs attempts made outside the tutor chat, such as mock exam questions, as finished.
+ * No tutor was there to give hints.
+ */
+export const logFinishedAttempts = async (userId: string, entries: { problem: Problem, startedAt: number, endedAt: number }[]) => {
+  if (entries.length === 0) return;
+  await updateAttempts(userId, attempts => [...attempts, ...entries.map(({ problem, startedAt, endedAt }, i): Attempt => {
+    const chat = problem.chatHistory || [];
+    return {
+      id: `attempt_${endedAt}_${i}_${Math.random().toString(36).substr(2, 9)}`,
+      problem: snapshot(problem),
+      startedAt,
+      updatedAt: endedAt,
+      endedAt,
+      hintsUsed: 0,
+      outcome: deriveOutcome(chat),
+      chat: withoutAttachmentData(chat)
+    };
+  })]);
+};
+
+// --- Statistics ---
+
+export interface AttemptSummary {
+  total: number;            // Attempts in which the student submitted something or gave up
+  solved: number;
+  accuracy: number | null;  // solved / total, null without attempts
+  averageMinutes: number | null;
+  averageHints: number | null;
+  byTopic: Record<string, { total: number, solved: number }>;
+}
+
+/**
+ * Opening a problem and leaving without doing anything is not practice, so attempts
+ * that stayed 'no_attempt' are left out of every figure.
+ */
+export const summarizeAttempts = (attempts: Attempt[]): AttemptSummary => {
+  const practiced = attempts.filter(a => a.outcome !== 'no_attempt');
+  const solved = practiced.filter(a => a.outcome === 'solved').length;
+  const finished = practiced.filter(a => a.endedAt);
+  const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+  const byTopic: AttemptSummary['byTopic'] = {};
+  practiced.forEach(a => {
+    const topic = byTopic[a.problem.topic] || (byTopic[a.problem.topic] = { total: 0, solved: 0 });
+    topic.total++;
+    if (a.outcome === 'solved') topic.solved++;
+  });
+
+  return {
+    total: practiced.length,
+    solved,
+    accuracy: practiced.length > 0 ? solved / practiced.length : null,
+    averageMinutes: average(finished.map(a => (a.endedAt! - a.startedAt) / 60000)),
+    averageHints: average(practiced.map(a => a.hintsUsed)),
+    byTopic
+  };
+};
@@ -0,0 +1,123 @@
+import { User } from '../types';
+import { getStorage, useRemoteApi } from './storageService';
+import { withCrossTabLock } from './syncService';
+import { apiGetAuditLog, apiRecordAuditEvent } from './apiClient';
+
+// --- Audit Log ---
+// Append-only record of security-relevant and coaching actions. Entries are never
+// edited or removed; this module deliberately exports no way to do so. With the 'http'
+// backend the log is only reachable through the server, which appends entries itself
+// and names the logged-in user as actor, whatever the browser claims.
+
+const AUDIT_KEY = 'feynman_audit_log';
+
+export type AuditAction =
+  | 'login'
+  | 'login_failed'
+  | 'password_change'
+  | 'password_reset'
+  | 'batch_import'
+  | 'user_unlock'
+  | 'user_deactivate'
+  | 'user_activate'
+  | 'user_delete'
+  | 'data_export'
+  | 'data_restore';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  login: '登录',
+  login_failed: '登录失败',
+  password_change: '修改密码',
+  password_reset: '重置密码',
+  batch_import: '批量导入',
+  user_unlock: '解除锁定',
+  user_deactivate: '停用账号',
+  user_activate: '启用账号',
+  user_delete: '删除账号',
+  data_export: '数据导出',
+  data_restore: '数据恢复'
+};
+
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  action: AuditAction;
+  actorId?: string;    // Who performed the action (absent for failed logins of unknown users)
+  actorName?: string;
+  targetId?: string;   // Whose account or data was affected
+  targetName?: string;
+  details?: string;
+}
+
+// Just enough of a User to identify it in the log; names are copied so entries stay
+// readable after the account is renamed or deleted
+export type AuditParty = Pick<User, 'id' | 'name' | 'username'>;
+
+export interface AuditFilter {
+  action?: AuditAction;
+  query?: string; // Matches actor/target names and details
+  from?: number;
+  to?: number;
+}
+
+const describe = (party: AuditParty) => `${party.name} (${party.username})`;
+
+/**
+ * The whole log. The server only hands a coach the entries about themselves and their students.
+ */
+export const getAuditLog = async (): Promise<AuditEntry[]> => {
+  if (useRemoteApi()) return apiGetAuditLog();
+  return (await getStorage().get<AuditEntry[]>(AUDIT_KEY)) || [];
+};
+
+/**
+ * Appends one entry. Logging must never break the action being logged,
+ * so storage failures are reported to the console only.
+ */
+export const recordAuditEvent = async (
+  action: AuditAction,
+  parties: { actor?: AuditParty, target?: AuditParty },
+  details?: string
+): Promise<void> => {
+  if (useRemoteApi()) {
+    await apiRecordAuditEvent(action, parties.target?.id, details)
+      .catch(e => console.error("Failed to write audit log", e));
+    return;
+  }
+
+  const entry: AuditEntry = {
+    id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: Date.now(),
+    action,
+    actorId: parties.actor?.id,
+    actorName: parties.actor && describe(parties.actor),
+    targetId: parties.target?.id,
+    targetName: parties.target && describe(parties.target),
+    details
+  };
+
+  try {
+    await withCrossTabLock(AUDIT_KEY, async () => {
+      await getStorage().set(AUDIT_KEY, [...await getAuditLog(), entry]);
+    });
+  } catch (e) {
+    console.error("Failed to write audit log", e);
+  }
+};
+
+/**
+ * Newest-first entries matching the filter. visibleUserIds limits a coach to entries
+ * about themselves and their own students; omit it for administrators.
+ */
+export const filterAuditLog = (entries: AuditEntry[], filter: AuditFilter, visibleUserIds?: Set<string>): AuditEntry[] => {
+  const query = filter.query?.trim().toLowerCase();
+  return entries
+    .filter(e => !visibleUserIds
+      || (e.actorId && visibleUserIds.has(e.actorId))
+      || (e.targetId && visibleUserIds.has(e.targetId)))
+    .filter(e => !filter.action || e.action === filter.action)
+    .filter(e => !filter.from || e.timestamp >= filter.from)
+    .filter(e => !filter.to || e.timestamp <= filter.to)
+    .filter(e => !query || [e.actorName, e.targetName, e.details].some(v => v?.toLowerCase().includes(query)))
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
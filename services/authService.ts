@@ -1,218 +1,774 @@
 
 import { User, UserRole, UserData, Problem } from '../types';
+import { getStorage, getDeviceStorage, getStorageConfig, createLocalStorageAdapter, setApiToken, useRemoteApi } from './storageService';
+import { migrateProblem, migrateUser, withSchemaVersion } from './schemaMigrations';
+import { MistakeChanges, applyMistakeChanges, publishSyncEvent, withCrossTabLock } from './syncService';
+import { MistakeStore, createDocumentMistakeStore, createIndexedDBMistakeStore } from './mistakeStore';
+import { AuditParty, recordAuditEvent } from './auditService';
+import { replaceAttempts } from './attemptService';
+import { replaceHomework } from './assignmentService';
+import { clearActiveExam } from './examService';
+import {
+  apiLogin,
+  apiLogout,
+  apiGetSessionUser,
+  apiTouchSession,
+  apiRegisterBatchUsers,
+  apiGetStudents,
+  apiGetUserMistakes,
+  apiSaveUserMistakes,
+  apiGetLastSession,
+  apiSaveLastSession,
+  apiNeedsInitialSetup,
+  apiCreateInitialAdmin,
+  apiDeleteUsers,
+  apiChangePassword,
+  apiResetPassword,
+  apiUnlockUser,
+  apiSetUsersActive,
+  apiGetAllUsernames,
+  apiUpdateUserProfile,
+  apiGetCoaches,
+  apiCreateCoach
+} from './apiClient';
 
 // STORAGE KEYS
 const USERS_KEY = 'feynman_users';
 const DATA_KEY = 'feynman_data';
-const CURRENT_USER_KEY = 'feynman_current_user';
+const SESSION_KEY = 'feynman_session';
+const SESSION_RECORDS_KEY = 'feynman_sessions';
+const LEGACY_CURRENT_USER_KEY = 'feynman_current_user'; // Pre-expiry sessions, removed on next login/logout
 const LAST_SESSION_PREFIX = 'feynman_last_session_';
 
 // --- Crypto Utils ---
-async function hashPassword(password: string): Promise<string> {
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+
+type PasswordRecord = Pick<User, 'passwordHash' | 'passwordSalt' | 'passwordIterations'>;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) || []).map(b => parseInt(b, 16)));
+
+// Unsalted SHA-256 used by earlier versions. Only kept to verify (and then upgrade) old hashes.
+async function legacyHashPassword(password: string): Promise<string> {
   const msgBuffer = new TextEncoder().encode(password);
   const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  return toHex(new Uint8Array(hashBuffer));
 }
 
+async function hashPassword(password: string, saltHex: string, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(saltHex), iterations },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+async function createPasswordRecord(password: string): Promise<PasswordRecord> {
+  const passwordSalt = toHex(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+  return {
+    passwordHash: await hashPassword(password, passwordSalt, PBKDF2_ITERATIONS),
+    passwordSalt,
+    passwordIterations: PBKDF2_ITERATIONS
+  };
+}
+
+async function verifyPassword(user: User, password: string): Promise<boolean> {
+  if (!user.passwordSalt) {
+    return user.passwordHash === await legacyHashPassword(password);
+  }
+  return user.passwordHash === await hashPassword(password, user.passwordSalt, user.passwordIterations || PBKDF2_ITERATIONS);
+}
+
+// Legacy hashes and records below the current work factor get rehashed on next login
+const needsRehash = (user: User) => !user.passwordSalt || (user.passwordIterations || 0) < PBKDF2_ITERATIONS;
+
+// --- Login Throttling & Session Policy ---
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;     // Logged out after 30 minutes without activity
+export const SESSION_MAX_AGE_MS = 12 * 60 * 60 * 1000;     // ...and at the latest 12 hours after login
+
+// Device-scoped login: only the token. Who is logged in, and whether the login is still
+// valid, is always looked up in the session records (on the server for 'http').
+interface DeviceSession {
+  token: string;
+}
+
+// Stored record of a login, found by the hash of its token
+interface SessionRecord {
+  tokenHash: string;
+  userId: string;
+  issuedAt: number;
+  lastActiveAt: number;
+}
+
+const isSessionExpired = (session: SessionRecord, now = Date.now()) =>
+  now - session.lastActiveAt > SESSION_IDLE_TIMEOUT_MS || now - session.issuedAt > SESSION_MAX_AGE_MS;
+
+export const isUserLocked = (user: User, now = Date.now()) => !!user.lockedUntil && user.lockedUntil > now;
+
 // --- Data Access Layer (Simulated Database) ---
+// Backed by the configured StorageAdapter (localStorage, IndexedDB or HTTP).
 
-const getDBUsers = (): User[] => {
-  const stored = localStorage.getItem(USERS_KEY);
-  return stored ? JSON.parse(stored) : [];
+const getDBUsers = async (): Promise<User[]> => {
+  const stored = (await getStorage().get<User[]>(USERS_KEY)) || [];
+  return stored.map(migrateUser);
 };
 
-const saveDBUsers = (users: User[]) => {
-  localStorage.setItem(USERS_KEY, JSON.stringify(users));
+const saveDBUsers = async (users: User[]) => {
+  await getStorage().set(USERS_KEY, users.map(withSchemaVersion));
 };
 
-const getDBData = (): UserData[] => {
-  const stored = localStorage.getItem(DATA_KEY);
-  return stored ? JSON.parse(stored) : [];
+/**
+ * Read-modify-write of the user list under a lock, so concurrent logins and account
+ * changes cannot overwrite each other with stale copies. The update gets a fresh read;
+ * hash passwords before calling this, never inside it.
+ */
+const updateDBUsers = async (update: (users: User[]) => User[]) => {
+  await withCrossTabLock(USERS_KEY, async () => {
+    await saveDBUsers(update(await getDBUsers()));
+  });
 };
 
-const saveDBData = (data: UserData[]) => {
-  localStorage.setItem(DATA_KEY, JSON.stringify(data));
+let mistakeStore: MistakeStore | null = null;
+
+// IndexedDB keeps mistakes in dedicated object stores; other backends use the JSON document
+const getMistakeStore = (): MistakeStore => {
+  if (!mistakeStore) {
+    mistakeStore = getStorageConfig().backend === 'indexeddb'
+      ? createIndexedDBMistakeStore()
+      : createDocumentMistakeStore(getStorage(), DATA_KEY);
+  }
+  return mistakeStore;
 };
 
-// --- Auth Service Exports ---
+/**
+ * One-time migration of data written by earlier versions straight into localStorage.
+ * Runs only for the IndexedDB backend and removes the legacy keys once copied,
+ * so later calls are no-ops.
+ */
+export const migrateLegacyStorage = async () => {
+  if (getStorageConfig().backend !== 'indexeddb') return;
 
-export const initializeAdmin = async () => {
-  const users = getDBUsers();
-  let hasChanges = false;
-  
-  // 1. Ensure the specific 'Coach' account exists
-  if (!users.some(u => u.username === 'Coach')) {
-    const pHash = await hashPassword('admin123');
-    const admin: User = {
-      id: 'admin_default',
-      username: 'Coach',
-      passwordHash: pHash,
-      name: '竞赛主教练',
-      role: 'coach',
-      isFirstLogin: false
-    };
-    users.push(admin);
-    hasChanges = true;
-  }
-
-  // 2. Ensure the specific 'test' student account exists
-  if (!users.some(u => u.username === 'test')) {
-    const pHash = await hashPassword('test');
-    const testUser: User = {
-      id: 'student_test_default',
-      username: 'test',
-      passwordHash: pHash,
-      name: '测试学生',
-      role: 'student',
-      isFirstLogin: false // Skip password change for easier testing
-    };
-    users.push(testUser);
-    hasChanges = true;
+  const legacy = createLocalStorageAdapter();
+  const legacyUsers = await legacy.get<User[]>(USERS_KEY);
+  const legacyData = await legacy.get<UserData[]>(DATA_KEY);
+  if (!legacyUsers && !legacyData) return;
+
+  if (legacyUsers) {
+    await updateDBUsers(users => [...users, ...legacyUsers.filter(lu => !users.some(u => u.username === lu.username))]);
+
+    // Last-session keys are per user, so look them up for every legacy account
+    for (const user of legacyUsers) {
+      const sessionKey = `${LAST_SESSION_PREFIX}${user.id}`;
+      const session = await legacy.get<Problem>(sessionKey);
+      if (session) {
+        if (!(await getStorage().get<Problem>(sessionKey))) {
+          await getStorage().set(sessionKey, session);
+        }
+        await legacy.remove(sessionKey);
+      }
+    }
   }
 
-  if (hasChanges) {
-    saveDBUsers(users);
+  for (const userData of legacyData || []) {
+    const existing = await getMistakeStore().load(userData.userId);
+    if (existing.length === 0) {
+      await getMistakeStore().save(userData.userId, userData.mistakes);
+    }
   }
+
+  await legacy.remove(USERS_KEY);
+  await legacy.remove(DATA_KEY);
 };
 
-export const login = async (username: string, password: string): Promise<{user: User, previousLogin?: number}> => {
-  const users = getDBUsers();
+// --- Auth Service Exports ---
+
+export const initializeAdmin = async () => {
+  // The server runs this against its own database
+  if (useRemoteApi()) return;
+
+  // Runs once at startup, so checking the default passwords inside the lock costs little
+  await withCrossTabLock(USERS_KEY, async () => {
+    let users = await getDBUsers();
+    let hasChanges = false;
+
+    // 1. Older versions shipped a built-in 'Coach' / 'admin123' account. While it still
+    //    has that password anyone could log in with it, so it is removed and the
+    //    installation goes through the setup wizard unless another administrator exists.
+    const legacyAdmin = users.find(u => u.id === 'admin_default');
+    if (legacyAdmin && await verifyPassword(legacyAdmin, 'admin123')) {
+      users = users.filter(u => u !== legacyAdmin);
+      hasChanges = true;
+      await recordAuditEvent('user_delete', { target: legacyAdmin }, "内置默认账号仍使用默认密码，已移除");
+    }
+
+    // 2. Older versions also seeded a 'test' / 'test' student that skipped the password
+    //    change. Deactivate it; if a coach reactivates it, it must choose a new password.
+    const testUser = users.find(u => u.id === 'student_test_default');
+    if (testUser && !testUser.isFirstLogin && await verifyPassword(testUser, 'test')) {
+      testUser.deactivatedAt = Date.now();
+      testUser.isFirstLogin = true;
+      hasChanges = true;
+      await recordAuditEvent('user_deactivate', { target: testUser }, "默认测试账号仍使用默认密码，已停用");
+    }
+
+    // 3. Installations from before classes had a single coach; promote it to administrator
+    if (!users.some(u => u.role === 'admin')) {
+      const firstCoach = users.find(u => u.role === 'coach' && !u.deactivatedAt);
+      if (firstCoach) {
+        firstCoach.role = 'admin';
+        hasChanges = true;
+      }
+    }
+
+    if (hasChanges) {
+      await saveDBUsers(users);
+    }
+  });
+};
+
+/**
+ * True on a fresh installation that has no administrator account yet.
+ * The app then shows the setup wizard instead of the login screen.
+ */
+export const needsInitialSetup = async (): Promise<boolean> => {
+  if (useRemoteApi()) return apiNeedsInitialSetup();
+  return !(await getDBUsers()).some(u => u.role === 'admin');
+};
+
+/**
+ * Creates the administrator account. Refuses once an administrator exists,
+ * so it cannot be used to take over an initialised installation.
+ */
+export const createInitialAdmin = async (name: string, username: string, password: string): Promise<void> => {
+  if (useRemoteApi()) return apiCreateInitialAdmin(name, username, password);
+
+  const admin: User = {
+    id: `coach_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    username,
+    ...await createPasswordRecord(password),
+    name,
+    role: 'admin',
+    isFirstLogin: false
+  };
+  await updateDBUsers(users => {
+    if (users.some(u => u.role === 'admin')) throw new Error("系统已完成初始化");
+    if (users.some(u => u.username === username)) throw new Error("该账号已存在");
+    return [...users, admin];
+  });
+};
+
+/**
+ * Verifies credentials against the user store and records login stats.
+ * Does not touch the device session, so the server can call it directly.
+ */
+export const authenticate = async (username: string, password: string): Promise<{user: User, previousLogin?: number}> => {
+  const users = await getDBUsers();
   const userIndex = users.findIndex(u => u.username === username);
   
-  if (userIndex === -1) throw new Error("用户不存在");
+  if (userIndex === -1) {
+    await recordAuditEvent('login_failed', {}, `账号 ${username} 不存在`);
+    throw new Error("用户不存在");
+  }
   
   const user = users[userIndex];
-  const pHash = await hashPassword(password);
-  if (user.passwordHash !== pHash) throw new Error("密码错误");
+  if (user.deactivatedAt) {
+    await recordAuditEvent('login_failed', { target: user }, "账号已停用");
+    throw new Error("该账号已停用，请联系教练");
+  }
+  if (isUserLocked(user)) {
+    await recordAuditEvent('login_failed', { target: user }, "账号锁定中");
+    const minutes = Math.ceil((user.lockedUntil! - Date.now()) / 60000);
+    throw new Error(`密码错误次数过多，账号已锁定。请 ${minutes} 分钟后重试或联系教练解锁`);
+  }
+
+  if (!(await verifyPassword(user, password))) {
+    // Count against the stored record, which other attempts may have raised meanwhile
+    let attempts = 0;
+    let locked = false;
+    await updateDBUsers(current => current.map(u => {
+      if (u.id !== user.id) return u;
+      attempts = (u.failedLoginAttempts || 0) + 1;
+      locked = attempts >= MAX_FAILED_ATTEMPTS;
+      return {
+        ...u,
+        failedLoginAttempts: locked ? 0 : attempts,
+        lockedUntil: locked ? Date.now() + LOCKOUT_DURATION_MS : u.lockedUntil
+      };
+    }));
+    await recordAuditEvent('login_failed', { target: user }, locked ? "密码错误，账号已锁定" : "密码错误");
+
+    if (locked) throw new Error(`密码错误次数过多，账号已锁定 ${LOCKOUT_DURATION_MS / 60000} 分钟`);
+    throw new Error(`密码错误（还可尝试 ${MAX_FAILED_ATTEMPTS - attempts} 次）`);
+  }
   
   // Capture previous login time to display to user
   const previousLogin = user.lastLogin;
 
-  // Update stats
-  const updatedUser = {
-      ...user,
+  // Upgrade the stored hash while we know the plain password
+  const rehashed = needsRehash(user) ? await createPasswordRecord(password) : {};
+
+  // Update stats on the stored record, which may have changed while the password was checked
+  let updatedUser = user;
+  await updateDBUsers(current => current.map(u => {
+    if (u.id !== user.id) return u;
+    updatedUser = {
+      ...u,
+      // Only if the password was not changed in the meantime
+      ...(u.passwordHash === user.passwordHash ? rehashed : {}),
+      failedLoginAttempts: 0,
+      lockedUntil: undefined,
       lastLogin: Date.now(),
-      loginCount: (user.loginCount || 0) + 1
-  };
-  
-  // Save back to "DB"
-  users[userIndex] = updatedUser;
-  saveDBUsers(users);
+      loginCount: (u.loginCount || 0) + 1
+    };
+    return updatedUser;
+  }));
+  await recordAuditEvent('login', { actor: updatedUser, target: updatedUser });
+
+  return { user: updatedUser, previousLogin };
+};
+
+// --- Sessions ---
+// Login hands out a token that every later request or page load is checked against.
+// The records live in the shared store: on the classroom server with the 'http'
+// backend, otherwise in this browser. Only a hash of each token is stored.
+
+const hashToken = async (token: string) => legacyHashPassword(token);
+
+const getSessionRecords = async (): Promise<SessionRecord[]> => {
+  return (await getStorage().get<SessionRecord[]>(SESSION_RECORDS_KEY)) || [];
+};
+
+const updateSessionRecords = async (update: (records: SessionRecord[]) => SessionRecord[]) => {
+  await withCrossTabLock(SESSION_RECORDS_KEY, async () => {
+    await getStorage().set(SESSION_RECORDS_KEY, update(await getSessionRecords()));
+  });
+};
+
+/**
+ * Opens a session for a user who just authenticated and returns its token.
+ */
+export const createSession = async (user: User): Promise<string> => {
+  const token = toHex(crypto.getRandomValues(new Uint8Array(32)));
+  const now = Date.now();
+  const record: SessionRecord = { tokenHash: await hashToken(token), userId: user.id, issuedAt: now, lastActiveAt: now };
+  // Expired records are only dropped here, so the list cannot grow without bound
+  await updateSessionRecords(records => [...records.filter(r => !isSessionExpired(r, now)), record]);
+  return token;
+};
+
+/**
+ * The user a session token belongs to, read fresh from the user store, or null when
+ * the token is unknown, expired or its account is gone or deactivated. Counts as activity unless
+ * touch is false (expiry polling must not keep an idle session alive).
+ */
+export const resolveSession = async (token: string, touch = true): Promise<User | null> => {
+  const tokenHash = await hashToken(token);
+  const record = (await getSessionRecords()).find(r => r.tokenHash === tokenHash);
+  if (!record || isSessionExpired(record)) return null;
+
+  const user = (await getDBUsers()).find(u => u.id === record.userId);
+  if (!user || user.deactivatedAt) return null;
+
+  // Writing on every request is wasteful; once a minute keeps the idle expiry accurate enough
+  const now = Date.now();
+  if (touch && now - record.lastActiveAt > 60 * 1000) {
+    await updateSessionRecords(records => records.map(r => r.tokenHash === tokenHash ? { ...r, lastActiveAt: now } : r));
+  }
+  return user;
+};
+
+export const endSession = async (token: string) => {
+  const tokenHash = await hashToken(token);
+  await updateSessionRecords(records => records.filter(r => r.tokenHash !== tokenHash));
+};
+
+// Logs the users out everywhere, e.g. when their accounts are deactivated or deleted
+const endUserSessions = async (userIds: string[]) => {
+  const ids = new Set(userIds);
+  await updateSessionRecords(records => records.filter(r => !ids.has(r.userId)));
+};
+
+// --- Device Login ---
+
+export const login = async (username: string, password: string): Promise<{user: User, previousLogin?: number}> => {
+  let result: { user: User, previousLogin?: number };
+  let token: string;
+  if (useRemoteApi()) {
+    ({ token, ...result } = await apiLogin(username, password));
+    setApiToken(token);
+  } else {
+    result = await authenticate(username, password);
+    token = await createSession(result.user);
+  }
 
   // Save session
-  localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(updatedUser));
+  const session: DeviceSession = { token };
+  await getDeviceStorage().set(SESSION_KEY, session);
+  await getDeviceStorage().remove(LEGACY_CURRENT_USER_KEY);
+  publishSyncEvent({ type: 'auth', user: result.user });
 
-  return { user: updatedUser, previousLogin };
+  return result;
 };
 
-export const logout = () => {
-  // Clear current user but KEEP the session data in localStorage so it persists across sessions
-  localStorage.removeItem(CURRENT_USER_KEY);
+export const logout = async () => {
+  const session = await getDeviceStorage().get<DeviceSession>(SESSION_KEY);
+  if (useRemoteApi()) {
+    // The server forgets the token; an unreachable server must not keep the user logged in here
+    await apiLogout().catch(console.error);
+    setApiToken(null);
+  } else if (session) {
+    await endSession(session.token);
+  }
+  // Clear current user but KEEP the session data in storage so it persists across sessions
+  await getDeviceStorage().remove(SESSION_KEY);
+  await getDeviceStorage().remove(LEGACY_CURRENT_USER_KEY);
+  publishSyncEvent({ type: 'auth', user: null });
 };
 
-export const getCurrentUser = (): User | null => {
-  const stored = localStorage.getItem(CURRENT_USER_KEY);
-  return stored ? JSON.parse(stored) : null;
+/**
+ * Returns the logged-in user of this browser as currently stored, or null when there is
+ * no session or its token is no longer valid (the device session is then discarded).
+ * Does not count as activity.
+ */
+export const getCurrentUser = async (): Promise<User | null> => {
+  const session = await getDeviceStorage().get<DeviceSession>(SESSION_KEY);
+  if (!session?.token) return null;
+
+  let user: User | null;
+  if (useRemoteApi()) {
+    setApiToken(session.token);
+    user = await apiGetSessionUser();
+  } else {
+    user = await resolveSession(session.token, false);
+  }
+  if (!user) {
+    await getDeviceStorage().remove(SESSION_KEY);
+    setApiToken(null);
+  }
+  return user;
 };
 
-export const updatePassword = async (userId: string, newPassword: string): Promise<User> => {
-  const users = getDBUsers();
-  const index = users.findIndex(u => u.id === userId);
-  if (index === -1) throw new Error("User not found");
+/**
+ * Records user activity, pushing back the idle expiry of the current session.
+ * Like getCurrentUser, returns null (and discards the device session) once it is no longer valid.
+ */
+export const touchSession = async (): Promise<User | null> => {
+  const session = await getDeviceStorage().get<DeviceSession>(SESSION_KEY);
+  if (!session?.token) return null;
 
-  const pHash = await hashPassword(newPassword);
-  
-  // Update user record
-  users[index].passwordHash = pHash;
-  users[index].isFirstLogin = false; // Mark as initialized
-  
-  saveDBUsers(users);
-  
-  // Update session
-  localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(users[index]));
+  const user = useRemoteApi() ? await apiTouchSession() : await resolveSession(session.token);
+  if (!user) {
+    await getDeviceStorage().remove(SESSION_KEY);
+    setApiToken(null);
+  }
+  return user;
+};
+
+/**
+ * Stores a user's own new password. Does not touch the device session, so the server can call it directly.
+ */
+export const setPassword = async (userId: string, newPassword: string): Promise<User> => {
+  const passwordRecord = await createPasswordRecord(newPassword);
+  let user: User | undefined;
+  await updateDBUsers(users => users.map(u => {
+    if (u.id !== userId) return u;
+    user = { ...u, ...passwordRecord, isFirstLogin: false }; // Mark as initialized
+    return user;
+  }));
+  if (!user) throw new Error("User not found");
+
+  await recordAuditEvent('password_change', { actor: user, target: user });
+  return user;
+};
+
+export const updatePassword = async (userId: string, newPassword: string): Promise<User> => {
+  const user = useRemoteApi() ? await apiChangePassword(newPassword) : await setPassword(userId, newPassword);
+  publishSyncEvent({ type: 'auth', user });
   
-  return users[index];
+  return user;
 };
 
 /**
  * Resets a user's password to be identical to their username.
  * Also resets 'isFirstLogin' to true so they are prompted to change it.
  */
-export const resetUserPasswordToUsername = async (userId: string): Promise<void> => {
-  const users = getDBUsers();
-  const index = users.findIndex(u => u.id === userId);
-  if (index === -1) throw new Error("User not found");
-  
-  const user = users[index];
-  const newHash = await hashPassword(user.username);
-  
-  users[index].passwordHash = newHash;
-  users[index].isFirstLogin = true; // Force them to change it again
-  
-  saveDBUsers(users);
+export const resetUserPasswordToUsername = async (userId: string, actor?: AuditParty): Promise<void> => {
+  if (useRemoteApi()) return apiResetPassword(userId);
+
+  const user = (await getDBUsers()).find(u => u.id === userId);
+  if (!user) throw new Error("User not found");
+
+  const passwordRecord = await createPasswordRecord(user.username);
+  await updateDBUsers(users => users.map(u =>
+    u.id === userId ? { ...u, ...passwordRecord, isFirstLogin: true } : u // Force them to change it again
+  ));
+  await recordAuditEvent('password_reset', { actor, target: user });
 };
 
-export const registerBatchUsers = async (newUsersRaw: {name: string, username: string}[]) => {
-  const currentUsers = getDBUsers();
-  
-  // Create users with password equal to username
+/**
+ * Lifts a lockout caused by repeated wrong passwords.
+ */
+export const unlockUser = async (userId: string, actor?: AuditParty): Promise<void> => {
+  if (useRemoteApi()) return apiUnlockUser(userId);
+
+  let user: User | undefined;
+  await updateDBUsers(users => users.map(u => {
+    if (u.id !== userId) return u;
+    user = { ...u, failedLoginAttempts: 0, lockedUntil: undefined };
+    return user;
+  }));
+  if (!user) throw new Error("User not found");
+  await recordAuditEvent('user_unlock', { actor, target: user });
+};
+
+// --- Account Lifecycle ---
+
+/**
+ * Deactivates or reactivates accounts. Deactivated users are logged out and cannot
+ * log in, but their accounts and notebooks are kept.
+ */
+export const setUsersActive = async (userIds: string[], active: boolean, actor?: AuditParty): Promise<void> => {
+  if (useRemoteApi()) return apiSetUsersActive(userIds, active);
+
+  const ids = new Set(userIds);
+  let users: User[] = [];
+  await updateDBUsers(current => {
+    users = current.map(u => ids.has(u.id) ? { ...u, deactivatedAt: active ? undefined : Date.now() } : u);
+    return users;
+  });
+  if (!active) await endUserSessions(userIds);
+  for (const user of users.filter(u => ids.has(u.id))) {
+    await recordAuditEvent(active ? 'user_activate' : 'user_deactivate', { actor, target: user });
+  }
+};
+
+/**
+ * Permanently deletes accounts together with their mistakes, attempt log, homework, mock exam and last session.
+ * Their sessions end first, so an open tab cannot write the data back.
+ */
+export const deleteUsers = async (userIds: string[], actor?: AuditParty): Promise<void> => {
+  if (useRemoteApi()) return apiDeleteUsers(userIds);
+
+  const ids = new Set(userIds);
+  let deleted: User[] = [];
+  await endUserSessions(userIds);
+  for (const userId of userIds) {
+    await getMistakeStore().remove(userId);
+    await getStorage().remove(`${LAST_SESSION_PREFIX}${userId}`);
+    await replaceAttempts(userId, []);
+    await replaceHomework(userId, []);
+    await clearActiveExam(userId);
+  }
+  await updateDBUsers(users => {
+    deleted = users.filter(u => ids.has(u.id));
+    return users.filter(u => !ids.has(u.id));
+  });
+  for (const user of deleted) {
+    await recordAuditEvent('user_delete', { actor, target: user });
+  }
+};
+
+/**
+ * Every username in use, across all classes. Used to flag import conflicts
+ * the importing coach could not otherwise see.
+ */
+export const getAllUsernames = async (): Promise<string[]> => {
+  if (useRemoteApi()) return apiGetAllUsernames();
+  return (await getDBUsers()).map(u => u.username);
+};
+
+/**
+ * Changes a user's display name and/or username. Usernames must stay unique.
+ * Accounts that never logged in and still have their username as password keep the two
+ * in step; a custom initial password (e.g. from a roster import) is left alone.
+ */
+export const updateUserProfile = async (userId: string, changes: { name?: string, username?: string }): Promise<User> => {
+  if (useRemoteApi()) return apiUpdateUserProfile(userId, changes);
+
+  const user = (await getDBUsers()).find(u => u.id === userId);
+  if (!user) throw new Error("User not found");
+
+  const name = changes.name?.trim() || user.name;
+  const username = changes.username?.trim() || user.username;
+  const passwordIsUsername = user.isFirstLogin && username !== user.username && await verifyPassword(user, user.username);
+  const passwordRecord = passwordIsUsername ? await createPasswordRecord(username) : {};
+
+  let updated = user;
+  await updateDBUsers(users => {
+    if (username !== user.username && users.some(u => u.username === username)) {
+      throw new Error("该账号已存在");
+    }
+    return users.map(u => {
+      if (u.id !== userId) return u;
+      // The password check above only holds while the password is unchanged
+      updated = { ...u, name, username, ...(u.passwordHash === user.passwordHash ? passwordRecord : {}) };
+      return updated;
+    });
+  });
+  return updated;
+};
+
+export interface NewStudentInput {
+  name: string;
+  username: string;
+  password?: string;   // Initial password; defaults to the username
+  classIds?: string[]; // Classes in addition to the batch-wide ones
+}
+
+/**
+ * Creates student accounts and enrolls them in the given classes. They must change
+ * their initial password on first login. Usernames that already exist are skipped.
+ * Returns the number of accounts created.
+ */
+export const registerBatchUsers = async (newUsersRaw: NewStudentInput[], classIds: string[] = [], actor?: AuditParty) => {
+  if (useRemoteApi()) return apiRegisterBatchUsers(newUsersRaw, classIds);
+
   const newUsersPromises = newUsersRaw.map(async (u) => ({
     id: `u_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     username: u.username,
     name: u.name,
-    passwordHash: await hashPassword(u.username), // Set initial password same as username
+    ...await createPasswordRecord(u.password || u.username), // Initial password defaults to the username
     role: 'student' as UserRole,
-    isFirstLogin: true // Force password change
+    isFirstLogin: true, // Force password change
+    classIds: Array.from(new Set([...classIds, ...(u.classIds || [])]))
   }));
 
   const newUsers = await Promise.all(newUsersPromises);
 
   // Filter out duplicates based on username
-  const uniqueNewUsers = newUsers.filter(nu => !currentUsers.some(cu => cu.username === nu.username));
-  
-  saveDBUsers([...currentUsers, ...uniqueNewUsers]);
+  let uniqueNewUsers: User[] = [];
+  await updateDBUsers(currentUsers => {
+    uniqueNewUsers = newUsers.filter(nu => !currentUsers.some(cu => cu.username === nu.username));
+    return [...currentUsers, ...uniqueNewUsers];
+  });
+  await recordAuditEvent('batch_import', { actor },
+    `导入 ${uniqueNewUsers.length} 名学生（文件共 ${newUsersRaw.length} 行）: ${uniqueNewUsers.map(u => u.username).join(', ')}`);
   return uniqueNewUsers.length;
 };
 
-export const getStudents = (): User[] => {
-  return getDBUsers().filter(u => u.role === 'student');
+export const getStudents = async (): Promise<User[]> => {
+  if (useRemoteApi()) return apiGetStudents();
+  return (await getDBUsers()).filter(u => u.role === 'student');
+};
+
+// --- Coaches & Class Membership ---
+
+export const getCoaches = async (): Promise<User[]> => {
+  if (useRemoteApi()) return apiGetCoaches();
+  return (await getDBUsers()).filter(u => u.role === 'coach' || u.role === 'admin');
+};
+
+/**
+ * Creates a coach account. Only an administrator may do this.
+ * Like imported students, the initial password equals the username.
+ */
+export const createCoach = async (actor: User, name: string, username: string): Promise<User> => {
+  if (actor.role !== 'admin') throw new Error("无权限执行此操作");
+  if (useRemoteApi()) return apiCreateCoach(name, username);
+
+  const coach: User = {
+    id: `coach_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    username,
+    ...await createPasswordRecord(username),
+    name,
+    role: 'coach',
+    isFirstLogin: true
+  };
+  await updateDBUsers(users => {
+    if (users.some(u => u.username === username)) throw new Error("该账号已存在");
+    return [...users, coach];
+  });
+  return coach;
+};
+
+/**
+ * Moves students into a class: they leave the classes listed in fromClassIds
+ * (the ones the acting coach can see) and join toClassId.
+ */
+export const transferStudents = async (studentIds: string[], fromClassIds: string[], toClassId: string) => {
+  const ids = new Set(studentIds);
+  const from = new Set(fromClassIds);
+  await updateDBUsers(users => users.map(u => {
+    if (!ids.has(u.id)) return u;
+    const kept = (u.classIds || []).filter(id => !from.has(id) && id !== toClassId);
+    return { ...u, classIds: [...kept, toClassId] };
+  }));
+};
+
+/**
+ * Makes exactly the given students members of a class; other students leave it.
+ * Membership in other classes is untouched.
+ */
+export const setClassMembers = async (classId: string, studentIds: string[]) => {
+  const members = new Set(studentIds);
+  await updateDBUsers(users => users.map(u => {
+    if (u.role !== 'student') return u;
+    const others = (u.classIds || []).filter(id => id !== classId);
+    return { ...u, classIds: members.has(u.id) ? [...others, classId] : others };
+  }));
+};
+
+// --- Bulk Access (Backup & Restore) ---
+
+/**
+ * Every account, coaches and administrators included, with password hashes. Only used by backupService.
+ */
+export const getAllUsers = async (): Promise<User[]> => {
+  return getDBUsers();
+};
+
+export const replaceAllUsers = async (users: User[]) => {
+  await updateDBUsers(() => users);
 };
 
 // --- Mistake Data Management ---
 
-export const getUserMistakes = (userId: string) => {
-  const allData = getDBData();
-  const userData = allData.find(d => d.userId === userId);
-  return userData ? userData.mistakes : [];
+export const getUserMistakes = async (userId: string): Promise<Problem[]> => {
+  if (useRemoteApi()) return apiGetUserMistakes(userId);
+  return (await getMistakeStore().load(userId)).map(migrateProblem);
 };
 
-export const saveUserMistakes = (userId: string, mistakes: any[]) => {
-  const allData = getDBData();
-  const index = allData.findIndex(d => d.userId === userId);
-  
-  if (index > -1) {
-    allData[index].mistakes = mistakes;
-  } else {
-    allData.push({ userId, mistakes });
-  }
-  
-  saveDBData(allData);
+export const saveUserMistakes = async (userId: string, mistakes: Problem[]) => {
+  if (useRemoteApi()) return apiSaveUserMistakes(userId, mistakes);
+  await getMistakeStore().save(userId, mistakes.map(withSchemaVersion));
+};
+
+/**
+ * Applies notebook changes on top of what is currently stored rather than overwriting
+ * it, so additions made meanwhile in another tab survive. Other tabs are notified.
+ */
+export const updateUserMistakes = async (userId: string, changes: MistakeChanges) => {
+  await withCrossTabLock(`${DATA_KEY}_${userId}`, async () => {
+    const stored = await getUserMistakes(userId);
+    await saveUserMistakes(userId, applyMistakeChanges(stored, changes));
+  });
+  publishSyncEvent({ type: 'mistakes', userId, changes });
 };
 
 // --- Session Persistence Management ---
 
-export const saveLastSession = (userId: string, problem: Problem | null) => {
+export const saveLastSession = async (userId: string, problem: Problem | null) => {
   const key = `${LAST_SESSION_PREFIX}${userId}`;
-  if (problem) {
-    localStorage.setItem(key, JSON.stringify(problem));
+  if (useRemoteApi()) {
+    await apiSaveLastSession(userId, problem);
+  } else if (problem) {
+    await getStorage().set(key, withSchemaVersion(problem));
   } else {
-    localStorage.removeItem(key);
+    await getStorage().remove(key);
   }
+  publishSyncEvent({ type: 'session', userId, problem });
 };
 
-export const getLastSession = (userId: string): Problem | null => {
+export const getLastSession = async (userId: string): Promise<Problem | null> => {
+  if (useRemoteApi()) return apiGetLastSession(userId);
+
   const key = `${LAST_SESSION_PREFIX}${userId}`;
-  const stored = localStorage.getItem(key);
-  return stored ? JSON.parse(stored) : null;
+  const stored = await getStorage().get<Problem>(key);
+  return stored ? migrateProblem(stored) : null;
 };
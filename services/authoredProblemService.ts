@@ -0,0 +1,364 @@
+import { AuthoredProblem, BankProblem, Difficulty, DIFFICULTY_LABELS, TOPICS, User } from '../types';
+import { getStorage, useRemoteApi } from './storageService';
+import { withCrossTabLock } from './syncService';
+import { getVisibleClasses } from './classService';
+import { ProblemBankError, validateBankProblem } from './problemBank';
+import {
+  apiGetAuthoredProblems,
+  apiSaveAuthoredProblem,
+  apiImportAuthoredProblems,
+  apiPublishAuthoredProblems,
+  apiUnpublishAuthoredProblems,
+  apiDeleteAuthoredProblems
+} from './apiClient';
+
+// --- Coach-Authored Problems ---
+// Coaches write problems in the editor or import them from .tex / JSON files. Everything
+// starts as a draft; publishing to classes validates the problem like a bank entry and
+// makes it part of the bank for the students of those classes.
+// With the 'http' backend the server runs these checks and only returns visible problems.
+
+const AUTHORED_KEY = 'feynman_authored_problems';
+const DEFAULT_SOURCE = '教练原创';
+
+// Editable fields of a problem; the id and bookkeeping are owned by this module
+export type AuthoredProblemFields = Omit<BankProblem, 'id'>;
+
+// A problem read from an import file, before the coach has reviewed it
+export type ImportedProblem = Partial<AuthoredProblemFields> & { content: string };
+
+export const getAuthoredProblems = async (): Promise<AuthoredProblem[]> => {
+  // The server sends a coach their own problems and a student those published to their classes
+  if (useRemoteApi()) return apiGetAuthoredProblems();
+  return (await getStorage().get<AuthoredProblem[]>(AUTHORED_KEY)) || [];
+};
+
+const updateAuthoredProblems = async (update: (problems: AuthoredProblem[]) => AuthoredProblem[]) => {
+  await withCrossTabLock(AUTHORED_KEY, async () => {
+    await getStorage().set(AUTHORED_KEY, update(await getAuthoredProblems()));
+  });
+};
+
+const assertCanAuthor = (actor: User) => {
+  if (actor.role !== 'admin' && actor.role !== 'coach') throw new Error("无权限执行此操作");
+};
+
+const canEdit = (actor: User, problem: AuthoredProblem) =>
+  actor.role === 'admin' || problem.authorId === actor.id;
+
+/**
+ * Problems the user may manage: all of them for an administrator, otherwise the coach's own.
+ */
+export const getManageableProblems = async (user: User): Promise<AuthoredProblem[]> => {
+  const problems = await getAuthoredProblems();
+  if (user.role === 'admin') return problems;
+  if (user.role === 'coach') return problems.filter(p => p.authorId === user.id);
+  return [];
+};
+
+/**
+ * Published problems for a student's classes, in the shape of bank entries.
+ */
+export const getPublishedProblemsForStudent = async (student: User): Promise<AuthoredProblem[]> => {
+  const classIds = new Set(student.classIds || []);
+  if (classIds.size === 0) return [];
+  return (await getAuthoredProblems()).filter(p => p.status === 'published' && p.classIds.some(id => classIds.has(id)));
+};
+
+/**
+ * Why the problem cannot be published yet, or null when it is complete.
+ */
+export const getPublishIssue = (problem: AuthoredProblem): string | null => {
+  try {
+    validateBankProblem(problem, '');
+    return null;
+  } catch (error) {
+    return error instanceof ProblemBankError ? error.message.replace(/^:\s*/, '') : String(error);
+  }
+};
+
+const checkDraft = (fields: AuthoredProblemFields) => {
+  if (!fields.content.trim()) throw new Error("题目内容不能为空");
+  if (!TOPICS.includes(fields.topic) || fields.topic === "随机选题") throw new Error("请选择主题");
+  if (!(fields.difficulty in DIFFICULTY_LABELS)) throw new Error("请选择难度");
+};
+
+// Only the editable fields, so a save cannot change the author, status or classes
+const pickFields = (fields: AuthoredProblemFields): AuthoredProblemFields => ({
+  topic: fields.topic,
+  difficulty: fields.difficulty,
+  level: fields.level,
+  content: fields.content,
+  standardSolution: fields.standardSolution,
+  feynmanExplanation: fields.feynmanExplanation,
+  finalAnswer: fields.finalAnswer,
+  source: fields.source
+});
+
+const createId = () => `authored_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Creates a problem (no id) or updates one. A published problem stays published,
+ * so it must remain complete.
+ */
+export const saveAuthoredProblem = async (actor: User, fields: AuthoredProblemFields, id?: string): Promise<AuthoredProblem> => {
+  assertCanAuthor(actor);
+  checkDraft(fields);
+  if (useRemoteApi()) return apiSaveAuthoredProblem(fields, id);
+
+  const now = Date.now();
+  let saved: AuthoredProblem | undefined;
+
+  await updateAuthoredProblems(problems => {
+    if (!id) {
+      saved = {
+        ...pickFields(fields),
+        id: createId(),
+        source: fields.source.trim() || DEFAULT_SOURCE,
+        authorId: actor.id,
+        authorName: actor.name,
+        status: 'draft',
+        classIds: [],
+        createdAt: now,
+        updatedAt: now
+      };
+      return [...problems, saved];
+    }
+
+    const existing = problems.find(p => p.id === id);
+    if (!existing) throw new Error("题目不存在");
+    if (!canEdit(actor, existing)) throw new Error("无权限执行此操作");
+    saved = { ...existing, ...pickFields(fields), source: fields.source.trim() || DEFAULT_SOURCE, updatedAt: now };
+    if (saved.status === 'published') {
+      const issue = getPublishIssue(saved);
+      if (issue) throw new Error(`已发布的题目必须完整：${issue}`);
+    }
+    return problems.map(p => p.id === id ? saved! : p);
+  });
+  return saved!;
+};
+
+/**
+ * Stores imported problems as drafts for review. Missing topic or difficulty fall back to
+ * the defaults chosen in the import dialog. Returns the new drafts.
+ */
+export const importAuthoredProblems = async (
+  actor: User,
+  imported: ImportedProblem[],
+  defaults: { topic: string, difficulty: Difficulty }
+): Promise<AuthoredProblem[]> => {
+  assertCanAuthor(actor);
+  if (useRemoteApi()) return apiImportAuthoredProblems(imported, defaults);
+
+  const now = Date.now();
+  const drafts: AuthoredProblem[] = imported
+    .filter(p => p.content.trim())
+    .map(p => ({
+      id: createId(),
+      topic: p.topic && TOPICS.includes(p.topic) && p.topic !== "随机选题" ? p.topic : defaults.topic,
+      difficulty: p.difficulty && p.difficulty in DIFFICULTY_LABELS ? p.difficulty : defaults.difficulty,
+      level: p.level,
+      content: p.content.trim(),
+      standardSolution: p.standardSolution?.trim() || '',
+      feynmanExplanation: p.feynmanExplanation?.trim() || undefined,
+      finalAnswer: p.finalAnswer?.trim() || undefined,
+      source: p.source?.trim() || DEFAULT_SOURCE,
+      authorId: actor.id,
+      authorName: actor.name,
+      status: 'draft',
+      classIds: [],
+      createdAt: now,
+      updatedAt: now
+    }));
+  if (drafts.length === 0) throw new Error("文件中没有找到题目");
+
+  await updateAuthoredProblems(problems => [...problems, ...drafts]);
+  return drafts;
+};
+
+/**
+ * Publishes problems to the given classes, replacing their previous class list.
+ * Coaches may only publish to classes they are assigned to.
+ */
+export const publishAuthoredProblems = async (actor: User, ids: string[], classIds: string[]) => {
+  assertCanAuthor(actor);
+  if (classIds.length === 0) throw new Error("请至少选择一个班级");
+  if (useRemoteApi()) return apiPublishAuthoredProblems(ids, classIds);
+
+  const visible = new Set((await getVisibleClasses(actor)).map(c => c.id));
+  if (classIds.some(id => !visible.has(id))) throw new Error("无权限执行此操作");
+
+  await updateAuthoredProblems(problems => {
+    const selected = problems.filter(p => ids.includes(p.id));
+    if (selected.some(p => !canEdit(actor, p))) throw new Error("无权限执行此操作");
+    selected.forEach((p, i) => {
+      const issue = getPublishIssue(p);
+      if (issue) throw new Error(`第 ${i + 1} 道所选题目无法发布：${issue}`);
+    });
+    const now = Date.now();
+    return problems.map(p => ids.includes(p.id) ? { ...p, status: 'published', classIds, updatedAt: now } : p);
+  });
+};
+
+/**
+ * Withdraws problems back to drafts. Problems already in students' notebooks are unaffected.
+ */
+export const unpublishAuthoredProblems = async (actor: User, ids: string[]) => {
+  assertCanAuthor(actor);
+  if (useRemoteApi()) return apiUnpublishAuthoredProblems(ids);
+
+  await updateAuthoredProblems(problems => {
+    if (problems.some(p => ids.includes(p.id) && !canEdit(actor, p))) throw new Error("无权限执行此操作");
+    const now = Date.now();
+    return problems.map(p => ids.includes(p.id) ? { ...p, status: 'draft', classIds: [], updatedAt: now } : p);
+  });
+};
+
+export const deleteAuthoredProblems = async (actor: User, ids: string[]) => {
+  assertCanAuthor(actor);
+  if (useRemoteApi()) return apiDeleteAuthoredProblems(ids);
+
+  await updateAuthoredProblems(problems => {
+    if (problems.some(p => ids.includes(p.id) && !canEdit(actor, p))) throw new Error("无权限执行此操作");
+    return problems.filter(p => !ids.includes(p.id));
+  });
+};
+
+// --- Import: LaTeX ---
+// Problems are \begin{problem}...\end{problem} environments; the solution, feynman and
+// answer environments that follow belong to the problem before them. Optional metadata
+// goes in the problem's optional argument:
+//
+//   \begin{problem}[topic=极限与连续性, difficulty=Medium, level=final, source=第十届决赛]
+//   求 \(\lim_{x\to 0} \frac{\sin x}{x}\)。
+//   \end{problem}
+//   \begin{solution} ... \end{solution}
+
+const TEX_ENVIRONMENT = /\\begin\{(problem|solution|feynman|answer)\}(?:\[([^\]]*)\])?([\s\S]*?)\\end\{\1\}/g;
+
+const TEX_FIELDS: Record<string, keyof AuthoredProblemFields> = {
+  problem: 'content',
+  solution: 'standardSolution',
+  feynman: 'feynmanExplanation',
+  answer: 'finalAnswer'
+};
+
+// Display environments KaTeX renders inside $$...$$, mapped to their inner-environment form
+const DISPLAY_ENVIRONMENTS: Record<string, string | null> = {
+  'equation': null, 'equation*': null, 'displaymath': null,
+  'align': 'aligned', 'align*': 'aligned',
+  'gather': 'gathered', 'gather*': 'gathered'
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Converts the LaTeX commonly found in problem sets to the Markdown + $math$ that the
+ * problem display renders. Math is left alone; only text-mode markup is translated.
+ */
+export const texToMarkdown = (tex: string): string => {
+  let text = tex
+    .replace(/(?<!\\)\\\(/g, '$').replace(/(?<!\\)\\\)/g, '$')
+    // The lookbehind keeps line breaks with spacing, \\[2pt], intact
+    .replace(/(?<!\\)\\\[/g, '\n$$$$\n').replace(/(?<!\\)\\\]/g, '\n$$$$\n');
+
+  Object.entries(DISPLAY_ENVIRONMENTS).forEach(([env, inner]) => {
+    const pattern = new RegExp(`\\\\begin\\{${escapeRegExp(env)}\\}([\\s\\S]*?)\\\\end\\{${escapeRegExp(env)}\\}`, 'g');
+    text = text.replace(pattern, (_, body: string) => {
+      const math = body.replace(/\\label\{[^}]*\}|\\nonumber|\\notag/g, '').trim();
+      return inner ? `\n$$\n\\begin{${inner}}${math}\\end{${inner}}\n$$\n` : `\n$$\n${math}\n$$\n`;
+    });
+  });
+
+  // Odd parts are math and stay untouched
+  const parts = text.split(/(\$\$[\s\S]*?\$\$|\$[^$]*\$)/);
+  const converted = parts.map((part, i) => {
+    if (i % 2 === 1) return part;
+    let list: 'enumerate' | 'itemize' = 'itemize';
+    return part
+      .replace(/\\begin\{(enumerate|itemize)\}(?:\[[^\]]*\])?|\\end\{(?:enumerate|itemize)\}|\\item\b\s*/g, (match, env) => {
+        if (env) list = env;
+        if (!match.startsWith('\\item')) return '\n';
+        return list === 'enumerate' ? '\n1. ' : '\n- ';
+      })
+      .replace(/\\textbf\{([^}]*)\}/g, '**$1**')
+      .replace(/\\(?:emph|textit)\{([^}]*)\}/g, '*$1*')
+      .replace(/\\(?:noindent|medskip|bigskip|smallskip)\b\s*/g, '')
+      .replace(/\\par\b\s*/g, '\n\n')
+      .replace(/\\\\(?:\[[^\]]*\])?/g, '  \n')
+      .replace(/~/g, ' ');
+  }).join('');
+
+  // Indented LaTeX source would otherwise turn into Markdown code blocks
+  return converted
+    .split('\n').map(line => line.trim()).join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\n\n+(?=(?:1\.|-) )/g, '\n')
+    .trim();
+};
+
+const parseTexOptions = (options: string | undefined): Partial<AuthoredProblemFields> => {
+  const fields: Record<string, string> = {};
+  if (!options?.trim()) return fields;
+  // A bare optional argument, as in \begin{problem}[2019 预赛], is the source
+  if (!options.includes('=')) return { source: options.trim() };
+  options.split(/[,，]/).forEach(pair => {
+    const [key, ...value] = pair.split('=');
+    if (key.trim() && value.length > 0) fields[key.trim()] = value.join('=').trim();
+  });
+  return fields;
+};
+
+export const parseTexProblems = (tex: string): ImportedProblem[] => {
+  // Drop comments, keeping escaped \%
+  const source = tex.replace(/\r\n/g, '\n').replace(/(^|[^\\])%.*$/gm, '$1');
+  const problems: ImportedProblem[] = [];
+
+  for (const match of source.matchAll(TEX_ENVIRONMENT)) {
+    const [, env, options, body] = match;
+    if (env === 'problem') {
+      problems.push({ ...parseTexOptions(options), content: texToMarkdown(body) });
+      continue;
+    }
+    const current = problems[problems.length - 1];
+    if (!current) throw new Error(`\\begin{${env}} 出现在第一道题目之前`);
+    (current as Record<string, unknown>)[TEX_FIELDS[env]] = texToMarkdown(body);
+  }
+
+  if (problems.length === 0) throw new Error("没有找到 \\begin{problem}...\\end{problem} 环境");
+  return problems;
+};
+
+// --- Import: JSON ---
+// The bank's JSON format (an array, or { "problems": [...] }); ids are ignored and only
+// the content is required, the rest can be completed during review.
+
+export const parseJsonProblems = (json: string): ImportedProblem[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("JSON 格式错误");
+  }
+  const entries = Array.isArray(data) ? data : data?.problems;
+  if (!Array.isArray(entries)) throw new Error('应为题目数组或 { "problems": [...] }');
+
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  return entries.map((entry, i) => {
+    const content = text(entry?.content);
+    if (!content) throw new Error(`第 ${i + 1} 道题缺少 content 字段`);
+    return {
+      content,
+      topic: text(entry.topic),
+      difficulty: text(entry.difficulty) as Difficulty | undefined,
+      level: entry.level === 'preliminary' || entry.level === 'final' ? entry.level : undefined,
+      standardSolution: text(entry.standardSolution),
+      feynmanExplanation: text(entry.feynmanExplanation),
+      finalAnswer: text(entry.finalAnswer),
+      source: text(entry.source)
+    };
+  });
+};
+
+export const parseProblemFile = (fileName: string, content: string): ImportedProblem[] =>
+  fileName.toLowerCase().endsWith('.json') ? parseJsonProblems(content) : parseTexProblems(content);
@@ -0,0 +1,343 @@
+import { User, Problem, Class, Attempt, Assignment, HomeworkRecord } from '../types';
+import { SCHEMA_VERSION, migrateProblem, migrateUser } from './schemaMigrations';
+import {
+  getAllUsers,
+  replaceAllUsers,
+  getUserMistakes,
+  saveUserMistakes,
+  getLastSession,
+  saveLastSession
+} from './authService';
+import { getClasses, replaceAllClasses } from './classService';
+import { getAttempts, replaceAttempts } from './attemptService';
+import { getAssignments, getHomework, replaceAllAssignments, replaceHomework } from './assignmentService';
+import { clearActiveExam } from './examService';
+import { recordAuditEvent } from './auditService';
+import { useRemoteApi } from './storageService';
+import { apiAnalyzeRestore, apiExportClassBackup, apiRestoreBackup } from './apiClient';
+
+// --- Backup & Restore ---
+// A backup is one self-contained JSON document: accounts, mistakes with their full
+// chat histories and attachments (as data URLs), attempt logs, homework and each user's last session.
+
+const BACKUP_FORMAT = 'feynmanmath-backup';
+
+export type BackupScope = 'class' | 'student';
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupEntry {
+  user: User;
+  mistakes: Problem[];
+  lastSession: Problem | null;
+  attempts?: Attempt[]; // Absent in archives from before the attempt log existed
+  homework?: HomeworkRecord[]; // Absent in archives from before homework existed
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  scope: BackupScope;
+  exportedAt: number;
+  entries: BackupEntry[];
+  classes?: Class[]; // Class backups only; absent in archives from before classes existed
+  assignments?: Assignment[]; // Class backups only; absent in archives from before homework existed
+}
+
+// Where the archive is being restored: the whole class (coach) or one student's own account
+export type RestoreTarget = { scope: 'class', currentUser: User } | { scope: 'student', user: User };
+
+export interface RestoreReport {
+  usernameConflicts: string[];                            // Archive usernames owned by a different existing account
+  problemConflicts: { username: string, problemId: string }[]; // Problems present both locally and in the archive
+  newUsers: number;
+  newProblems: number;
+}
+
+// --- Export ---
+
+const buildEntry = async (user: User): Promise<BackupEntry> => ({
+  user,
+  mistakes: await getUserMistakes(user.id),
+  lastSession: await getLastSession(user.id),
+  attempts: await getAttempts(user.id),
+  homework: await getHomework(user.id)
+});
+
+export const exportClassBackup = async (actor: User): Promise<BackupArchive> => {
+  // Class archives hold every account, so with the 'http' backend only the server builds them
+  if (useRemoteApi()) return apiExportClassBackup();
+
+  const users = await getAllUsers();
+  await recordAuditEvent('data_export', { actor }, `全部数据备份（${users.length} 个账号）`);
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    scope: 'class',
+    exportedAt: Date.now(),
+    entries: await Promise.all(users.map(buildEntry)),
+    classes: await getClasses(),
+    assignments: await getAssignments()
+  };
+};
+
+export const exportStudentBackup = async (user: User): Promise<BackupArchive> => {
+  // A student's own archive never carries password material
+  const { passwordSalt, passwordIterations, ...account } = user;
+  const entry = await buildEntry({ ...account, passwordHash: '' });
+  await recordAuditEvent('data_export', { actor: user, target: user }, "个人数据备份");
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    scope: 'student',
+    exportedAt: Date.now(),
+    entries: [entry]
+  };
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateProblem = (problem: unknown, where: string): Problem => {
+  if (!isObject(problem) || typeof problem.id !== 'string' || typeof problem.content !== 'string' || typeof problem.topic !== 'string') {
+    throw new Error(`备份文件格式无效：${where} 中的题目缺少 id/topic/content`);
+  }
+  return migrateProblem(problem);
+};
+
+/**
+ * Parses and validates an archive, upgrading older record shapes on the way.
+ * Throws with a user-facing message when the file is not a usable backup.
+ */
+export const parseBackupArchive = (text: string): BackupArchive => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("备份文件格式无效：不是合法的 JSON 文件");
+  }
+
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT || !Array.isArray(raw.entries)) {
+    throw new Error("备份文件格式无效：不是 FeynmanMath 备份");
+  }
+  if (typeof raw.schemaVersion !== 'number' || raw.schemaVersion > SCHEMA_VERSION) {
+    throw new Error("该备份由更新版本的 FeynmanMath 导出，请先升级应用");
+  }
+  if (raw.scope !== 'class' && raw.scope !== 'student') {
+    throw new Error("备份文件格式无效：未知的备份范围");
+  }
+
+  const entries = raw.entries.map((entry: unknown, i: number): BackupEntry => {
+    if (!isObject(entry) || !isObject(entry.user) || !Array.isArray(entry.mistakes)) {
+      throw new Error(`备份文件格式无效：第 ${i + 1} 条记录不完整`);
+    }
+    const user = entry.user;
+    if (typeof user.id !== 'string' || typeof user.username !== 'string' || typeof user.name !== 'string'
+        || !['student', 'coach', 'admin'].includes(user.role)) {
+      throw new Error(`备份文件格式无效：第 ${i + 1} 条记录的账号信息不完整`);
+    }
+    const where = `账号 ${user.username}`;
+    return {
+      user: migrateUser(user),
+      mistakes: entry.mistakes.map((m: unknown) => validateProblem(m, where)),
+      lastSession: entry.lastSession ? validateProblem(entry.lastSession, where) : null,
+      attempts: Array.isArray(entry.attempts)
+        ? entry.attempts.filter((a: unknown) => isObject(a) && typeof a.id === 'string' && isObject(a.problem) && Array.isArray(a.chat))
+        : undefined,
+      homework: Array.isArray(entry.homework)
+        ? entry.homework.filter((h: unknown) => isObject(h) && typeof h.assignmentId === 'string' && typeof h.itemId === 'string' && isObject(h.problem))
+        : undefined
+    };
+  });
+
+  let classes: Class[] | undefined;
+  if (raw.classes !== undefined) {
+    if (!Array.isArray(raw.classes) || !raw.classes.every((c: unknown) =>
+        isObject(c) && typeof c.id === 'string' && typeof c.name === 'string' && Array.isArray(c.coachIds))) {
+      throw new Error("备份文件格式无效：班级信息不完整");
+    }
+    classes = raw.classes;
+  }
+  let assignments: Assignment[] | undefined;
+  if (raw.assignments !== undefined) {
+    if (!Array.isArray(raw.assignments) || !raw.assignments.every((a: unknown) =>
+        isObject(a) && typeof a.id === 'string' && Array.isArray(a.items) && Array.isArray(a.studentIds) && Array.isArray(a.classIds))) {
+      throw new Error("备份文件格式无效：作业信息不完整");
+    }
+    assignments = raw.assignments;
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: raw.schemaVersion,
+    scope: raw.scope,
+    exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+    entries,
+    classes,
+    assignments
+  };
+};
+
+// --- Restore ---
+
+/**
+ * A class archive holds every account and a personal one a single account, so restoring
+ * either into the other target (a personal archive in replace mode would delete every
+ * other account) is refused.
+ */
+export const checkRestoreScope = (archive: BackupArchive, target: RestoreTarget) => {
+  if (archive.scope === target.scope) return;
+  throw new Error(archive.scope === 'student'
+    ? "这是个人数据备份，不能用于恢复全部数据"
+    : "这是全部数据备份，不能用于恢复个人数据");
+};
+
+// Pairs each archive entry with the local account its data will be written to
+interface RestorePlanItem {
+  entry: BackupEntry;
+  targetUser: User;
+  isNewUser: boolean;
+}
+
+const planStudentRestore = (archive: BackupArchive, user: User, report: RestoreReport): RestorePlanItem[] => {
+  const entry = archive.entries.find(e => e.user.username === user.username) || archive.entries[0];
+  if (!entry) throw new Error("备份中没有该账号的数据");
+
+  if (entry.user.username !== user.username) {
+    report.usernameConflicts.push(entry.user.username);
+  }
+  return [{ entry, targetUser: user, isNewUser: false }];
+};
+
+const planClassRestore = (archive: BackupArchive, users: User[], report: RestoreReport): RestorePlanItem[] => {
+  return archive.entries.map(entry => {
+    const existing = users.find(u => u.username === entry.user.username);
+    if (!existing) {
+      report.newUsers++;
+      return { entry, targetUser: entry.user, isNewUser: true };
+    }
+    if (existing.id !== entry.user.id) {
+      report.usernameConflicts.push(entry.user.username);
+    }
+    return { entry, targetUser: existing, isNewUser: false };
+  });
+};
+
+const buildPlan = async (archive: BackupArchive, target: RestoreTarget) => {
+  const report: RestoreReport = { usernameConflicts: [], problemConflicts: [], newUsers: 0, newProblems: 0 };
+  const plan = target.scope === 'student'
+    ? planStudentRestore(archive, target.user, report)
+    : planClassRestore(archive, await getAllUsers(), report);
+
+  for (const item of plan) {
+    const localMistakes = item.isNewUser ? [] : await getUserMistakes(item.targetUser.id);
+    item.entry.mistakes.forEach(m => {
+      if (localMistakes.some(lm => lm.id === m.id)) {
+        report.problemConflicts.push({ username: item.targetUser.username, problemId: m.id });
+      } else {
+        report.newProblems++;
+      }
+    });
+  }
+
+  return { plan, report };
+};
+
+/**
+ * Dry run: reports what restoring the archive would add and where it collides.
+ */
+export const analyzeRestore = async (archive: BackupArchive, target: RestoreTarget): Promise<RestoreReport> => {
+  checkRestoreScope(archive, target);
+  if (target.scope === 'class' && useRemoteApi()) return apiAnalyzeRestore(archive);
+  return (await buildPlan(archive, target)).report;
+};
+
+/**
+ * Restores an archive.
+ * - merge: keeps every local account, problem, attempt and homework record; archive ones
+ *   are only added when their id is new, and conflicting usernames feed into the existing account.
+ * - replace: archive data overwrites local data. For a class restore the account and
+ *   class and assignment lists become the archive's (the administrator performing the restore is always
+ *   kept) and users missing from the archive lose their mistakes, attempt log, homework, mock exam and session.
+ * A student restoring their own archive against the server gets no homework back: the server
+ * only records homework as it is worked on, so scores cannot be brought in from a file.
+ */
+export const restoreBackup = async (archive: BackupArchive, mode: RestoreMode, target: RestoreTarget): Promise<RestoreReport> => {
+  checkRestoreScope(archive, target);
+  if (target.scope === 'class' && useRemoteApi()) return apiRestoreBackup(archive, mode);
+
+  const { plan, report } = await buildPlan(archive, target);
+  const actor = target.scope === 'class' ? target.currentUser : target.user;
+  const restoreHomework = !useRemoteApi();
+
+  if (target.scope === 'class') {
+    const users = await getAllUsers();
+    if (mode === 'replace') {
+      const archiveUsers = archive.entries.map(e => e.user);
+      const keepSelf = archiveUsers.some(u => u.username === target.currentUser.username)
+        ? []
+        : users.filter(u => u.id === target.currentUser.id);
+      const nextUsers = [...archiveUsers, ...keepSelf];
+
+      for (const removed of users.filter(u => !nextUsers.some(n => n.id === u.id))) {
+        await saveUserMistakes(removed.id, []);
+        await saveLastSession(removed.id, null);
+        await replaceAttempts(removed.id, []);
+        await replaceHomework(removed.id, []);
+        await clearActiveExam(removed.id);
+        await recordAuditEvent('user_delete', { actor, target: removed }, "备份覆盖恢复时移除");
+      }
+      await replaceAllUsers(nextUsers);
+      if (archive.classes) await replaceAllClasses(archive.classes);
+      if (archive.assignments) await replaceAllAssignments(archive.assignments);
+
+      // In replace mode every entry is written to its own archive account
+      plan.forEach(item => item.targetUser = item.entry.user);
+    } else {
+      await replaceAllUsers([...users, ...plan.filter(p => p.isNewUser).map(p => p.entry.user)]);
+      if (archive.classes) {
+        const classes = await getClasses();
+        await replaceAllClasses([...classes, ...archive.classes.filter(ac => !classes.some(c => c.id === ac.id))]);
+      }
+      if (archive.assignments) {
+        const assignments = await getAssignments();
+        await replaceAllAssignments([...assignments, ...archive.assignments.filter(aa => !assignments.some(a => a.id === aa.id))]);
+      }
+    }
+  }
+
+  for (const { entry, targetUser, isNewUser } of plan) {
+    if (mode === 'replace' || isNewUser) {
+      await saveUserMistakes(targetUser.id, entry.mistakes);
+      await saveLastSession(targetUser.id, entry.lastSession);
+      if (entry.attempts) await replaceAttempts(targetUser.id, entry.attempts);
+      if (entry.homework && restoreHomework) await replaceHomework(targetUser.id, entry.homework);
+      continue;
+    }
+
+    const localMistakes = await getUserMistakes(targetUser.id);
+    const added = entry.mistakes.filter(m => !localMistakes.some(lm => lm.id === m.id));
+    await saveUserMistakes(targetUser.id, [...localMistakes, ...added]);
+
+    if (entry.attempts) {
+      const localAttempts = await getAttempts(targetUser.id);
+      const newAttempts = entry.attempts.filter(a => !localAttempts.some(la => la.id === a.id));
+      await replaceAttempts(targetUser.id, [...localAttempts, ...newAttempts]);
+    }
+
+    if (entry.homework && restoreHomework) {
+      const localHomework = await getHomework(targetUser.id);
+      const newHomework = entry.homework.filter(h => !localHomework.some(lh => lh.assignmentId === h.assignmentId && lh.itemId === h.itemId));
+      await replaceHomework(targetUser.id, [...localHomework, ...newHomework]);
+    }
+
+    if (entry.lastSession && !(await getLastSession(targetUser.id))) {
+      await saveLastSession(targetUser.id, entry.lastSession);
+    }
+  }
+
+  await recordAuditEvent('data_restore', { actor, target: target.scope === 'student' ? target.user : undefined },
+    `${mode === 'replace' ? '覆盖' : '合并'}恢复${target.scope === 'class' ? '全部数据' : '个人数据'}：备份含 ${archive.entries.length} 个账号，新增 ${report.newUsers} 个账号、${report.newProblems} 道错题`);
+  return report;
+};
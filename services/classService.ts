@@ -0,0 +1,135 @@
+import { Class, User } from '../types';
+import { getStorage, useRemoteApi } from './storageService';
+import { getStudents, setClassMembers, transferStudents } from './authService';
+import {
+  apiGetClasses,
+  apiCreateClass,
+  apiUpdateClass,
+  apiDeleteClass,
+  apiSetClassStudents,
+  apiMoveStudentsToClass
+} from './apiClient';
+
+// --- Classes & Role-Scoped Access ---
+// An administrator creates classes and assigns coaches to them. A coach only sees
+// the students enrolled in their own classes; students may belong to several classes.
+// With the 'http' backend the server runs these checks and only returns visible classes.
+
+const CLASSES_KEY = 'feynman_classes';
+
+const saveClasses = async (classes: Class[]) => {
+  await getStorage().set(CLASSES_KEY, classes);
+};
+
+const assertAdmin = (actor: User) => {
+  if (actor.role !== 'admin') throw new Error("无权限执行此操作");
+};
+
+const findClass = (classes: Class[], classId: string) => {
+  const cls = classes.find(c => c.id === classId);
+  if (!cls) throw new Error("班级不存在");
+  return cls;
+};
+
+export const getClasses = async (): Promise<Class[]> => {
+  if (useRemoteApi()) return apiGetClasses();
+  return (await getStorage().get<Class[]>(CLASSES_KEY)) || [];
+};
+
+export const replaceAllClasses = async (classes: Class[]) => {
+  await saveClasses(classes);
+};
+
+/**
+ * Classes the user may manage: all of them for an administrator, otherwise
+ * those the coach is assigned to.
+ */
+export const getVisibleClasses = async (user: User): Promise<Class[]> => {
+  const classes = await getClasses();
+  if (user.role === 'admin') return classes;
+  if (user.role === 'coach') return classes.filter(c => c.coachIds.includes(user.id));
+  return [];
+};
+
+/**
+ * Students the user may see. Students without a class are only visible to administrators.
+ */
+export const getStudentsForUser = async (user: User): Promise<User[]> => {
+  const students = await getStudents();
+  if (user.role === 'admin') return students;
+
+  const visibleIds = new Set((await getVisibleClasses(user)).map(c => c.id));
+  return students.filter(s => (s.classIds || []).some(id => visibleIds.has(id)));
+};
+
+export const createClass = async (actor: User, name: string, coachIds: string[]): Promise<Class> => {
+  assertAdmin(actor);
+  if (useRemoteApi()) return apiCreateClass(name, coachIds);
+
+  const classes = await getClasses();
+  if (classes.some(c => c.name === name)) throw new Error("班级名称已存在");
+
+  const cls: Class = {
+    id: `class_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    coachIds,
+    createdAt: Date.now()
+  };
+  await saveClasses([...classes, cls]);
+  return cls;
+};
+
+export const updateClass = async (actor: User, classId: string, changes: Partial<Pick<Class, 'name' | 'coachIds'>>) => {
+  assertAdmin(actor);
+  if (useRemoteApi()) return apiUpdateClass(classId, changes);
+
+  const classes = await getClasses();
+  const cls = findClass(classes, classId);
+  if (changes.name && classes.some(c => c.id !== classId && c.name === changes.name)) {
+    throw new Error("班级名称已存在");
+  }
+  await saveClasses(classes.map(c => c.id === cls.id ? { ...c, ...changes } : c));
+};
+
+/**
+ * Deletes a class. Its students keep their accounts and data, they only leave the class.
+ */
+export const deleteClass = async (actor: User, classId: string) => {
+  assertAdmin(actor);
+  if (useRemoteApi()) return apiDeleteClass(classId);
+
+  const classes = await getClasses();
+  findClass(classes, classId);
+  await setClassMembers(classId, []);
+  await saveClasses(classes.filter(c => c.id !== classId));
+};
+
+/**
+ * Sets the student list of a class. Allowed for administrators and the class's coaches;
+ * a coach may only enroll students they already manage, so enrolling cannot be used
+ * to reach another coach's students.
+ */
+export const setClassStudents = async (actor: User, classId: string, studentIds: string[]) => {
+  if (useRemoteApi()) return apiSetClassStudents(classId, studentIds);
+
+  const cls = findClass(await getClasses(), classId);
+  if (actor.role !== 'admin') {
+    const managed = new Set((await getStudentsForUser(actor)).map(s => s.id));
+    if (!cls.coachIds.includes(actor.id) || studentIds.some(id => !managed.has(id))) {
+      throw new Error("无权限执行此操作");
+    }
+  }
+  await setClassMembers(classId, studentIds);
+};
+
+/**
+ * Moves students into another class. They leave every class the actor can see,
+ * so a coach cannot remove students from classes belonging to other coaches.
+ */
+export const moveStudentsToClass = async (actor: User, studentIds: string[], classId: string) => {
+  if (useRemoteApi()) return apiMoveStudentsToClass(studentIds, classId);
+
+  const visible = await getVisibleClasses(actor);
+  if (!visible.some(c => c.id === classId)) throw new Error("无权限执行此操作");
+  await transferStudents(studentIds, visible.map(c => c.id), classId);
+};
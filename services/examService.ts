@@ -0,0 +1,211 @@
+import { BankProblem, CompetitionLevel, Difficulty, Exam, ExamQuestion, GradingVerdict, Message, Problem, ProblemSourceMode, Sender, TOPICS } from '../types';
+import { getStorage } from './storageService';
+import { ProblemBankError, drawProblem } from './problemBank';
+import { gradeSolution } from './geminiService';
+import { ERROR_CATEGORY_LABELS, VERDICT_LABELS, isConfident } from './gradingService';
+import { logFinishedAttempts } from './attemptService';
+
+// --- Mock Exam ---
+// A timed paper in the format of the national competition: one problem per topic (in
+// random order), answered without the tutor and graded only after submission. Missed
+// problems go to the notebook and every question to the attempt log, each with a chat
+// of the handed-in answer and the grader's verdict, so statistics treat them like practice.
+
+const EXAM_PREFIX = 'feynman_exam_';
+const RANDOM_TOPIC = '随机选题';
+
+export const EXAM_TOTAL_POINTS = 100;
+export const EXAM_SIZES = [4, 5, 10];          // Divide the total points evenly
+export const EXAM_DURATIONS = [60, 90, 150];   // Minutes; the preliminary round takes 150
+export const DEFAULT_EXAM_SIZE = 5;
+export const DEFAULT_EXAM_MINUTES = 150;
+
+// Share of a question's points each verdict earns
+const VERDICT_SHARE: Record<GradingVerdict, number> = {
+  correct: 1,
+  partial: 0.5,
+  incorrect: 0,
+  no_attempt: 0
+};
+
+export interface ExamSetup {
+  size: number;
+  minutes: number;
+  difficulty: Difficulty;
+  level: CompetitionLevel;
+  sourceMode: ProblemSourceMode;
+  seenBankIds: Set<string>;
+  classProblems: BankProblem[];
+}
+
+const examKey = (userId: string) => `${EXAM_PREFIX}${userId}`;
+
+export const getActiveExam = async (userId: string): Promise<Exam | null> => {
+  return (await getStorage().get<Exam>(examKey(userId))) || null;
+};
+
+export const saveActiveExam = async (userId: string, exam: Exam) => {
+  await getStorage().set(examKey(userId), exam);
+};
+
+export const clearActiveExam = async (userId: string) => {
+  await getStorage().remove(examKey(userId));
+};
+
+/**
+ * Topics of the paper: every topic once before any repeats, shuffled.
+ */
+const pickExamTopics = (size: number): string[] => {
+  const topics = TOPICS.filter(t => t !== RANDOM_TOPIC);
+  const picked: string[] = [];
+  while (picked.length < size) {
+    const round = [...topics].sort(() => Math.random() - 0.5);
+    picked.push(...round.slice(0, size - picked.length));
+  }
+  return picked;
+};
+
+/**
+ * Draws the problems one by one (onProgress gets the number drawn so far) and starts
+ * the clock once the paper is complete. With the bank as the only source, a topic the
+ * bank lacks is replaced by a random bank problem.
+ */
+export const createExam = async (setup: ExamSetup, onProgress?: (drawn: number) => void): Promise<Exam> => {
+  const examId = `exam_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const seenIds = new Set(setup.seenBankIds);
+  const options = { difficulty: setup.difficulty, level: setup.level };
+  const questions: ExamQuestion[] = [];
+
+  for (const topic of pickExamTopics(setup.size)) {
+    let problem: Problem;
+    try {
+      problem = await drawProblem(topic, options, setup.sourceMode, seenIds, setup.classProblems);
+    } catch (error) {
+      if (!(error instanceof ProblemBankError)) throw error;
+      problem = await drawProblem(RANDOM_TOPIC, options, setup.sourceMode, seenIds, setup.classProblems);
+    }
+    if (problem.bankId) seenIds.add(problem.bankId);
+
+    questions.push({
+      // Problems drawn in the same millisecond would share their timestamp id
+      problem: { ...problem, id: `${examId}_${questions.length + 1}` },
+      points: EXAM_TOTAL_POINTS / setup.size,
+      answerText: ''
+    });
+    onProgress?.(questions.length);
+  }
+
+  const startedAt = Date.now();
+  return {
+    id: examId,
+    difficulty: setup.difficulty,
+    level: setup.level,
+    startedAt,
+    endsAt: startedAt + setup.minutes * 60 * 1000,
+    questions
+  };
+};
+
+export const hasAnswer = (question: ExamQuestion): boolean =>
+  !!question.answerText.trim() || !!question.attachment;
+
+export const scoreQuestion = (question: ExamQuestion): number =>
+  question.grading ? question.points * VERDICT_SHARE[question.grading.verdict] : 0;
+
+export const formatPoints = (points: number): string =>
+  Number.isInteger(points) ? String(points) : points.toFixed(1);
+
+export const scoreExam = (exam: Exam): number =>
+  exam.questions.reduce((sum, q) => sum + scoreQuestion(q), 0);
+
+/**
+ * Answered questions whose grading failed, to be graded again.
+ */
+export const getUngradedQuestions = (exam: Exam): ExamQuestion[] =>
+  exam.questions.filter(q => hasAnswer(q) && !q.grading);
+
+/**
+ * The question as a practice problem: the answer as the student's message, and the
+ * verdict as the tutor's reply.
+ */
+const toExamProblem = (question: ExamQuestion, exam: Exam): Problem => {
+  const { problem, grading } = question;
+  const chatHistory: Message[] = [];
+
+  if (hasAnswer(question)) {
+    chatHistory.push({
+      id: `${problem.id}_answer`,
+      sender: Sender.User,
+      text: question.answerText.trim(),
+      attachment: question.attachment
+    });
+  }
+
+  const lines = [grading
+    ? `模拟考试评分：${VERDICT_LABELS[grading.verdict]}（${formatPoints(scoreQuestion(question))}/${formatPoints(question.points)} 分）`
+    : '模拟考试中未作答。'];
+  if (grading?.firstFaultyStep) lines.push(`第一处错误：${grading.firstFaultyStep}`);
+  if (grading?.errorCategory && grading.errorCategory !== 'none') lines.push(`错误类型：${ERROR_CATEGORY_LABELS[grading.errorCategory]}`);
+  lines.push('可以在这里继续向导师提问，弄清这道题。');
+
+  chatHistory.push({
+    id: `${problem.id}_grading`,
+    sender: Sender.AI,
+    text: lines.join('\n\n'),
+    grading
+  });
+
+  return { ...problem, timestamp: exam.submittedAt, chatHistory };
+};
+
+/**
+ * A question is missed unless the grader confidently accepted it. Low-confidence
+ * verdicts still count for the score, but do not decide about the notebook.
+ */
+const isMissed = (question: ExamQuestion): boolean =>
+  !hasAnswer(question) || (isConfident(question.grading) && question.grading.verdict !== 'correct');
+
+/**
+ * Grades the answered questions that have no grading yet (onProgress gets the number
+ * processed so far). A question whose grading fails stays ungraded for a later pass.
+ * Questions settled in this pass are written to the attempt log; the missed ones are
+ * returned as notebook entries for the caller to save.
+ */
+export const gradeExam = async (
+  userId: string,
+  exam: Exam,
+  onProgress?: (graded: number, total: number) => void
+): Promise<{ exam: Exam, missed: Problem[] }> => {
+  const pending = getUngradedQuestions(exam);
+  const graded = new Map<ExamQuestion, ExamQuestion>();
+
+  for (const [i, question] of pending.entries()) {
+    try {
+      const grading = await gradeSolution(question.problem, [], question.attachment, question.answerText.trim() || undefined);
+      graded.set(question, { ...question, grading });
+    } catch (error) {
+      console.error("Exam Grading Error:", error);
+    }
+    onProgress?.(i + 1, pending.length);
+  }
+
+  const updated: Exam = {
+    ...exam,
+    gradedAt: exam.gradedAt || Date.now(),
+    questions: exam.questions.map(q => graded.get(q) || q)
+  };
+  // Unanswered questions are settled by the first pass, graded ones when they get their grading
+  const settled = updated.questions.filter((q, i) => graded.has(exam.questions[i]) || (!exam.gradedAt && !hasAnswer(q)));
+
+  const problems = settled.map(q => toExamProblem(q, updated));
+  await logFinishedAttempts(userId, problems.map(problem => ({
+    problem,
+    startedAt: exam.startedAt,
+    endedAt: exam.submittedAt || Date.now()
+  })));
+
+  return {
+    exam: updated,
+    missed: problems.filter((_, i) => isMissed(settled[i]))
+  };
+};
@@ -0,0 +1,72 @@
+import { GoogleGenAI, Content, GenerateContentResponse, Schema, Type } from "@google/genai";
+import { LLMProvider, LLMRequest, LLMSchema } from './llmProvider';
+import { AIError } from './aiErrors';
+
+// --- Google Gemini ---
+
+const SCHEMA_TYPES: Record<LLMSchema['type'], Type> = {
+  object: Type.OBJECT,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY
+};
+
+const toGeminiSchema = (schema: LLMSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items && toGeminiSchema(schema.items),
+  properties: schema.properties && Object.fromEntries(
+    Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+  )
+});
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// Gemini reports blocked content as an empty reply with a reason attached, not as an HTTP error
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason))) {
+    throw new AIError('safety', undefined, response.promptFeedback?.blockReason || finishReason);
+  }
+};
+
+export const createGeminiProvider = (model: string, apiKey?: string): LLMProvider => {
+  // Created on first use so that a missing key only matters when Gemini is actually called
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  const toParams = (request: LLMRequest, signal?: AbortSignal) => ({
+    model,
+    contents: request.contents as string | Content[],
+    config: {
+      temperature: request.temperature,
+      abortSignal: signal,
+      ...(request.responseSchema ? {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(request.responseSchema)
+      } : {})
+    }
+  });
+
+  return {
+    name: 'gemini',
+    async generateText(request: LLMRequest, signal?: AbortSignal): Promise<string> {
+      const response = await getClient().models.generateContent(toParams(request, signal));
+      assertNotBlocked(response);
+      return response.text || '';
+    },
+    async *streamText(request: LLMRequest, signal?: AbortSignal): AsyncIterable<string> {
+      const stream = await getClient().models.generateContentStream(toParams(request, signal));
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
@@ -1,81 +1,171 @@
 
-import { GoogleGenAI, Content, Part, Type } from "@google/genai";
-import { Message, Sender, Problem, Attachment } from "../types";
-import { FEYNMAN_TUTOR_PROMPT, PROBLEM_GENERATOR_PROMPT } from "../constants";
+import { Attempt, Message, Sender, Problem, Attachment, Grading, GradingVerdict, ErrorCategory, Difficulty, CompetitionLevel } from "../types";
+import { DIFFICULTY_PROMPTS, FEYNMAN_TUTOR_PROMPT, GRADING_PROMPT, LEVEL_PROMPTS, PROBLEM_GENERATOR_PROMPT } from "../constants";
+import { LLMMessage, LLMPart, LLMSchema, getLLMConfig, getLLMProvider } from "./llmProvider";
+import { AIError, classifyAIError, withRetry } from "./aiErrors";
+import { ERROR_CATEGORY_LABELS, countErrorCategories } from "./gradingService";
+import { summarizeAttempts } from "./attemptService";
+import { NUMERIC_CHECK_SCHEMA, NumericCheck, verifyProblem } from "./problemVerifier";
 
-// Initialize Gemini Client
-// CRITICAL: process.env.API_KEY is assumed to be available.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Prompts live here; which model answers them is decided by the configured LLMProvider
+// (Gemini by default, see services/llmProvider.ts). Failures are thrown as AIError
+// (services/aiErrors.ts) for the UI to explain; nothing here invents fallback content.
+
+const PROBLEM_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    problemStatement: {
+      type: 'string',
+      description: "The formatted math problem text in Markdown/LaTeX.",
+    },
+    source: {
+      type: 'string',
+      description: "The competition style this original problem imitates, e.g. '(AI 原创 · 仿全国大学生数学竞赛非数学类预赛)'. Never a made-up edition number.",
+    },
+    feynmanExplanation: {
+      type: 'string',
+      description: "A step-by-step Feynman technique explanation of the concept and problem logic, without just giving the answer immediately if possible, but explaining the 'Why'.",
+    },
+    standardSolution: {
+      type: 'string',
+      description: "The complete, correct mathematical derivation and answer.",
+    },
+    finalAnswer: {
+      type: 'string',
+      description: "The final result only, in LaTeX. Empty for proof problems.",
+    },
+    numericCheck: NUMERIC_CHECK_SCHEMA,
+  },
+  required: ["problemStatement", "source", "feynmanExplanation", "standardSolution"],
+};
+
+// With verification on, a problem that fails it is regenerated this many times
+// before it is shown with an "unverified" flag
+const MAX_REGENERATIONS = 1;
+
+const VERDICTS: GradingVerdict[] = ['correct', 'partial', 'incorrect', 'no_attempt'];
+const ERROR_CATEGORIES: ErrorCategory[] = ['conceptual', 'computational', 'logical', 'incomplete', 'notation', 'none'];
+
+const GRADING_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    verdict: {
+      type: 'string',
+      enum: VERDICTS,
+      description: "Whether the student's latest submission solves the problem.",
+    },
+    firstFaultyStep: {
+      type: 'string',
+      description: "The first incorrect step of the submission, quoted or summarized. Empty if none.",
+    },
+    errorCategory: {
+      type: 'string',
+      enum: ERROR_CATEGORIES,
+      description: "The kind of mistake made in firstFaultyStep.",
+    },
+    confidence: {
+      type: 'number',
+      description: "Confidence in the verdict, from 0 to 1.",
+    },
+  },
+  required: ["verdict", "errorCategory", "confidence"],
+};
+
+const EMPTY_REPLY = "Empty response from AI";
+
+export interface ProblemOptions {
+  difficulty?: Difficulty;  // Defaults to 'Medium'
+  level?: CompetitionLevel; // Defaults to 'preliminary'
+  easierThan?: Problem;     // "降级挑战": a more basic problem on the same knowledge point
+  variantOf?: Problem;      // "换题再练": the same structure with different numbers or functions
+}
+
+const EASIER: Record<Difficulty, Difficulty> = { Hard: 'Medium', Medium: 'Easy', Easy: 'Easy' };
 
 /**
  * Generates a math problem based on the selected topic.
  * Now returns a JSON structure containing the problem, Feynman explanation, and standard solution.
+ * Throws an AIError when the model cannot be reached or its reply is not a usable problem.
+ * When LLM_VERIFY_PROBLEMS is on, the problem is self-checked first (services/problemVerifier.ts).
  */
-export const generateMathProblem = async (topic: string): Promise<Problem> => {
-  try {
-    const prompt = `${PROBLEM_GENERATOR_PROMPT}\nRequested Topic: ${topic}`;
-    
-    // Configure response schema for structured output
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            problemStatement: {
-              type: Type.STRING,
-              description: "The formatted math problem text in Markdown/LaTeX.",
-            },
-            source: {
-              type: Type.STRING,
-              description: "The source/origin string of the problem, e.g. '(第十二届全国大学生数学竞赛非数学类预赛)'.",
-            },
-            feynmanExplanation: {
-              type: Type.STRING,
-              description: "A step-by-step Feynman technique explanation of the concept and problem logic, without just giving the answer immediately if possible, but explaining the 'Why'.",
-            },
-            standardSolution: {
-              type: Type.STRING,
-              description: "The complete, correct mathematical derivation and answer.",
-            },
-          },
-          required: ["problemStatement", "source", "feynmanExplanation", "standardSolution"],
-        },
-      }
-    });
+export const generateMathProblem = async (topic: string, options: ProblemOptions = {}): Promise<Problem> => {
+  if (!getLLMConfig().verifyProblems) return (await generateCandidate(topic, options)).problem;
+
+  let attempt = await generateCandidate(topic, options);
+  for (let i = 0; ; i++) {
+    const verification = await verifyProblem(attempt.problem, attempt.numericCheck);
+    if (verification.status !== 'unverified' || i >= MAX_REGENERATIONS) {
+      return { ...attempt.problem, verification };
+    }
+    console.warn("Generated problem failed verification, regenerating:", verification.note);
+    attempt = await generateCandidate(topic, options);
+  }
+};
+
+/**
+ * Generates the easier, linked follow-up offered as option (A) by the tutor.
+ */
+export const generateEasierProblem = (problem: Problem): Promise<Problem> =>
+  generateMathProblem(problem.topic, { level: problem.level, easierThan: problem });
+
+/**
+ * Generates a fresh variant of a notebook problem, so that redoing it does not come down
+ * to remembering the old answer.
+ */
+export const generateVariantProblem = (problem: Problem): Promise<Problem> =>
+  generateMathProblem(problem.topic, { difficulty: problem.difficulty, level: problem.level, variantOf: problem });
+
+const generateCandidate = async (topic: string, options: ProblemOptions): Promise<{ problem: Problem, numericCheck?: NumericCheck }> => {
+  const { easierThan, variantOf, level = easierThan?.level || variantOf?.level || 'preliminary' } = options;
+  const difficulty = options.difficulty || (easierThan ? EASIER[easierThan.difficulty] : 'Medium');
+
+  let prompt = `${PROBLEM_GENERATOR_PROMPT}\nRequested Topic: ${topic}\nRequested Difficulty: ${DIFFICULTY_PROMPTS[difficulty]}\nCompetition Round: ${LEVEL_PROMPTS[level]}`;
+  if (easierThan) {
+    prompt += `\n\nThe student could not solve the problem below. Generate a noticeably simpler problem that tests the SAME knowledge point, as a stepping stone back to it:\n${easierThan.content}`;
+  }
+  if (variantOf) {
+    prompt += `\n\nThe student got the problem below wrong and has since seen its solution. Generate a VARIANT of it: the same structure and solution method, but with different numbers, functions or setting, so that the remembered answer does not carry over. Do not copy the statement:\n${variantOf.content}`;
+  }
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("Empty response from AI");
+  // Parsing happens inside the retry so that a broken JSON reply is asked for again
+  const parsed = await withRetry(async signal => {
+    const jsonText = await getLLMProvider().generateText({
+      task: 'problem',
+      contents: prompt,
+      responseSchema: PROBLEM_SCHEMA
+    }, signal);
+    if (!jsonText) throw new AIError('malformed', undefined, EMPTY_REPLY);
 
     const parsed = JSON.parse(jsonText);
-    
-    return {
+    if (typeof parsed?.problemStatement !== 'string' || !parsed.problemStatement.trim()) {
+      throw new AIError('malformed', undefined, "Problem JSON has no problemStatement");
+    }
+    return parsed;
+  });
+
+  return {
+    problem: {
       id: Date.now().toString(),
       topic: topic,
       content: parsed.problemStatement,
       source: parsed.source,
       feynmanExplanation: parsed.feynmanExplanation,
       standardSolution: parsed.standardSolution,
-      difficulty: 'Medium'
-    };
-  } catch (error) {
-    console.error("Gemini Generate Error:", error);
-    // Fallback for error cases
-    return {
-       id: Date.now().toString(),
-       topic: topic,
-       content: "生成题目时遇到问题，请重试。",
-       difficulty: 'Medium'
-    };
-  }
+      finalAnswer: typeof parsed.finalAnswer === 'string' && parsed.finalAnswer.trim() ? parsed.finalAnswer.trim() : undefined,
+      difficulty,
+      level,
+      origin: 'generated',
+      parentProblemId: easierThan?.id,
+      variantOfId: variantOf?.id
+    },
+    numericCheck: parsed.numericCheck
+  };
 };
 
 /**
- * Helper to process an attachment into a Gemini Part.
+ * Helper to process an attachment into a message part.
  */
-const processAttachmentToPart = (attachment: Attachment): Part | null => {
+const processAttachmentToPart = (attachment: Attachment): LLMPart | null => {
   // If it's a LaTeX file, we treat it as text content.
   if (attachment.isText && attachment.data) {
     return { text: `\n[Student Attached LaTeX/Text File Content]:\n${attachment.data}\n` };
@@ -99,150 +189,237 @@ const processAttachmentToPart = (attachment: Attachment): Part | null => {
 };
 
 /**
- * Analyzes the student's solution (text + attachment) and provides feedback.
+ * Builds the tutor conversation: hidden instructor context, the chat so far and the new input.
  */
-export const evaluateSolution = async (
+const buildTutorContents = (
   currentProblem: Problem,
   history: Message[],
   newAttachment?: Attachment,
   newText?: string
-): Promise<string> => {
-  try {
-    const contents: Content[] = [];
+): LLMMessage[] => {
+  const contents: LLMMessage[] = [];
 
-    // Prepare hidden context from pre-generated data
-    const hiddenContext = `
-    [INSTRUCTOR DATA - HIDDEN FROM STUDENT]
-    The following data was pre-generated for this problem. 
-    If the student explicitly chooses "Option B" (Feynman Method) or asks for the Feynman explanation, OUTPUT the content below verbatim (or adapted slightly for flow).
-    
-    --- PRE-GENERATED FEYNMAN EXPLANATION ---
-    ${currentProblem.feynmanExplanation || "(Not available, generate dynamically)"}
-    -----------------------------------------
+  // Prepare hidden context from pre-generated data
+  const hiddenContext = `
+  [INSTRUCTOR DATA - HIDDEN FROM STUDENT]
+  The following data was pre-generated for this problem. 
+  If the student explicitly chooses "Option B" (Feynman Method) or asks for the Feynman explanation, OUTPUT the content below verbatim (or adapted slightly for flow).
+  
+  --- PRE-GENERATED FEYNMAN EXPLANATION ---
+  ${currentProblem.feynmanExplanation || "(Not available, generate dynamically)"}
+  -----------------------------------------
 
-    If the student explicitly chooses "Option C" (Direct Answer), use the content below:
-    --- PRE-GENERATED STANDARD SOLUTION ---
-    ${currentProblem.standardSolution || "(Not available, generate dynamically)"}
-    ---------------------------------------
-    `;
+  If the student explicitly chooses "Option C" (Direct Answer), use the content below:
+  --- PRE-GENERATED STANDARD SOLUTION ---
+  ${currentProblem.standardSolution || "(Not available, generate dynamically)"}
+  ---------------------------------------
+  ${currentProblem.verification?.status === 'unverified' ? `
+  WARNING: this solution FAILED automatic verification (${currentProblem.verification.note || "answer mismatch"}).
+  Double-check it yourself before relying on it, and tell the student if you find it wrong.
+  ` : ''}`;
 
-    // 1. Add System Instruction as the first part of the context
-    contents.push({
-      role: 'user',
-      parts: [{ text: `System Context: ${FEYNMAN_TUTOR_PROMPT}\n\nThe current problem is:\n${currentProblem.content}\n\n${hiddenContext}` }]
-    });
+  // 1. Add System Instruction as the first part of the context
+  contents.push({
+    role: 'user',
+    parts: [{ text: `System Context: ${FEYNMAN_TUTOR_PROMPT}\n\nThe current problem is:\n${currentProblem.content}\n\n${hiddenContext}` }]
+  });
+
+  contents.push({
+    role: 'model',
+    parts: [{ text: "Understood. I will act as the Feynman Tutor. I have the pre-generated explanation and solution ready if requested." }]
+  });
+
+  return [...contents, ...buildConversation(history, newAttachment, newText)];
+};
+
+/**
+ * Maps the chat so far plus the new input to provider-neutral messages.
+ */
+const buildConversation = (
+  history: Message[],
+  newAttachment?: Attachment,
+  newText?: string
+): LLMMessage[] => {
+  const contents: LLMMessage[] = [];
+
+  // 2. Map existing app history to provider-neutral messages
+  history.forEach(msg => {
+    const parts: LLMPart[] = [];
+
+    if (msg.attachment) {
+      const part = processAttachmentToPart(msg.attachment);
+      if (part) parts.push(part);
+    }
+
+    if (msg.text) {
+      parts.push({ text: msg.text });
+    }
 
     contents.push({
-      role: 'model',
-      parts: [{ text: "Understood. I will act as the Feynman Tutor. I have the pre-generated explanation and solution ready if requested." }]
+      role: msg.sender === Sender.User ? 'user' : 'model',
+      parts: parts
     });
+  });
 
-    // 2. Map existing app history to Gemini format
-    history.forEach(msg => {
-      const parts: Part[] = [];
-      
-      // Handle legacy image support
-      if (msg.image && !msg.attachment) {
-        const base64Data = msg.image.split(',')[1] || msg.image;
-        parts.push({
-          inlineData: {
-            mimeType: 'image/jpeg',
-            data: base64Data
-          }
-        });
-      }
-
-      // Handle new attachment structure
-      if (msg.attachment) {
-        const part = processAttachmentToPart(msg.attachment);
-        if (part) parts.push(part);
-      }
+  // 3. Add the new user input
+  const newParts: LLMPart[] = [];
+  
+  if (newAttachment) {
+     const part = processAttachmentToPart(newAttachment);
+     if (part) newParts.push(part);
+  }
 
-      if (msg.text) {
-        parts.push({ text: msg.text });
-      }
+  if (newText) {
+    newParts.push({ text: newText });
+  }
 
+  if (newParts.length > 0) {
       contents.push({
-        role: msg.sender === Sender.User ? 'user' : 'model',
-        parts: parts
+          role: 'user',
+          parts: newParts
       });
-    });
+  }
 
-    // 3. Add the new user input
-    const newParts: Part[] = [];
-    
-    if (newAttachment) {
-       const part = processAttachmentToPart(newAttachment);
-       if (part) newParts.push(part);
-    }
+  return contents;
+};
 
-    if (newText) {
-      newParts.push({ text: newText });
-    }
+/**
+ * Grades the student's latest submission against the problem's standard solution.
+ * Runs separately from the tutor reply, which stays free text (and can stream).
+ */
+export const gradeSolution = async (
+  currentProblem: Problem,
+  history: Message[],
+  newAttachment?: Attachment,
+  newText?: string,
+  signal?: AbortSignal
+): Promise<Grading> => {
+  const contents: LLMMessage[] = [
+    {
+      role: 'user',
+      parts: [{ text: `System Context: ${GRADING_PROMPT}\n\nThe problem is:\n${currentProblem.content}\n\nReference solution:\n${currentProblem.standardSolution || "(Not available, solve the problem yourself)"}` }]
+    },
+    {
+      role: 'model',
+      parts: [{ text: "Understood. I will grade the student's latest message and reply with JSON only." }]
+    },
+    ...buildConversation(history, newAttachment, newText)
+  ];
 
-    if (newParts.length > 0) {
-        contents.push({
-            role: 'user',
-            parts: newParts
-        });
+  return withRetry(async attemptSignal => {
+    const jsonText = await getLLMProvider().generateText({
+      task: 'grading',
+      contents,
+      temperature: 0,
+      responseSchema: GRADING_SCHEMA
+    }, attemptSignal);
+    if (!jsonText) throw new AIError('malformed', undefined, EMPTY_REPLY);
+
+    const parsed = JSON.parse(jsonText);
+    if (!VERDICTS.includes(parsed?.verdict)) {
+      throw new AIError('malformed', undefined, `Unknown verdict: ${parsed?.verdict}`);
     }
+    const confidence = Number(parsed.confidence);
+    return {
+      verdict: parsed.verdict,
+      firstFaultyStep: typeof parsed.firstFaultyStep === 'string' && parsed.firstFaultyStep.trim() ? parsed.firstFaultyStep.trim() : undefined,
+      errorCategory: ERROR_CATEGORIES.includes(parsed.errorCategory) ? parsed.errorCategory : undefined,
+      confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0
+    };
+  }, { signal });
+};
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: contents,
-      config: {
-        temperature: 0.7,
-      }
-    });
+/**
+ * Streams the tutor's feedback on the student's solution (text + attachment); the verdict
+ * comes from gradeSolution, run next to it. onText receives the reply so far after every
+ * chunk. Aborting the signal stops generation and resolves with the partial text.
+ * Other failures reject with an AIError; text already passed to onText stays valid.
+ */
+export const streamSolutionFeedback = async (
+  currentProblem: Problem,
+  history: Message[],
+  onText: (textSoFar: string) => void,
+  signal: AbortSignal,
+  newAttachment?: Attachment,
+  newText?: string
+): Promise<string> => {
+  const contents = buildTutorContents(currentProblem, history, newAttachment, newText);
+  let text = '';
+  try {
+    // Only connecting and the first chunk are retried; restarting a reply the student
+    // is already reading would be worse than ending it with an error
+    const { iterator, first } = await withRetry(async attemptSignal => {
+      const iterator = getLLMProvider().streamText(
+        { task: 'tutor', contents, temperature: 0.7 },
+        AbortSignal.any([attemptSignal, signal])
+      )[Symbol.asyncIterator]();
+      const first = await iterator.next();
+      if (first.done) throw new AIError('malformed', undefined, EMPTY_REPLY);
+      return { iterator, first };
+    }, { signal });
 
-    return response.text || "I'm having trouble reading that. Could you try again?";
+    for (let result = first; !result.done; result = await iterator.next()) {
+      if (signal.aborted) break;
+      text += result.value;
+      onText(text);
+    }
+    return text;
 
   } catch (error) {
-    console.error("Gemini Evaluate Error:", error);
-    return "Sorry, I encountered an error analyzing your solution. Please check your API key or try again. Note: Word documents may not be fully supported by the AI model directly; try converting to PDF.";
+    if (signal.aborted) return text;
+    throw classifyAIError(error);
   }
 };
 
 /**
  * Generates a study plan based on mistake history.
  */
-export const generateStudyPlan = async (mistakes: Problem[]): Promise<string> => {
-  try {
-    if (mistakes.length === 0) {
-      return "目前没有错题记录，无法生成分析报告。请先进行练习。";
-    }
+export const generateStudyPlan = async (mistakes: Problem[], attempts: Attempt[] = []): Promise<string> => {
+  if (mistakes.length === 0) {
+    return "目前没有错题记录，无法生成分析报告。请先进行练习。";
+  }
 
-    // Aggregate topics locally first to help the model
-    const topicCounts: Record<string, number> = {};
-    mistakes.forEach(m => {
-      topicCounts[m.topic] = (topicCounts[m.topic] || 0) + 1;
-    });
+  // Aggregate topics locally first to help the model
+  const topicCounts: Record<string, number> = {};
+  mistakes.forEach(m => {
+    topicCounts[m.topic] = (topicCounts[m.topic] || 0) + 1;
+  });
+  const errorCounts = Object.fromEntries(
+    Object.entries(countErrorCategories(mistakes)).map(([category, count]) => [ERROR_CATEGORY_LABELS[category as ErrorCategory], count])
+  );
+  const topicAccuracy = Object.fromEntries(
+    Object.entries(summarizeAttempts(attempts).byTopic).map(([topic, t]) => [topic, `${t.solved}/${t.total} 题做对`])
+  );
 
-    const analysisPrompt = `
-      作为数学竞赛教练，请根据以下学生的错题统计数据生成一份简短的学情分析报告。
-      
-      错题分布统计:
-      ${JSON.stringify(topicCounts, null, 2)}
-
-      错题详情摘要:
-      ${mistakes.map(m => `- [${m.topic}] ${m.content.substring(0, 50)}...`).join('\n')}
-
-      请包含以下部分（使用Markdown格式）：
-      1. **薄弱点诊断**：指出哪些模块问题最大。
-      2. **复习建议**：针对薄弱模块给出具体的数学竞赛复习策略。
-      3. **重点关注**：接下来的训练重点。
-      
-      保持语气专业、鼓励，并针对大学生数学竞赛的特点给出建议。
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: analysisPrompt,
-    });
+  const analysisPrompt = `
+    作为数学竞赛教练，请根据以下学生的错题统计数据生成一份简短的学情分析报告。
+    
+    错题分布统计:
+    ${JSON.stringify(topicCounts, null, 2)}
 
-    return response.text || "无法生成报告。";
-  } catch (error) {
-    console.error("Gemini Study Plan Error:", error);
-    return "分析服务暂时不可用，请稍后再试。";
-  }
+    错误类型统计（来自阅卷判定）:
+    ${JSON.stringify(errorCounts, null, 2)}
+
+    全部练习的各模块正确率:
+    ${JSON.stringify(topicAccuracy, null, 2)}
+
+    错题详情摘要:
+    ${mistakes.map(m => `- [${m.topic}] ${m.content.substring(0, 50)}...`).join('\n')}
+
+    请包含以下部分（使用Markdown格式）：
+    1. **薄弱点诊断**：指出哪些模块问题最大。
+    2. **复习建议**：针对薄弱模块给出具体的数学竞赛复习策略。
+    3. **重点关注**：接下来的训练重点。
+    
+    保持语气专业、鼓励，并针对大学生数学竞赛的特点给出建议。
+  `;
+
+  return withRetry(async signal => {
+    const report = await getLLMProvider().generateText({
+      task: 'studyPlan',
+      contents: analysisPrompt
+    }, signal);
+    if (!report) throw new AIError('malformed', undefined, EMPTY_REPLY);
+    return report;
+  });
 };
@@ -0,0 +1,77 @@
+import { ErrorCategory, Grading, GradingVerdict, Message, Problem } from '../types';
+
+// --- Grading Verdicts ---
+// Every tutor reply to a submission carries a Grading (see geminiService.gradeSolution).
+// These helpers turn the verdicts in a chat into progress: notebook saving,
+// mastered problems, and error statistics for analytics and achievements.
+
+export const VERDICT_LABELS: Record<GradingVerdict, string> = {
+  correct: '正确',
+  partial: '部分正确',
+  incorrect: '错误',
+  no_attempt: '未作答'
+};
+
+export const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  conceptual: '概念理解',
+  computational: '计算错误',
+  logical: '推理漏洞',
+  incomplete: '步骤不完整',
+  notation: '书写与符号',
+  none: '无'
+};
+
+// Verdicts below this confidence are shown but do not change progress
+export const MIN_GRADING_CONFIDENCE = 0.5;
+
+// The tutor's give-up menu (see FEYNMAN_TUTOR_PROMPT) is recognised by its option (A)
+export const OPTION_MENU_MARKER = '降级挑战';
+
+export const isConfident = (grading?: Grading): grading is Grading =>
+  !!grading && grading.confidence >= MIN_GRADING_CONFIDENCE;
+
+/**
+ * Gradings in the chat, oldest first.
+ */
+export const getGradings = (messages: Message[] = []): Grading[] =>
+  messages.flatMap(m => (m.grading ? [m.grading] : []));
+
+export const getLatestGrading = (messages: Message[] = []): Grading | undefined => {
+  const gradings = getGradings(messages);
+  return gradings[gradings.length - 1];
+};
+
+/**
+ * A problem is solved once the grader confidently accepted a submission.
+ */
+export const isSolved = (problem: Problem): boolean =>
+  getGradings(problem.chatHistory).some(g => isConfident(g) && g.verdict === 'correct');
+
+/**
+ * A notebook entry is mastered once it was solved, or a fresh variant of it was
+ * (the variant's verdict is recorded on the entry as masteredAt).
+ */
+export const isMastered = (problem: Problem): boolean =>
+  !!problem.masteredAt || isSolved(problem);
+
+/**
+ * Whether a new verdict should put the problem in the notebook: the student missed it
+ * (or gave up) and has not already solved it earlier in the same chat.
+ */
+export const shouldSaveToNotebook = (history: Message[], grading: Grading): boolean =>
+  isConfident(grading) && grading.verdict !== 'correct' &&
+  !getGradings(history).some(g => isConfident(g) && g.verdict === 'correct');
+
+/**
+ * Counts the error categories behind the notebook's problems, using the latest
+ * confident non-correct verdict of each problem.
+ */
+export const countErrorCategories = (problems: Problem[]): Partial<Record<ErrorCategory, number>> => {
+  const counts: Partial<Record<ErrorCategory, number>> = {};
+  problems.forEach(p => {
+    const missed = getGradings(p.chatHistory).filter(g => isConfident(g) && g.verdict !== 'correct' && g.verdict !== 'no_attempt');
+    const category = missed[missed.length - 1]?.errorCategory;
+    if (category && category !== 'none') counts[category] = (counts[category] || 0) + 1;
+  });
+  return counts;
+};
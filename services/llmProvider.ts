@@ -0,0 +1,110 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openaiProvider';
+import { createMockProvider } from './mockProvider';
+
+// --- LLM Provider Abstraction ---
+// geminiService builds the prompts; an LLMProvider only turns a provider-neutral
+// request into text. Pick one in .env.local with LLM_PROVIDER.
+
+export type LLMProviderName = 'gemini' | 'openai' | 'mock';
+
+// What a request is for. Real models ignore it; the mock provider uses it to pick a script.
+export type LLMTask = 'problem' | 'verify' | 'tutor' | 'grading' | 'studyPlan';
+
+export type LLMPart =
+  | { text: string }
+  | { inlineData: { mimeType: string, data: string } }; // Base64 without the data: prefix
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  parts: LLMPart[];
+}
+
+// Subset of JSON Schema that every provider can express
+export interface LLMSchema {
+  type: 'object' | 'string' | 'number' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, LLMSchema>;
+  items?: LLMSchema;
+  enum?: string[];
+  required?: string[];
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  contents: string | LLMMessage[];
+  temperature?: number;
+  responseSchema?: LLMSchema; // When set, the reply must be JSON matching the schema
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  /** Failures are thrown as AIError where the provider can tell what went wrong. */
+  generateText(request: LLMRequest, signal?: AbortSignal): Promise<string>;
+  /** Yields the reply in pieces as they arrive. Aborting the signal ends the stream early. */
+  streamText(request: LLMRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  apiUrl?: string; // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  verifyProblems?: boolean; // Self-check generated problems before showing them (extra model call)
+}
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'gpt-4o-mini',
+  mock: 'mock'
+};
+
+let activeConfig: LLMConfig | null = null;
+let activeProvider: LLMProvider | null = null;
+
+export const getLLMConfig = (): LLMConfig => {
+  if (!activeConfig) {
+    const provider = (process.env.LLM_PROVIDER || 'gemini') as LLMProviderName;
+    activeConfig = {
+      provider,
+      model: process.env.LLM_MODEL || DEFAULT_MODELS[provider],
+      apiKey: provider === 'gemini' ? process.env.API_KEY : process.env.LLM_API_KEY,
+      apiUrl: process.env.LLM_API_URL,
+      verifyProblems: process.env.LLM_VERIFY_PROBLEMS === 'true'
+    };
+  }
+  return activeConfig;
+};
+
+export const createLLMProvider = (config: LLMConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiProvider(config.model, config.apiKey);
+    case 'openai':
+      if (!config.apiUrl) throw new Error("LLM_API_URL is required for the 'openai' provider");
+      return createOpenAICompatibleProvider(config.apiUrl, config.model, config.apiKey);
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+};
+
+/**
+ * Returns the model backend selected by config.
+ */
+export const getLLMProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider(getLLMConfig());
+  }
+  return activeProvider;
+};
+
+/**
+ * Overrides the env-based config and, optionally, the provider itself
+ * (e.g. a mock provider with a custom script).
+ */
+export const configureLLMProvider = (config: LLMConfig, provider?: LLMProvider) => {
+  activeConfig = config;
+  activeProvider = provider || null;
+};
@@ -0,0 +1,274 @@
+// --- Numeric Math Engine ---
+// Just enough numerics to sanity-check generated answers offline: a parser for plain-text
+// expressions in one variable, plus numeric limits, definite integrals and determinants.
+// Syntax: + - * / ^, implicit multiplication (2x, 3(x+1)), pi, e, inf, and the functions below.
+
+export type RealFunction = (x: number) => number;
+
+const FUNCTIONS: Record<string, RealFunction> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan,
+  cot: x => 1 / Math.tan(x), sec: x => 1 / Math.cos(x), csc: x => 1 / Math.sin(x),
+  asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  arcsin: Math.asin, arccos: Math.acos, arctan: Math.atan,
+  sinh: Math.sinh, cosh: Math.cosh, tanh: Math.tanh,
+  exp: Math.exp, ln: Math.log, log: Math.log, sqrt: Math.sqrt, abs: Math.abs
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI, e: Math.E, inf: Infinity, infinity: Infinity
+};
+
+type Token = { type: 'num', value: number } | { type: 'id', value: string } | { type: 'op', value: string };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  const input = source.replace(/\*\*/g, '^').replace(/π/g, 'pi').replace(/∞/g, 'inf');
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    const num = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(input.slice(i));
+    if (num) {
+      tokens.push({ type: 'num', value: parseFloat(num[0]) });
+      i += num[0].length;
+      continue;
+    }
+    const id = /^[A-Za-z]+/.exec(input.slice(i));
+    if (id) {
+      tokens.push({ type: 'id', value: id[0].toLowerCase() });
+      i += id[0].length;
+      continue;
+    }
+    if ('+-*/^(),'.includes(ch)) {
+      tokens.push({ type: 'op', value: ch });
+      i++;
+      continue;
+    }
+    throw new Error(`Unexpected character '${ch}' in expression`);
+  }
+  return tokens;
+};
+
+/**
+ * Compiles an expression into a function of `variable`. Throws on syntax errors
+ * and unknown names.
+ */
+export const compileExpression = (source: string, variable = 'x'): RealFunction => {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.type === 'op' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected '${value}' in expression`);
+    pos++;
+  };
+  // A factor directly followed by one of these is an implicit multiplication
+  const startsFactor = () => peek() !== undefined && (peek().type !== 'op' || peek().value === '(');
+
+  const parseExpr = (): RealFunction => {
+    let left = parseTerm();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[pos++].value;
+      const a = left, b = parseTerm();
+      left = op === '+' ? x => a(x) + b(x) : x => a(x) - b(x);
+    }
+    return left;
+  };
+
+  const parseTerm = (): RealFunction => {
+    let left = parseUnary();
+    while (isOp('*') || isOp('/') || startsFactor()) {
+      const op = isOp('/') ? '/' : '*';
+      if (isOp('*') || isOp('/')) pos++;
+      const a = left, b = parseUnary();
+      left = op === '*' ? x => a(x) * b(x) : x => a(x) / b(x);
+    }
+    return left;
+  };
+
+  const parseUnary = (): RealFunction => {
+    if (isOp('-')) {
+      pos++;
+      const a = parseUnary();
+      return x => -a(x);
+    }
+    if (isOp('+')) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // Right-associative and binds tighter than unary minus: -x^2 = -(x^2), 2^-1 = 0.5
+  const parsePower = (): RealFunction => {
+    const base = parsePrimary();
+    if (!isOp('^')) return base;
+    pos++;
+    const exponent = parseUnary();
+    return x => Math.pow(base(x), exponent(x));
+  };
+
+  const parsePrimary = (): RealFunction => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('Unexpected end of expression');
+
+    if (token.type === 'num') {
+      const value = token.value;
+      return () => value;
+    }
+    if (token.type === 'op') {
+      if (token.value !== '(') throw new Error(`Unexpected '${token.value}' in expression`);
+      const inner = parseExpr();
+      expect(')');
+      return inner;
+    }
+
+    const name = token.value;
+    if (name === variable) return x => x;
+    if (name in CONSTANTS) {
+      const value = CONSTANTS[name];
+      return () => value;
+    }
+    const fn = FUNCTIONS[name];
+    if (!fn) throw new Error(`Unknown name '${name}' in expression`);
+    expect('(');
+    const arg = parseExpr();
+    expect(')');
+    return x => fn(arg(x));
+  };
+
+  const compiled = parseExpr();
+  if (pos < tokens.length) throw new Error(`Unexpected '${peek().value}' in expression`);
+  return compiled;
+};
+
+/**
+ * Evaluates a constant expression such as "pi/2" or "-inf".
+ */
+export const evaluateConstant = (source: string): number => compileExpression(source)(0);
+
+export const approxEqual = (a: number, b: number, tolerance = 1e-4): boolean =>
+  a === b || Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(a), Math.abs(b));
+
+// --- Limits ---
+
+/**
+ * Numeric two-sided limit of f at `point` (may be ±Infinity). Returns null when the
+ * sides disagree or the values do not settle (e.g. 1/x^2 or ln(x) at 0). Uses Richardson extrapolation, so smooth
+ * removable singularities like (e^x - 1 - x)/x^2 at 0 come out to ~1e-8.
+ */
+export const numericLimit = (f: RealFunction, point: number): number | null => {
+  // Approach along t -> 0+ and extrapolate the sequence g(t), g(t/2)
+  const extrapolate = (g: (t: number) => number, t: number) => {
+    const coarse = g(t), fine = g(t / 2);
+    return 2 * fine - coarse;
+  };
+  // Still drifting between step sizes means no finite limit
+  const isDrifting = (g: (t: number) => number, estimate: number) =>
+    !approxEqual(estimate, extrapolate(g, 1e-3), 1e-2);
+
+  let estimate: number;
+  if (Number.isFinite(point)) {
+    const right = (t: number) => f(point + t);
+    const left = (t: number) => f(point - t);
+    const r = extrapolate(right, 1e-4), l = extrapolate(left, 1e-4);
+    const rightOk = Number.isFinite(r), leftOk = Number.isFinite(l);
+    if (rightOk && leftOk && !approxEqual(r, l, 1e-3)) return null;
+    if (!rightOk && !leftOk) return null;
+    if ((rightOk && isDrifting(right, r)) || (leftOk && isDrifting(left, l))) return null;
+    estimate = rightOk && leftOk ? (r + l) / 2 : rightOk ? r : l;
+  } else {
+    const sign = point > 0 ? 1 : -1;
+    const g = (t: number) => f(sign / t);
+    estimate = extrapolate(g, 1e-4);
+    if (!Number.isFinite(estimate) || isDrifting(g, estimate)) return null;
+  }
+  return Number.isFinite(estimate) ? estimate : null;
+};
+
+// --- Integrals ---
+
+// 5-point Gauss-Legendre nodes and weights on [-1, 1]; endpoints are never evaluated
+const GAUSS_NODES = [0, -0.5384693101056831, 0.5384693101056831, -0.9061798459386640, 0.9061798459386640];
+const GAUSS_WEIGHTS = [0.5688888888888889, 0.4786286704993665, 0.4786286704993665, 0.2369268850561891, 0.2369268850561891];
+
+const gauss = (f: RealFunction, a: number, b: number) => {
+  const mid = (a + b) / 2, half = (b - a) / 2;
+  return half * GAUSS_NODES.reduce((sum, node, i) => sum + GAUSS_WEIGHTS[i] * f(mid + half * node), 0);
+};
+
+// Largest disagreement still accepted on the smallest subintervals. Integrable endpoint
+// singularities such as 1/sqrt(x) shrink well below it; divergent ones such as 1/x do not.
+const MAX_DEPTH_SLACK = 1e-5;
+
+// NaN when the subdivision bottoms out without settling, i.e. the integral likely diverges
+const adaptiveGauss = (f: RealFunction, a: number, b: number, whole: number, tolerance: number, depth: number): number => {
+  const mid = (a + b) / 2;
+  const left = gauss(f, a, mid), right = gauss(f, mid, b);
+  const error = Math.abs(left + right - whole);
+  if (error <= tolerance) return left + right;
+  if (depth <= 0) return error <= MAX_DEPTH_SLACK * Math.max(1, Math.abs(whole)) ? left + right : NaN;
+  return adaptiveGauss(f, a, mid, left, tolerance / 2, depth - 1) +
+    adaptiveGauss(f, mid, b, right, tolerance / 2, depth - 1);
+};
+
+/**
+ * Numeric definite integral of f over [a, b]. Infinite bounds are mapped onto a finite
+ * interval. Returns null when the result is not a finite number or the integral does
+ * not converge (e.g. 1/x on [0, 1]).
+ */
+export const numericIntegral = (f: RealFunction, a: number, b: number): number | null => {
+  if (a === b) return 0;
+  if (a > b) {
+    const flipped = numericIntegral(f, b, a);
+    return flipped === null ? null : -flipped;
+  }
+
+  let g = f, lo = a, hi = b;
+  if (!Number.isFinite(a) && !Number.isFinite(b)) {
+    const left = numericIntegral(f, -Infinity, 0), right = numericIntegral(f, 0, Infinity);
+    return left === null || right === null ? null : left + right;
+  } else if (!Number.isFinite(b)) {
+    // x = a + t / (1 - t), t in [0, 1)
+    g = t => f(a + t / (1 - t)) / ((1 - t) * (1 - t));
+    lo = 0; hi = 1;
+  } else if (!Number.isFinite(a)) {
+    // x = b - t / (1 - t), t in [0, 1)
+    g = t => f(b - t / (1 - t)) / ((1 - t) * (1 - t));
+    lo = 0; hi = 1;
+  }
+
+  const result = adaptiveGauss(g, lo, hi, gauss(g, lo, hi), 1e-10, 30);
+  return Number.isFinite(result) ? result : null;
+};
+
+// --- Determinants ---
+
+/**
+ * Determinant by Gaussian elimination with partial pivoting.
+ */
+export const determinant = (matrix: number[][]): number => {
+  const n = matrix.length;
+  if (matrix.some(row => row.length !== n)) throw new Error('Matrix must be square');
+
+  const m = matrix.map(row => [...row]);
+  let det = 1;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (m[pivot][col] === 0) return 0;
+    if (pivot !== col) {
+      [m[pivot], m[col]] = [m[col], m[pivot]];
+      det = -det;
+    }
+    det *= m[col][col];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k < n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  return det;
+};
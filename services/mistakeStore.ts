@@ -0,0 +1,203 @@
+import { Problem, Message, Attachment, UserData } from '../types';
+import {
+  StorageAdapter,
+  getDatabase,
+  promisifyRequest,
+  userKeyRange,
+  PROBLEMS_STORE,
+  MESSAGES_STORE,
+  ATTACHMENTS_STORE
+} from './storageService';
+
+// --- Mistake Notebook Persistence ---
+// The notebook is the heaviest data we keep: every Problem carries its chat history,
+// and user messages carry base64 photos/PDFs. MistakeStore hides how it is stored.
+
+export interface MistakeStore {
+  load(userId: string): Promise<Problem[]>;
+  save(userId: string, mistakes: Problem[]): Promise<void>;
+  remove(userId: string): Promise<void>; // Purges the user's notebook entirely
+}
+
+/**
+ * Stores all users' notebooks as one JSON document (the original `feynman_data` layout).
+ * Used for the localStorage and HTTP backends.
+ */
+export const createDocumentMistakeStore = (adapter: StorageAdapter, dataKey: string): MistakeStore => ({
+  async load(userId: string): Promise<Problem[]> {
+    const allData = (await adapter.get<UserData[]>(dataKey)) || [];
+    const userData = allData.find(d => d.userId === userId);
+    return userData ? userData.mistakes : [];
+  },
+  async save(userId: string, mistakes: Problem[]): Promise<void> {
+    const allData = (await adapter.get<UserData[]>(dataKey)) || [];
+    const index = allData.findIndex(d => d.userId === userId);
+
+    if (index > -1) {
+      allData[index].mistakes = mistakes;
+    } else {
+      allData.push({ userId, mistakes });
+    }
+
+    await adapter.set(dataKey, allData);
+  },
+  async remove(userId: string): Promise<void> {
+    const allData = (await adapter.get<UserData[]>(dataKey)) || [];
+    await adapter.set(dataKey, allData.filter(d => d.userId !== userId));
+  }
+});
+
+// --- IndexedDB (normalised) ---
+
+type ProblemRecord = Omit<Problem, 'chatHistory'> & { userId: string; position: number };
+
+type MessageRecord = Omit<Message, 'attachment'> & {
+  userId: string;
+  problemId: string;
+  messageIndex: number;
+  hasAttachment: boolean;
+};
+
+type AttachmentRecord = Omit<Attachment, 'data'> & {
+  userId: string;
+  problemId: string;
+  messageIndex: number;
+  text?: string; // Raw text for .tex files
+  blob?: Blob;   // Binary payload for images, PDFs and documents
+};
+
+/**
+ * Decodes a data URL (or bare base64 string) into a Blob without going through fetch,
+ * so it can run synchronously before a transaction is opened.
+ */
+const dataUrlToBlob = (data: string, mimeType: string): Blob => {
+  const base64 = data.includes(',') ? data.split(',')[1] : data;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toAttachmentRecord = (
+  userId: string,
+  problemId: string,
+  messageIndex: number,
+  attachment: Attachment
+): AttachmentRecord => {
+  const { data, ...meta } = attachment;
+  const base = { ...meta, userId, problemId, messageIndex };
+  return attachment.isText
+    ? { ...base, text: data }
+    : { ...base, blob: dataUrlToBlob(data, attachment.mimeType) };
+};
+
+const fromAttachmentRecord = async (record: AttachmentRecord): Promise<Attachment> => {
+  const { userId, problemId, messageIndex, text, blob, ...meta } = record;
+  return { ...meta, data: blob ? await blobToDataUrl(blob) : text || '' };
+};
+
+/**
+ * Stores problems, messages and attachment blobs in separate IndexedDB object stores,
+ * which avoids the 5 MB localStorage quota and the base64 overhead for binary files.
+ */
+export const createIndexedDBMistakeStore = (): MistakeStore => ({
+  async load(userId: string): Promise<Problem[]> {
+    const db = await getDatabase();
+    const tx = db.transaction([PROBLEMS_STORE, MESSAGES_STORE, ATTACHMENTS_STORE], 'readonly');
+    const range = userKeyRange(userId);
+
+    const [problemRecords, messageRecords, attachmentRecords] = await Promise.all([
+      promisifyRequest(tx.objectStore(PROBLEMS_STORE).getAll(range)) as Promise<ProblemRecord[]>,
+      promisifyRequest(tx.objectStore(MESSAGES_STORE).getAll(range)) as Promise<MessageRecord[]>,
+      promisifyRequest(tx.objectStore(ATTACHMENTS_STORE).getAll(range)) as Promise<AttachmentRecord[]>
+    ]);
+
+    // Blob decoding is async, so it happens after the transaction has finished
+    const attachments = new Map<string, Attachment>();
+    for (const record of attachmentRecords) {
+      attachments.set(`${record.problemId}:${record.messageIndex}`, await fromAttachmentRecord(record));
+    }
+
+    const messagesByProblem = new Map<string, Message[]>();
+    messageRecords
+      .sort((a, b) => a.messageIndex - b.messageIndex)
+      .forEach(({ userId: _u, problemId, messageIndex, hasAttachment, ...message }) => {
+        const list = messagesByProblem.get(problemId) || [];
+        list.push({
+          ...message,
+          attachment: hasAttachment ? attachments.get(`${problemId}:${messageIndex}`) : undefined
+        });
+        messagesByProblem.set(problemId, list);
+      });
+
+    return problemRecords
+      .sort((a, b) => a.position - b.position)
+      .map(({ userId: _u, position, ...problem }) => ({
+        ...problem,
+        chatHistory: messagesByProblem.get(problem.id)
+      }));
+  },
+
+  async save(userId: string, mistakes: Problem[]): Promise<void> {
+    // Build every record (including Blob conversion) before opening the transaction,
+    // otherwise IndexedDB auto-commits while we are busy
+    const problemRecords: ProblemRecord[] = [];
+    const messageRecords: MessageRecord[] = [];
+    const attachmentRecords: AttachmentRecord[] = [];
+
+    mistakes.forEach((mistake, position) => {
+      const { chatHistory, ...problem } = mistake;
+      problemRecords.push({ ...problem, userId, position });
+
+      (chatHistory || []).forEach((msg, messageIndex) => {
+        const { attachment, ...message } = msg;
+        messageRecords.push({
+          ...message,
+          userId,
+          problemId: mistake.id,
+          messageIndex,
+          hasAttachment: !!attachment
+        });
+        if (attachment) {
+          attachmentRecords.push(toAttachmentRecord(userId, mistake.id, messageIndex, attachment));
+        }
+      });
+    });
+
+    const db = await getDatabase();
+    const tx = db.transaction([PROBLEMS_STORE, MESSAGES_STORE, ATTACHMENTS_STORE], 'readwrite');
+    const range = userKeyRange(userId);
+    const problemsStore = tx.objectStore(PROBLEMS_STORE);
+    const messagesStore = tx.objectStore(MESSAGES_STORE);
+    const attachmentsStore = tx.objectStore(ATTACHMENTS_STORE);
+
+    // Replace the user's notebook wholesale, mirroring the document store semantics
+    problemsStore.delete(range);
+    messagesStore.delete(range);
+    attachmentsStore.delete(range);
+    problemRecords.forEach(r => problemsStore.put(r));
+    messageRecords.forEach(r => messagesStore.put(r));
+    attachmentRecords.forEach(r => attachmentsStore.put(r));
+
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  },
+
+  async remove(userId: string): Promise<void> {
+    // Saving an empty notebook deletes every record in the user's key range
+    await this.save(userId, []);
+  }
+});
@@ -0,0 +1,127 @@
+import { Grading } from '../types';
+import { LLMProvider, LLMRequest } from './llmProvider';
+import { NumericCheck } from './problemVerifier';
+
+// --- Scripted Mock Provider ---
+// Deterministic stand-in for a real model so the app can be developed and tested
+// offline (LLM_PROVIDER=mock). Replies come from a script instead of a network call.
+
+export interface MockProblem {
+  topic?: string; // Served for requests mentioning this topic; omit to serve any topic
+  problemStatement: string;
+  source: string;
+  feynmanExplanation: string;
+  standardSolution: string;
+  finalAnswer?: string;
+  numericCheck?: NumericCheck;
+}
+
+export interface MockScript {
+  problems: MockProblem[];
+  tutorReplies: string[]; // The n-th student message gets reply n (wrapping around)
+  gradings: Grading[];    // Verdict for the n-th student message, paired with tutorReplies
+  studyPlan: string;
+  verifyAgrees: boolean;  // Whether the verification pass accepts generated answers
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  problems: [
+    {
+      topic: '极限与连续性',
+      problemStatement: '求极限 $$\\lim_{x \\to 0} \\frac{e^x - 1 - x}{x^2}.$$',
+      source: '(模拟题 · 离线题库)',
+      feynmanExplanation: '当 $x$ 很小时，$e^x$ 就像 $1 + x + \\frac{x^2}{2}$。分子减掉了前两项，剩下的主角就是 $\\frac{x^2}{2}$，所以比值趋近于 $\\frac{1}{2}$。',
+      standardSolution: '由泰勒展开 $e^x = 1 + x + \\frac{x^2}{2} + o(x^2)$，得 $$\\lim_{x \\to 0} \\frac{e^x - 1 - x}{x^2} = \\frac{1}{2}.$$',
+      finalAnswer: '$\\frac{1}{2}$',
+      numericCheck: { kind: 'limit', expression: '(exp(x) - 1 - x)/x^2', point: '0', expected: 0.5 }
+    },
+    {
+      topic: '导数及其应用',
+      problemStatement: '求函数 $f(x) = x^3 - 3x$ 在区间 $[-2, 2]$ 上的最大值与最小值。',
+      source: '(模拟题 · 离线题库)',
+      feynmanExplanation: '最值只可能出现在“山顶、谷底”或者区间端点。先用导数找山顶和谷底，再和端点比较高低。',
+      standardSolution: '$f\'(x) = 3x^2 - 3 = 0$ 得 $x = \\pm 1$。$f(-2) = -2$，$f(-1) = 2$，$f(1) = -2$，$f(2) = 2$。故最大值为 $2$，最小值为 $-2$。',
+      finalAnswer: '最大值 $2$，最小值 $-2$'
+    },
+    {
+      topic: '积分及其应用',
+      problemStatement: '计算定积分 $$\\int_0^{\\pi} x \\sin x \\, dx.$$',
+      source: '(模拟题 · 离线题库)',
+      feynmanExplanation: '被积函数是“多项式乘三角函数”，分部积分能把 $x$ 求导变成常数，让问题变简单。',
+      standardSolution: '令 $u = x$，$dv = \\sin x\\,dx$，则 $$\\int_0^{\\pi} x \\sin x\\,dx = [-x\\cos x]_0^{\\pi} + \\int_0^{\\pi} \\cos x\\,dx = \\pi.$$',
+      finalAnswer: '$\\pi$',
+      numericCheck: { kind: 'integral', expression: 'x*sin(x)', lower: '0', upper: 'pi', expected: Math.PI }
+    },
+    {
+      problemStatement: '设 $a_n = \\left(1 + \\frac{1}{n}\\right)^n$，证明数列 $\\{a_n\\}$ 单调递增且有上界。',
+      source: '(模拟题 · 离线题库)',
+      feynmanExplanation: '把 $a_n$ 看成 $n$ 个 $\\left(1 + \\frac{1}{n}\\right)$ 和一个 $1$ 的乘积，用均值不等式比较相邻两项。',
+      standardSolution: '由均值不等式 $\\sqrt[n+1]{1 \\cdot (1 + \\frac{1}{n})^n} < \\frac{1 + n(1 + \\frac{1}{n})}{n+1} = 1 + \\frac{1}{n+1}$，得 $a_n < a_{n+1}$；由二项式展开可得 $a_n < 3$。'
+    }
+  ],
+  tutorReplies: [
+    '我看到了你的解答。第一步的思路是对的，但请检查一下第二步：这里的等号为什么成立？试着用自己的话解释一下。',
+    '很好，你已经发现问题所在了！现在把修正后的推导完整写一遍，看看结论是否改变。',
+    '完全正确！你能否再思考一下：如果把题目中的条件稍作改变，结论还成立吗？'
+  ],
+  gradings: [
+    { verdict: 'incorrect', firstFaultyStep: '第二步的等号', errorCategory: 'logical', confidence: 0.8 },
+    { verdict: 'partial', firstFaultyStep: '修正后的推导缺少最后一步', errorCategory: 'incomplete', confidence: 0.7 },
+    { verdict: 'correct', errorCategory: 'none', confidence: 0.9 }
+  ],
+  studyPlan: '## 学情分析（模拟）\n\n1. **薄弱点诊断**：错题主要集中在出现次数最多的模块。\n2. **复习建议**：回顾相关定义与典型例题，每天完成 2 道同类练习。\n3. **重点关注**：书写完整的推导过程，避免跳步。',
+  verifyAgrees: true
+};
+
+const countUserTurns = (request: LLMRequest) =>
+  typeof request.contents === 'string' ? 1 : request.contents.filter(m => m.role === 'user').length;
+
+const promptText = (request: LLMRequest) =>
+  typeof request.contents === 'string'
+    ? request.contents
+    : request.contents.flatMap(m => m.parts).map(p => ('text' in p ? p.text : '')).join('\n');
+
+// Streams a few characters at a time, roughly like a real model
+const STREAM_CHUNK_SIZE = 4;
+const STREAM_DELAY_MS = 20;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createMockProvider = (script: Partial<MockScript> = {}): LLMProvider => {
+  const { problems, tutorReplies, gradings, studyPlan, verifyAgrees } = { ...DEFAULT_MOCK_SCRIPT, ...script };
+  let problemCalls = 0;
+
+  return {
+    name: 'mock',
+    async *streamText(request: LLMRequest, signal?: AbortSignal): AsyncIterable<string> {
+      const text = await this.generateText(request);
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+        await sleep(STREAM_DELAY_MS);
+        yield text.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    },
+    async generateText(request: LLMRequest): Promise<string> {
+      switch (request.task) {
+        case 'problem': {
+          const prompt = promptText(request);
+          const matching = problems.filter(p => p.topic && prompt.includes(p.topic));
+          const pool = matching.length > 0 ? matching : problems;
+          const { topic, ...problem } = pool[problemCalls++ % pool.length];
+          return JSON.stringify(problem);
+        }
+        case 'verify':
+          return JSON.stringify(verifyAgrees
+            ? { finalAnswer: '（模拟）与参考答案一致', agreesWithReference: true }
+            : { finalAnswer: '（模拟）另一个答案', agreesWithReference: false, issue: '模拟：独立求解结果不同' });
+        case 'tutor':
+          // The first user turn is the system context, so the student's n-th message is turn n+1
+          return tutorReplies[Math.max(0, countUserTurns(request) - 2) % tutorReplies.length];
+        case 'grading':
+          return JSON.stringify(gradings[Math.max(0, countUserTurns(request) - 2) % gradings.length]);
+        case 'studyPlan':
+          return studyPlan;
+      }
+    }
+  };
+};
@@ -0,0 +1,106 @@
+import { LLMMessage, LLMPart, LLMProvider, LLMRequest } from './llmProvider';
+import { AIError, kindFromStatus } from './aiErrors';
+
+// --- OpenAI-compatible Chat Completions ---
+// Works with OpenAI itself and self-hosted servers that mimic its API
+// (Ollama, vLLM, LM Studio, llama.cpp server...).
+
+type ChatContent = string | ({ type: 'text', text: string } | { type: 'image_url', image_url: { url: string } })[];
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: ChatContent;
+}
+
+const toChatContent = (parts: LLMPart[]): ChatContent => {
+  if (parts.every(p => 'text' in p)) {
+    return parts.map(p => (p as { text: string }).text).join('\n');
+  }
+  return parts.map(p => {
+    if ('text' in p) return { type: 'text' as const, text: p.text };
+    if (p.inlineData.mimeType.startsWith('image/')) {
+      return { type: 'image_url' as const, image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` } };
+    }
+    // Chat Completions has no generic file input; tell the model instead of failing
+    return { type: 'text' as const, text: `[学生上传了 ${p.inlineData.mimeType} 文件，当前模型无法读取，请让学生改为上传图片或文字]` };
+  });
+};
+
+const toChatMessages = (contents: string | LLMMessage[]): ChatMessage[] => {
+  if (typeof contents === 'string') return [{ role: 'user', content: contents }];
+  return contents.map(m => ({
+    role: m.role === 'model' ? 'assistant' : 'user',
+    content: toChatContent(m.parts)
+  }));
+};
+
+export const createOpenAICompatibleProvider = (apiUrl: string, model: string, apiKey?: string): LLMProvider => {
+  const base = apiUrl.replace(/\/+$/, '');
+
+  const post = async (request: LLMRequest, stream: boolean, signal?: AbortSignal): Promise<Response> => {
+    const messages = toChatMessages(request.contents);
+    if (request.responseSchema) {
+      // json_object mode is the lowest common denominator across compatible servers,
+      // so the schema itself travels in the prompt
+      messages.unshift({
+        role: 'system',
+        content: `Reply with a single JSON object matching this JSON Schema, and nothing else:\n${JSON.stringify(request.responseSchema)}`
+      });
+    }
+
+    const response = await fetch(`${base}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream,
+        temperature: request.temperature,
+        ...(request.responseSchema ? { response_format: { type: 'json_object' } } : {})
+      })
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new AIError(kindFromStatus(response.status), undefined, `LLM API error ${response.status}: ${body}`);
+    }
+    return response;
+  };
+
+  return {
+    name: 'openai',
+    async generateText(request: LLMRequest, signal?: AbortSignal): Promise<string> {
+      const data = await (await post(request, false, signal)).json();
+      const choice = data.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') throw new AIError('safety');
+      return choice?.message?.content || '';
+    },
+    async *streamText(request: LLMRequest, signal?: AbortSignal): AsyncIterable<string> {
+      const response = await post(request, true, signal);
+      if (!response.body) throw new AIError('malformed', undefined, "LLM API returned no stream");
+
+      // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const choice = JSON.parse(data).choices?.[0];
+          if (choice?.finish_reason === 'content_filter') throw new AIError('safety');
+          if (choice?.delta?.content) yield choice.delta.content;
+        }
+      }
+    }
+  };
+};
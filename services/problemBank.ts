@@ -0,0 +1,213 @@
+import { BankProblem, CompetitionLevel, Difficulty, Problem, ProblemOrigin, ProblemSourceMode, TOPICS } from '../types';
+import { ProblemOptions, generateMathProblem } from './geminiService';
+
+// --- Curated Problem Bank ---
+// Genuine past competition problems, shipped as static files in public/problem-bank/.
+// index.json lists the files to load; each file is either JSON (an array of BankProblem,
+// or { "problems": [...] }) or Markdown with one front-matter block per problem:
+//
+//   ---
+//   id: cmc1-pre-limit
+//   topic: 极限与连续性
+//   difficulty: Medium
+//   level: preliminary
+//   source: 第一届全国大学生数学竞赛预赛（非数学类）
+//   ---
+//   ## 题目
+//   ...
+//   ## 解答
+//   ...
+//   ## 费曼讲解   (optional)
+//   ## 答案       (optional)
+
+const BANK_BASE_URL = '/problem-bank/';
+const RANDOM_TOPIC = '随机选题';
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+const LEVELS: CompetitionLevel[] = ['preliminary', 'final'];
+
+export class ProblemBankError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProblemBankError';
+  }
+}
+
+// --- Parsing ---
+
+/**
+ * Checks one raw entry and returns it as a BankProblem. `where` names the entry in errors.
+ */
+export const validateBankProblem = (raw: any, where: string): BankProblem => {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  const missing = ['id', 'topic', 'difficulty', 'content', 'standardSolution', 'source'].filter(key => !text(raw?.[key]));
+  if (missing.length > 0) throw new ProblemBankError(`${where}: 缺少字段 ${missing.join(', ')}`);
+  if (!TOPICS.includes(raw.topic) || raw.topic === RANDOM_TOPIC) throw new ProblemBankError(`${where}: 未知主题 "${raw.topic}"`);
+  if (!DIFFICULTIES.includes(raw.difficulty)) throw new ProblemBankError(`${where}: 难度必须是 ${DIFFICULTIES.join('/')}`);
+  if (raw.level !== undefined && !LEVELS.includes(raw.level)) throw new ProblemBankError(`${where}: 赛事必须是 ${LEVELS.join('/')}`);
+
+  return {
+    id: text(raw.id)!,
+    topic: raw.topic,
+    difficulty: raw.difficulty,
+    level: raw.level,
+    content: text(raw.content)!,
+    standardSolution: text(raw.standardSolution)!,
+    feynmanExplanation: text(raw.feynmanExplanation),
+    finalAnswer: text(raw.finalAnswer),
+    source: text(raw.source)!
+  };
+};
+
+export const parseBankJson = (json: string, fileName: string): BankProblem[] => {
+  const data = JSON.parse(json);
+  const entries = Array.isArray(data) ? data : data?.problems;
+  if (!Array.isArray(entries)) throw new ProblemBankError(`${fileName}: 应为题目数组或 { "problems": [...] }`);
+  return entries.map((entry, i) => validateBankProblem(entry, `${fileName} #${i + 1}`));
+};
+
+const SECTION_FIELDS: Record<string, keyof BankProblem> = {
+  '题目': 'content', 'problem': 'content',
+  '解答': 'standardSolution', 'solution': 'standardSolution',
+  '费曼讲解': 'feynmanExplanation', 'feynman': 'feynmanExplanation',
+  '答案': 'finalAnswer', 'answer': 'finalAnswer'
+};
+
+export const parseBankMarkdown = (markdown: string, fileName: string): BankProblem[] => {
+  const text = markdown.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  const frontMatter = /^---[ \t]*\n([\s\S]*?)\n---[ \t]*$/gm;
+  const blocks = [...text.matchAll(frontMatter)];
+  if (blocks.length === 0) throw new ProblemBankError(`${fileName}: 没有找到以 --- 包围的题目信息`);
+
+  return blocks.map((block, i) => {
+    const entry: Record<string, string> = {};
+    block[1].split('\n').forEach(line => {
+      const match = /^\s*([A-Za-z]+)\s*:\s*(.*)$/.exec(line);
+      if (match) entry[match[1]] = match[2].trim();
+    });
+
+    const bodyEnd = i + 1 < blocks.length ? blocks[i + 1].index : text.length;
+    const body = text.slice(block.index! + block[0].length, bodyEnd);
+    // Split on "## heading" lines; odd indexes are headings, even ones their content
+    const parts = body.split(/^##[ \t]+(.+)$/m);
+    for (let k = 1; k < parts.length; k += 2) {
+      const field = SECTION_FIELDS[parts[k].trim().toLowerCase()];
+      if (field) entry[field] = parts[k + 1].trim();
+    }
+    return validateBankProblem(entry, `${fileName} #${i + 1}`);
+  });
+};
+
+// --- Loading ---
+
+let bankPromise: Promise<BankProblem[]> | null = null;
+
+const fetchText = async (fileName: string) => {
+  const response = await fetch(`${BANK_BASE_URL}${fileName}`);
+  if (!response.ok) throw new ProblemBankError(`${fileName}: HTTP ${response.status}`);
+  return response.text();
+};
+
+/**
+ * Loads every file listed in index.json once per page load. A broken file is
+ * reported and skipped so that the rest of the bank stays usable.
+ */
+export const loadProblemBank = (): Promise<BankProblem[]> => {
+  if (!bankPromise) {
+    bankPromise = (async () => {
+      let files: string[];
+      try {
+        files = JSON.parse(await fetchText('index.json')).files || [];
+      } catch (error) {
+        console.error("Problem bank index failed to load:", error);
+        return [];
+      }
+
+      const loaded = await Promise.all(files.map(async fileName => {
+        try {
+          const content = await fetchText(fileName);
+          return fileName.endsWith('.md') ? parseBankMarkdown(content, fileName) : parseBankJson(content, fileName);
+        } catch (error) {
+          console.error("Problem bank file skipped:", error);
+          return [];
+        }
+      }));
+
+      // First definition of an id wins
+      const byId = new Map<string, BankProblem>();
+      loaded.flat().forEach(p => {
+        if (!byId.has(p.id)) byId.set(p.id, p);
+      });
+      return [...byId.values()];
+    })();
+  }
+  return bankPromise;
+};
+
+// --- Drawing Problems ---
+
+export const bankProblemToProblem = (entry: BankProblem, origin: ProblemOrigin = 'bank'): Problem => ({
+  id: Date.now().toString(),
+  topic: entry.topic,
+  content: entry.content,
+  source: entry.source,
+  feynmanExplanation: entry.feynmanExplanation,
+  standardSolution: entry.standardSolution,
+  finalAnswer: entry.finalAnswer,
+  difficulty: entry.difficulty,
+  level: entry.level,
+  origin,
+  bankId: entry.id
+});
+
+/**
+ * Picks a bank problem for the topic (null topic = any), preferring unseen problems that
+ * match difficulty and round, then unseen ones of any difficulty, then repeats.
+ */
+export const pickBankProblem = (
+  bank: BankProblem[],
+  topic: string | null,
+  options: ProblemOptions,
+  seenIds: Set<string> = new Set()
+): BankProblem | null => {
+  const onTopic = bank.filter(p => !topic || p.topic === topic);
+  const unseen = onTopic.filter(p => !seenIds.has(p.id));
+  const matches = (p: BankProblem) =>
+    (!options.difficulty || p.difficulty === options.difficulty) && (!options.level || (p.level || 'preliminary') === options.level);
+
+  const tiers = [unseen.filter(matches), unseen, onTopic.filter(matches), onTopic];
+  const pool = tiers.find(tier => tier.length > 0);
+  return pool ? pool[Math.floor(Math.random() * pool.length)] : null;
+};
+
+/**
+ * Gets the next problem for the topic screen. 'mix' uses the bank for about half of
+ * the problems when it has one for the topic. classProblems (published by the student's
+ * coaches) are drawn as part of the bank. Throws ProblemBankError in 'bank' mode when
+ * the bank has nothing for the topic, and AIError when generation fails.
+ */
+export const drawProblem = async (
+  topic: string,
+  options: ProblemOptions,
+  mode: ProblemSourceMode,
+  seenIds?: Set<string>,
+  classProblems: BankProblem[] = []
+): Promise<Problem> => {
+  const isRandom = topic === RANDOM_TOPIC;
+
+  if (mode !== 'ai') {
+    const bank = [...classProblems, ...await loadProblemBank()];
+    const entry = pickBankProblem(bank, isRandom ? null : topic, options, seenIds);
+    if (entry && (mode === 'bank' || Math.random() < 0.5)) {
+      return bankProblemToProblem(entry, classProblems.includes(entry) ? 'authored' : 'bank');
+    }
+    if (!entry && mode === 'bank') {
+      throw new ProblemBankError(isRandom ? '题库为空，请切换到 AI 出题。' : `题库中暂无「${topic}」的题目，请换一个主题或切换到 AI 出题。`);
+    }
+  }
+
+  const generatedTopic = isRandom
+    ? TOPICS.filter(t => t !== RANDOM_TOPIC)[Math.floor(Math.random() * (TOPICS.length - 1))]
+    : topic;
+  return generateMathProblem(generatedTopic, options);
+};
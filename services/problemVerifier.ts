@@ -0,0 +1,124 @@
+import { Problem, ProblemVerification } from '../types';
+import { VERIFY_PROMPT } from '../constants';
+import { LLMSchema, getLLMProvider } from './llmProvider';
+import { AIError, withRetry } from './aiErrors';
+import { approxEqual, compileExpression, determinant, evaluateConstant, numericIntegral, numericLimit } from './mathEngine';
+
+// --- Problem Self-Verification ---
+// A generated problem is checked twice before the student sees it: locally, by evaluating
+// the machine-readable form of its answer (numericCheck), and by a second model call that
+// solves the problem without seeing the solution and compares final answers.
+
+export interface NumericCheck {
+  kind: 'limit' | 'integral' | 'determinant' | 'none';
+  expression?: string; // f(x) for limits and integrals, plain text (see services/mathEngine.ts)
+  point?: string;      // Limit point, e.g. "0", "pi/2", "inf"
+  lower?: string;
+  upper?: string;
+  matrix?: string[];   // Determinant rows, entries separated by commas
+  expected?: number;   // The problem's answer as a decimal
+}
+
+export const NUMERIC_CHECK_SCHEMA: LLMSchema = {
+  type: 'object',
+  description: "Machine-checkable form of the answer, when it is the value of a limit, definite integral or determinant.",
+  properties: {
+    kind: { type: 'string', enum: ['limit', 'integral', 'determinant', 'none'] },
+    expression: { type: 'string', description: "Plain-text expression in x, e.g. (exp(x) - 1 - x)/x^2" },
+    point: { type: 'string', description: "Limit point, e.g. 0, pi/2, inf, -inf" },
+    lower: { type: 'string', description: "Lower bound of the integral" },
+    upper: { type: 'string', description: "Upper bound of the integral" },
+    matrix: { type: 'array', items: { type: 'string' }, description: "Rows of the matrix, entries separated by commas" },
+    expected: { type: 'number', description: "The answer as a decimal number" },
+  },
+  required: ["kind"],
+};
+
+const VERIFY_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    finalAnswer: { type: 'string', description: "Your own final answer in LaTeX." },
+    numericValue: { type: 'number', description: "Your final answer as a decimal, if it is a real number." },
+    agreesWithReference: { type: 'boolean', description: "Whether your answer is mathematically equivalent to the reference answer." },
+    issue: { type: 'string', description: "What is wrong with the problem or the reference answer, if anything." },
+  },
+  required: ["finalAnswer", "agreesWithReference"],
+};
+
+/**
+ * Evaluates the numeric form of the answer locally. 'skipped' when there is nothing
+ * to evaluate or the expression cannot be parsed or computed.
+ */
+export const runNumericCheck = (check?: NumericCheck): ProblemVerification['numericCheck'] => {
+  if (!check || check.kind === 'none' || typeof check.expected !== 'number') return 'skipped';
+
+  try {
+    let actual: number | null = null;
+    switch (check.kind) {
+      case 'limit':
+        if (!check.expression || !check.point) return 'skipped';
+        actual = numericLimit(compileExpression(check.expression), evaluateConstant(check.point));
+        break;
+      case 'integral':
+        if (!check.expression || !check.lower || !check.upper) return 'skipped';
+        actual = numericIntegral(compileExpression(check.expression), evaluateConstant(check.lower), evaluateConstant(check.upper));
+        break;
+      case 'determinant':
+        if (!check.matrix?.length) return 'skipped';
+        actual = determinant(check.matrix.map(row => row.split(',').map(entry => evaluateConstant(entry))));
+        break;
+    }
+    if (actual === null || !Number.isFinite(actual)) return 'skipped';
+    return approxEqual(actual, check.expected) ? 'passed' : 'failed';
+  } catch (error) {
+    console.warn("Numeric check skipped:", error);
+    return 'skipped';
+  }
+};
+
+/**
+ * Runs both checks. Verification problems never block a problem: if the second
+ * model call fails, the result is based on the numeric check alone.
+ */
+export const verifyProblem = async (problem: Problem, numericCheck?: NumericCheck): Promise<ProblemVerification> => {
+  const numeric = runNumericCheck(numericCheck);
+  if (numeric === 'failed') {
+    return { status: 'unverified', numericCheck: numeric, note: '数值验算与给出的答案不一致' };
+  }
+
+  if (!problem.finalAnswer) {
+    return { status: numeric === 'passed' ? 'verified' : 'inconclusive', numericCheck: numeric };
+  }
+
+  try {
+    const prompt = `${VERIFY_PROMPT}\n题目：\n${problem.content}\n\n参考答案：${problem.finalAnswer}`;
+    const result = await withRetry(async signal => {
+      const jsonText = await getLLMProvider().generateText({
+        task: 'verify',
+        contents: prompt,
+        temperature: 0,
+        responseSchema: VERIFY_SCHEMA
+      }, signal);
+      if (!jsonText) throw new AIError('malformed', undefined, "Empty response from AI");
+      return JSON.parse(jsonText);
+    });
+
+    // A numeric comparison beats the verifier's own judgement of equivalence
+    const agrees = typeof result.numericValue === 'number' && typeof numericCheck?.expected === 'number'
+      ? approxEqual(result.numericValue, numericCheck.expected)
+      : result.agreesWithReference === true;
+    const independentAnswer = typeof result.finalAnswer === 'string' ? result.finalAnswer : undefined;
+
+    return agrees
+      ? { status: 'verified', numericCheck: numeric, independentAnswer }
+      : {
+          status: 'unverified',
+          numericCheck: numeric,
+          independentAnswer,
+          note: typeof result.issue === 'string' && result.issue.trim() ? result.issue.trim() : '独立求解得到的答案与给出的答案不一致'
+        };
+  } catch (error) {
+    console.error("AI Verify Error:", error);
+    return { status: numeric === 'passed' ? 'verified' : 'inconclusive', numericCheck: numeric };
+  }
+};
@@ -0,0 +1,106 @@
+import { Problem, ReviewSchedule } from '../types';
+import { countHints } from './attemptService';
+import { getLatestGrading, isConfident } from './gradingService';
+
+// --- Spaced Repetition ---
+// Notebook entries come back for review on an SM-2 schedule. Each review is done on a
+// fresh copy of the problem (no old chat), and its rating — the student's own, or the
+// one suggested by the tutor's verdict — sets the next interval and the ease factor.
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_RATING_LABELS: Record<ReviewRating, string> = {
+  again: '没做出来',
+  hard: '有点吃力',
+  good: '顺利',
+  easy: '很轻松'
+};
+
+// SM-2 response quality (0-5); below 3 the problem counts as forgotten
+const RATING_QUALITY: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Reviews fall due at the start of a day, so "today's reviews" do not trickle in by the hour
+const startOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/**
+ * The entry's schedule; entries never reviewed are first due the day after they were saved.
+ */
+export const getSchedule = (mistake: Problem): ReviewSchedule => mistake.review || {
+  easeFactor: INITIAL_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  dueAt: startOfDay(mistake.timestamp || 0) + DAY_MS
+};
+
+export const scheduleReview = (schedule: ReviewSchedule, rating: ReviewRating, now = Date.now()): ReviewSchedule => {
+  const quality = RATING_QUALITY[rating];
+  const easeFactor = Math.max(MIN_EASE, schedule.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  let repetitions = 0;
+  let intervalDays = 1;
+  if (quality >= 3) {
+    repetitions = schedule.repetitions + 1;
+    intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(schedule.intervalDays * easeFactor);
+  }
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: startOfDay(now) + intervalDays * DAY_MS,
+    lastReviewedAt: now
+  };
+};
+
+export const isDue = (mistake: Problem, now = Date.now()) => getSchedule(mistake).dueAt <= now;
+
+/**
+ * Due notebook entries, longest overdue first.
+ */
+export const getDueReviews = (mistakes: Problem[], now = Date.now()): Problem[] =>
+  mistakes
+    .filter(m => isDue(m, now))
+    .sort((a, b) => getSchedule(a).dueAt - getSchedule(b).dueAt);
+
+export const countDueByTopic = (mistakes: Problem[], now = Date.now()): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  getDueReviews(mistakes, now).forEach(m => counts[m.topic] = (counts[m.topic] || 0) + 1);
+  return counts;
+};
+
+export const getNextDueAt = (mistakes: Problem[]): number | null =>
+  mistakes.length > 0 ? Math.min(...mistakes.map(m => getSchedule(m).dueAt)) : null;
+
+/**
+ * Rating suggested by the tutor's latest verdict in the review chat: a correct answer
+ * is 'good', or 'hard' when it took more than one hint; anything else is 'again'.
+ * Null while nothing has been confidently graded.
+ */
+export const suggestRating = (problem: Problem): ReviewRating | null => {
+  const grading = getLatestGrading(problem.chatHistory);
+  if (!isConfident(grading) || grading.verdict === 'no_attempt') return null;
+  if (grading.verdict !== 'correct') return 'again';
+  return countHints(problem.chatHistory || []) > 1 ? 'hard' : 'good';
+};
+
+/**
+ * A fresh copy of a notebook entry to review on: new id, so the chat and the notebook
+ * entry stay separate, and no chat history. A review is not homework, even of a homework problem.
+ */
+export const createReviewProblem = (mistake: Problem): Problem => {
+  const { chatHistory, review, timestamp, assignmentId, assignmentItemId, ...problem } = mistake;
+  return { ...problem, id: `${mistake.id}_review_${Date.now()}`, reviewOfId: mistake.id };
+};
@@ -0,0 +1,179 @@
+import ExcelJS from 'exceljs';
+import { Class } from '../types';
+
+// --- Roster Import ---
+// Parses a student list (.xlsx or .csv) into editable rows and validates them,
+// so the coach can review problems before any account is created.
+
+export interface RosterRow {
+  rowNumber: number;  // Line in the source file, for the coach's reference
+  name: string;
+  username: string;
+  className: string;  // Optional; empty means "the class selected in the dashboard"
+  password: string;   // Optional initial password; empty means "same as username"
+  skip: boolean;
+}
+
+export type RosterIssue =
+  | 'empty_name'
+  | 'empty_username'
+  | 'invalid_username'
+  | 'duplicate_in_file'
+  | 'username_exists'
+  | 'unknown_class'
+  | 'missing_class'
+  | 'short_password';
+
+export const ROSTER_ISSUE_LABELS: Record<RosterIssue, string> = {
+  empty_name: '姓名为空',
+  empty_username: '账号为空',
+  invalid_username: '账号含非法字符',
+  duplicate_in_file: '文件内账号重复',
+  username_exists: '账号已存在',
+  unknown_class: '班级不存在',
+  missing_class: '未指定班级',
+  short_password: '初始密码少于4位'
+};
+
+// Usernames double as initial passwords and are typed on phones: keep them plain
+const USERNAME_PATTERN = /^[A-Za-z0-9_.@-]+$/;
+const MIN_PASSWORD_LENGTH = 4;
+
+// Accepted header spellings for each column (compared lower-cased and trimmed)
+const HEADER_ALIASES: Record<'name' | 'username' | 'className' | 'password', string[]> = {
+  name: ['name', '姓名'],
+  username: ['username', '账号'],
+  className: ['class', '班级'],
+  password: ['password', '初始密码', '密码']
+};
+
+// --- Parsing ---
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes ("") and
+ * newlines inside quotes. Strips a UTF-8 BOM as written by Excel.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const readXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const worksheet = workbook.getWorksheet(1);
+  if (!worksheet) throw new Error("Excel 文件为空");
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+      cells[colNumber - 1] = cell.text;
+    });
+    rows[rowNumber - 1] = Array.from(cells, c => c || '');
+  });
+  return Array.from(rows, r => r || []);
+};
+
+/**
+ * Reads a roster file into rows. The first line must be a header naming at least
+ * the name and username columns; class and initial-password columns are optional.
+ */
+export const parseRosterFile = async (file: File): Promise<RosterRow[]> => {
+  const table = file.name.toLowerCase().endsWith('.csv')
+    ? parseCsv(await file.text())
+    : await readXlsx(await file.arrayBuffer());
+
+  const headers = (table[0] || []).map(h => h.toLowerCase().trim());
+  const column = (key: keyof typeof HEADER_ALIASES) =>
+    headers.findIndex(h => HEADER_ALIASES[key].includes(h));
+
+  const nameCol = column('name');
+  const usernameCol = column('username');
+  if (nameCol === -1 || usernameCol === -1) {
+    throw new Error("文件格式错误。第一行必须包含 'name' (或 '姓名') 和 'username' (或 '账号') 列。");
+  }
+  const classCol = column('className');
+  const passwordCol = column('password');
+  const cell = (cells: string[], col: number) => (col > -1 ? cells[col] || '' : '').trim();
+
+  return table.slice(1)
+    .map((cells, i) => ({
+      rowNumber: i + 2,
+      name: cell(cells, nameCol),
+      username: cell(cells, usernameCol),
+      className: cell(cells, classCol),
+      password: cell(cells, passwordCol),
+      skip: false
+    }))
+    // Completely blank lines are layout, not data
+    .filter(r => r.name || r.username || r.className || r.password);
+};
+
+// --- Validation ---
+
+/**
+ * Problems of every row that is not skipped, keyed by rowNumber.
+ * requireClass: the importing coach has no class selected, so each row must name one.
+ */
+export const validateRoster = (
+  rows: RosterRow[],
+  existingUsernames: string[],
+  classes: Class[],
+  requireClass: boolean
+): Record<number, RosterIssue[]> => {
+  const existing = new Set(existingUsernames);
+  const counts = new Map<string, number>();
+  rows.filter(r => !r.skip && r.username).forEach(r => counts.set(r.username, (counts.get(r.username) || 0) + 1));
+
+  const result: Record<number, RosterIssue[]> = {};
+  rows.forEach(row => {
+    if (row.skip) return;
+    const issues: RosterIssue[] = [];
+    if (!row.name.trim()) issues.push('empty_name');
+    if (!row.username) issues.push('empty_username');
+    else if (!USERNAME_PATTERN.test(row.username)) issues.push('invalid_username');
+    if ((counts.get(row.username) || 0) > 1) issues.push('duplicate_in_file');
+    if (existing.has(row.username)) issues.push('username_exists');
+    if (row.className && !classes.some(c => c.name === row.className)) issues.push('unknown_class');
+    if (!row.className && requireClass) issues.push('missing_class');
+    if (row.password && row.password.length < MIN_PASSWORD_LENGTH) issues.push('short_password');
+    if (issues.length > 0) result[row.rowNumber] = issues;
+  });
+  return result;
+};
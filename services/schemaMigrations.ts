@@ -0,0 +1,80 @@
+import { User, Problem, Message } from '../types';
+
+// --- Persisted Data Schema ---
+// Every stored User and Problem carries a schemaVersion. Records written before
+// versioning existed have none and are treated as version 1. On load, the runner
+// applies each migration newer than the record's version, in order.
+
+export const SCHEMA_VERSION = 2;
+
+interface Migration {
+  version: number;     // Version the record has AFTER this migration
+  description: string;
+  up: (record: any) => any;
+}
+
+// Extracts "image/png" from "data:image/png;base64,...". Legacy images were always sent as JPEG.
+const mimeTypeFromDataUrl = (data: string) => {
+  const match = /^data:([^;,]+)[;,]/.exec(data);
+  return match ? match[1] : 'image/jpeg';
+};
+
+const PROBLEM_MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Move legacy Message.image into Message.attachment and default missing difficulty',
+    up: (problem) => ({
+      ...problem,
+      difficulty: problem.difficulty || 'Medium',
+      chatHistory: problem.chatHistory?.map((msg: Message & { image?: string }) => {
+        const { image, ...rest } = msg;
+        if (!image || rest.attachment) return rest;
+        return {
+          ...rest,
+          attachment: {
+            type: 'image',
+            mimeType: mimeTypeFromDataUrl(image),
+            data: image,
+            name: 'image'
+          }
+        };
+      })
+    })
+  }
+];
+
+const USER_MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Normalise login stats that older versions left undefined',
+    up: (user) => ({
+      ...user,
+      isFirstLogin: !!user.isFirstLogin,
+      loginCount: user.loginCount || 0
+    })
+  }
+];
+
+const runMigrations = <T>(record: any, migrations: Migration[]): T => {
+  const fromVersion: number = record.schemaVersion || 1;
+  if (fromVersion > SCHEMA_VERSION) {
+    // Written by a newer app version; leave it untouched rather than guess
+    return record;
+  }
+
+  const upgraded = migrations
+    .filter(m => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, m) => m.up(current), record);
+
+  return { ...upgraded, schemaVersion: SCHEMA_VERSION };
+};
+
+export const migrateProblem = (record: any): Problem => runMigrations<Problem>(record, PROBLEM_MIGRATIONS);
+
+export const migrateUser = (record: any): User => runMigrations<User>(record, USER_MIGRATIONS);
+
+/**
+ * Stamps a record with the current schema version before it is persisted.
+ */
+export const withSchemaVersion = <T extends object>(record: T): T => ({ ...record, schemaVersion: SCHEMA_VERSION });
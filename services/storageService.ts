@@ -0,0 +1,208 @@
+// --- Storage Adapters ---
+// All persisted app data goes through a StorageAdapter so the same services can run
+// against the browser (localStorage / IndexedDB) or a shared classroom server (HTTP).
+// Values are JSON-serialisable documents stored under string keys.
+
+export interface StorageAdapter {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+// 'sqlite' is only used by the Node server (server/), which injects its own adapter
+export type StorageBackend = 'local' | 'indexeddb' | 'http' | 'sqlite';
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  apiUrl?: string; // Base URL of the REST server, required for the 'http' backend
+}
+
+// --- localStorage ---
+
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  async get<T>(key: string): Promise<T | null> {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  },
+  async set<T>(key: string, value: T): Promise<void> {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+  async remove(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+});
+
+// --- IndexedDB ---
+
+const IDB_NAME = 'feynmanmath';
+const IDB_VERSION = 2;
+const KV_STORE = 'kv';
+
+// Normalised stores for the mistake notebook (see mistakeStore.ts).
+// Keys are compound and start with the userId so a user's records form one key range.
+export const PROBLEMS_STORE = 'problems';       // [userId, problemId]
+export const MESSAGES_STORE = 'messages';       // [userId, problemId, messageIndex]
+export const ATTACHMENTS_STORE = 'attachments'; // [userId, problemId, messageIndex], binary data as Blob
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(KV_STORE)) {
+        db.createObjectStore(KV_STORE);
+      }
+      if (!db.objectStoreNames.contains(PROBLEMS_STORE)) {
+        db.createObjectStore(PROBLEMS_STORE, { keyPath: ['userId', 'id'] });
+      }
+      if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+        db.createObjectStore(MESSAGES_STORE, { keyPath: ['userId', 'problemId', 'messageIndex'] });
+      }
+      if (!db.objectStoreNames.contains(ATTACHMENTS_STORE)) {
+        db.createObjectStore(ATTACHMENTS_STORE, { keyPath: ['userId', 'problemId', 'messageIndex'] });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Open lazily and reuse the same connection for every call
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const getDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) dbPromise = openDatabase();
+  return dbPromise;
+};
+
+/**
+ * Key range covering every compound key that starts with the given userId.
+ * Arrays sort after all strings and numbers, so [userId, []] is a safe upper bound.
+ */
+export const userKeyRange = (userId: string): IDBKeyRange =>
+  IDBKeyRange.bound([userId], [userId, []]);
+
+export const createIndexedDBAdapter = (): StorageAdapter => ({
+  async get<T>(key: string): Promise<T | null> {
+    const db = await getDatabase();
+    const store = db.transaction(KV_STORE, 'readonly').objectStore(KV_STORE);
+    const value = await promisifyRequest(store.get(key));
+    return value === undefined ? null : value as T;
+  },
+  async set<T>(key: string, value: T): Promise<void> {
+    const db = await getDatabase();
+    const store = db.transaction(KV_STORE, 'readwrite').objectStore(KV_STORE);
+    await promisifyRequest(store.put(value, key));
+  },
+  async remove(key: string): Promise<void> {
+    const db = await getDatabase();
+    const store = db.transaction(KV_STORE, 'readwrite').objectStore(KV_STORE);
+    await promisifyRequest(store.delete(key));
+  }
+});
+
+// --- HTTP / REST ---
+
+let apiToken: string | null = null;
+
+/**
+ * Sets the session token the server issued at login. It is sent with every request,
+ * and the server only answers requests that carry a valid one.
+ */
+export const setApiToken = (token: string | null) => {
+  apiToken = token;
+};
+
+export const getApiAuthHeaders = (): Record<string, string> =>
+  apiToken ? { Authorization: `Bearer ${apiToken}` } : {};
+
+export const createHttpAdapter = (apiUrl: string): StorageAdapter => {
+  const baseUrl = apiUrl.replace(/\/+$/, '');
+  const urlFor = (key: string) => `${baseUrl}/storage/${encodeURIComponent(key)}`;
+
+  return {
+    async get<T>(key: string): Promise<T | null> {
+      const response = await fetch(urlFor(key), { headers: getApiAuthHeaders() });
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Storage read failed (${response.status})`);
+      return response.json();
+    },
+    async set<T>(key: string, value: T): Promise<void> {
+      const response = await fetch(urlFor(key), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getApiAuthHeaders() },
+        body: JSON.stringify(value)
+      });
+      if (!response.ok) throw new Error(`Storage write failed (${response.status})`);
+    },
+    async remove(key: string): Promise<void> {
+      const response = await fetch(urlFor(key), { method: 'DELETE', headers: getApiAuthHeaders() });
+      if (!response.ok && response.status !== 404) throw new Error(`Storage delete failed (${response.status})`);
+    }
+  };
+};
+
+// --- Configuration ---
+
+let activeConfig: StorageConfig | null = null;
+let activeAdapter: StorageAdapter | null = null;
+
+export const getStorageConfig = (): StorageConfig => {
+  if (!activeConfig) {
+    const backend = (process.env.STORAGE_BACKEND || 'indexeddb') as StorageBackend;
+    activeConfig = { backend, apiUrl: process.env.STORAGE_API_URL };
+  }
+  return activeConfig;
+};
+
+export const createStorageAdapter = (config: StorageConfig): StorageAdapter => {
+  switch (config.backend) {
+    case 'indexeddb':
+      return createIndexedDBAdapter();
+    case 'http':
+      if (!config.apiUrl) throw new Error("STORAGE_API_URL is required for the 'http' storage backend");
+      return createHttpAdapter(config.apiUrl);
+    case 'local':
+      return createLocalStorageAdapter();
+    case 'sqlite':
+      throw new Error("The 'sqlite' backend only exists on the server; inject it with configureStorage");
+    default:
+      throw new Error(`Unknown storage backend: ${config.backend}`);
+  }
+};
+
+// With the 'http' backend the shared server owns login, roster and class logic, so the
+// services delegate those operations to its REST API instead of running them locally.
+export const useRemoteApi = () => getStorageConfig().backend === 'http';
+
+/**
+ * Returns the shared data store selected by config (users, mistakes, sessions).
+ */
+export const getStorage = (): StorageAdapter => {
+  if (!activeAdapter) {
+    activeAdapter = createStorageAdapter(getStorageConfig());
+  }
+  return activeAdapter;
+};
+
+/**
+ * Overrides the env-based config and, optionally, the adapter itself.
+ * The Node server uses this to run the services on top of SQLite.
+ */
+export const configureStorage = (config: StorageConfig, adapter?: StorageAdapter) => {
+  activeConfig = config;
+  activeAdapter = adapter || null;
+};
+
+const deviceAdapter = createLocalStorageAdapter();
+
+/**
+ * Device-scoped storage for state that must never be shared between machines,
+ * such as which user is logged in on this browser.
+ */
+export const getDeviceStorage = (): StorageAdapter => deviceAdapter;
@@ -0,0 +1,96 @@
+import { Problem, User } from '../types';
+
+// --- Cross-Tab Synchronization ---
+// Every tab of the app keeps its own React state. Writes are broadcast to the other
+// tabs over a BroadcastChannel, and notebook edits travel as per-problem changes so
+// concurrent edits merge by problem id instead of the last writer clobbering the rest.
+
+export interface MistakeChanges {
+  upserts: Problem[];   // Added or modified problems
+  removedIds: string[];
+}
+
+export type SyncEvent =
+  | { type: 'mistakes', userId: string, changes: MistakeChanges }
+  | { type: 'session', userId: string, problem: Problem | null }
+  | { type: 'auth', user: User | null };
+
+const CHANNEL_NAME = 'feynmanmath-sync';
+
+let channel: BroadcastChannel | null = null;
+
+// Only browsers sync; the Node server shares authService but has no tabs
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof window !== 'undefined' && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+export const publishSyncEvent = (event: SyncEvent) => {
+  getChannel()?.postMessage(event);
+};
+
+/**
+ * Listens for events published by OTHER tabs. Returns an unsubscribe function.
+ */
+export const subscribeSyncEvents = (listener: (event: SyncEvent) => void): (() => void) => {
+  const ch = getChannel();
+  if (!ch) return () => {};
+  const handler = (e: MessageEvent<SyncEvent>) => listener(e.data);
+  ch.addEventListener('message', handler);
+  return () => ch.removeEventListener('message', handler);
+};
+
+// Last queued call per lock name, for runtimes without Web Locks
+const lockQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs a read-modify-write exclusively across tabs (Web Locks API), so two tabs
+ * saving at the same moment cannot interleave. Without Web Locks (the Node server)
+ * calls with the same name queue up within the process instead.
+ * Calls must not nest under the same name, or they wait for themselves.
+ */
+export const withCrossTabLock = async <T>(name: string, fn: () => Promise<T>): Promise<T> => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(name, fn);
+  }
+  const result = (lockQueues.get(name) || Promise.resolve()).then(fn);
+  const queued = result.catch(() => {});
+  lockQueues.set(name, queued);
+  queued.then(() => {
+    if (lockQueues.get(name) === queued) lockQueues.delete(name);
+  });
+  return result;
+};
+
+// --- Notebook merging ---
+
+export const diffMistakes = (before: Problem[], after: Problem[]): MistakeChanges => {
+  const beforeById = new Map(before.map(p => [p.id, p]));
+  const afterIds = new Set(after.map(p => p.id));
+  return {
+    // State updates always create new objects, so reference inequality means "changed"
+    upserts: after.filter(p => beforeById.get(p.id) !== p),
+    removedIds: before.filter(p => !afterIds.has(p.id)).map(p => p.id)
+  };
+};
+
+export const hasMistakeChanges = (changes: MistakeChanges) =>
+  changes.upserts.length > 0 || changes.removedIds.length > 0;
+
+/**
+ * Applies changes by problem id: known problems are replaced in place, new ones are
+ * prepended (the notebook lists newest first) and removals are dropped.
+ */
+export const applyMistakeChanges = (mistakes: Problem[], changes: MistakeChanges): Problem[] => {
+  const upsertsById = new Map(changes.upserts.map(p => [p.id, p]));
+  const removed = new Set(changes.removedIds);
+
+  const updated = mistakes
+    .filter(p => !removed.has(p.id))
+    .map(p => upsertsById.get(p.id) || p);
+  const added = changes.upserts.filter(p => !mistakes.some(m => m.id === p.id));
+
+  return [...added, ...updated];
+};
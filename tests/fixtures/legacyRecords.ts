@@ -0,0 +1,62 @@
+// --- Stored record snapshots ---
+// Shapes as earlier versions of the app wrote them to storage, for the migration tests.
+
+// Version 1 (no schemaVersion): unsalted SHA-256 hash, login stats never set
+export const V1_USER = {
+  id: 'u_1700000000000_abc123def',
+  username: 'zhangsan',
+  passwordHash: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+  name: '张三',
+  role: 'student'
+};
+
+// Version 1: no difficulty, screenshots stored as Message.image data URLs
+export const V1_PROBLEM = {
+  id: 'p_1700000000000',
+  topic: '极限与连续',
+  content: '**题目:** 求 $\\lim_{x \\to 0} \\frac{\\sin x}{x}$。',
+  timestamp: 1700000000000,
+  chatHistory: [
+    { id: 'm1', sender: 'model', text: '请写出你的思路。' },
+    { id: 'm2', sender: 'user', text: '见图', image: 'data:image/png;base64,iVBORw0KGgo=' },
+    { id: 'm3', sender: 'user', text: '再补一张', image: 'iVBORw0KGgo=' },
+    {
+      id: 'm4',
+      sender: 'user',
+      text: '已上传',
+      image: 'data:image/png;base64,AAAA',
+      attachment: { type: 'file', mimeType: 'application/pdf', data: 'JVBERi0=', name: 'solution.pdf' }
+    }
+  ]
+};
+
+// Current version: must come through unchanged
+export const V2_USER = {
+  id: 'coach_1750000000000_xyz987uvw',
+  username: 'coach',
+  passwordHash: 'aa',
+  passwordSalt: 'bb',
+  passwordIterations: 310000,
+  name: '李教练',
+  role: 'admin',
+  isFirstLogin: false,
+  loginCount: 12,
+  schemaVersion: 2
+};
+
+export const V2_PROBLEM = {
+  id: 'p_1750000000000',
+  topic: '级数',
+  content: '**题目:** 判断 $\\sum 1/n^2$ 的敛散性。',
+  difficulty: 'Hard',
+  level: 'final',
+  chatHistory: [
+    {
+      id: 'm1',
+      sender: 'user',
+      text: '见附件',
+      attachment: { type: 'image', mimeType: 'image/jpeg', data: 'data:image/jpeg;base64,/9j/', name: 'photo.jpg' }
+    }
+  ],
+  schemaVersion: 2
+};
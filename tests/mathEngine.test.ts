@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression, numericIntegral, numericLimit } from '../services/mathEngine';
+
+const limit = (expression: string, point: number) => numericLimit(compileExpression(expression), point);
+
+const integrate = (expression: string, a: number, b: number) => numericIntegral(compileExpression(expression), a, b);
+
+describe('numericLimit', () => {
+  it('finds limits at a point and at infinity', () => {
+    expect(limit('sin(x)/x', 0)).toBeCloseTo(1, 6);
+    expect(limit('(1-cos(x))/x^2', 0)).toBeCloseTo(0.5, 6);
+    expect(limit('(1+1/x)^x', Infinity)).toBeCloseTo(Math.E, 6);
+  });
+
+  it('returns null when the limit does not exist or is infinite', () => {
+    expect(limit('1/x^2', 0)).toBeNull();
+    expect(limit('ln(x)', 0)).toBeNull();
+    expect(limit('abs(x)/x', 0)).toBeNull();
+    expect(limit('x^2', Infinity)).toBeNull();
+  });
+});
+
+describe('numericIntegral', () => {
+  it('integrates smooth functions and infinite bounds', () => {
+    expect(integrate('sin(x)', 0, Math.PI)).toBeCloseTo(2, 8);
+    expect(integrate('exp(-x^2)', -Infinity, Infinity)).toBeCloseTo(Math.sqrt(Math.PI), 8);
+    expect(integrate('1/x^2', 1, Infinity)).toBeCloseTo(1, 8);
+  });
+
+  it('integrates integrable endpoint singularities', () => {
+    expect(integrate('1/sqrt(x)', 0, 1)).toBeCloseTo(2, 4);
+    expect(integrate('ln(x)', 0, 1)).toBeCloseTo(-1, 8);
+  });
+
+  it('returns null for divergent integrals', () => {
+    expect(integrate('1/x', 0, 1)).toBeNull();
+    expect(integrate('1/x', -1, 1)).toBeNull();
+    expect(integrate('1/x', 1, Infinity)).toBeNull();
+    expect(integrate('1/x^2', 0, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION, migrateProblem, migrateUser, withSchemaVersion } from '../services/schemaMigrations';
+import { V1_PROBLEM, V1_USER, V2_PROBLEM, V2_USER } from './fixtures/legacyRecords';
+
+describe('migrateUser', () => {
+  it('upgrades an unversioned user and fills in login stats', () => {
+    expect(migrateUser(V1_USER)).toEqual({
+      ...V1_USER,
+      isFirstLogin: false,
+      loginCount: 0,
+      schemaVersion: SCHEMA_VERSION
+    });
+  });
+
+  it('leaves a current user unchanged', () => {
+    expect(migrateUser(V2_USER)).toEqual(V2_USER);
+  });
+
+  it('leaves a user written by a newer version untouched', () => {
+    const future = { ...V2_USER, schemaVersion: SCHEMA_VERSION + 1, loginCount: undefined };
+    expect(migrateUser(future)).toBe(future);
+  });
+});
+
+describe('migrateProblem', () => {
+  const migrated = migrateProblem(V1_PROBLEM);
+  const [plain, pngImage, bareImage, withAttachment] = migrated.chatHistory!;
+
+  it('stamps the current version and defaults a missing difficulty', () => {
+    expect(migrated.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(migrated.difficulty).toBe('Medium');
+    expect(migrated.content).toBe(V1_PROBLEM.content);
+  });
+
+  it('keeps messages without an image as they were', () => {
+    expect(plain).toEqual(V1_PROBLEM.chatHistory[0]);
+  });
+
+  it('moves a legacy Message.image into an image attachment', () => {
+    expect(pngImage).toEqual({
+      id: 'm2',
+      sender: 'user',
+      text: '见图',
+      attachment: { type: 'image', mimeType: 'image/png', data: 'data:image/png;base64,iVBORw0KGgo=', name: 'image' }
+    });
+    expect(pngImage).not.toHaveProperty('image');
+  });
+
+  it('assumes JPEG when the legacy image is not a data URL', () => {
+    expect(bareImage.attachment).toMatchObject({ type: 'image', mimeType: 'image/jpeg', data: 'iVBORw0KGgo=' });
+  });
+
+  it('keeps an existing attachment and drops the legacy image next to it', () => {
+    expect(withAttachment.attachment).toEqual(V1_PROBLEM.chatHistory[3].attachment);
+    expect(withAttachment).not.toHaveProperty('image');
+  });
+
+  it('leaves a current problem unchanged', () => {
+    expect(migrateProblem(V2_PROBLEM)).toEqual(V2_PROBLEM);
+  });
+
+  it('is idempotent', () => {
+    expect(migrateProblem(migrated)).toEqual(migrated);
+  });
+
+  it('handles a problem without chat history', () => {
+    const { chatHistory, ...bare } = V1_PROBLEM;
+    expect(migrateProblem(bare)).toEqual({ ...bare, difficulty: 'Medium', chatHistory: undefined, schemaVersion: SCHEMA_VERSION });
+  });
+});
+
+describe('withSchemaVersion', () => {
+  it('stamps records with the current version before they are saved', () => {
+    expect(withSchemaVersion(V1_USER)).toEqual({ ...V1_USER, schemaVersion: SCHEMA_VERSION });
+  });
+});
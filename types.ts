@@ -12,13 +12,50 @@ export interface Attachment {
   isText?: boolean;
 }
 
+export type GradingVerdict = 'correct' | 'partial' | 'incorrect' | 'no_attempt';
+
+export type ErrorCategory = 'conceptual' | 'computational' | 'logical' | 'incomplete' | 'notation' | 'none';
+
+// Structured judgement of one student submission, produced next to the tutor's reply
+export interface Grading {
+  verdict: GradingVerdict;
+  firstFaultyStep?: string;     // The first step that goes wrong, quoted or summarized
+  errorCategory?: ErrorCategory;
+  confidence: number;           // 0-1, how sure the grader is
+}
+
 export interface Message {
   id: string;
   sender: Sender;
   text: string;
-  image?: string; // Legacy support for backward compatibility
   attachment?: Attachment;
   isThinking?: boolean;
+  grading?: Grading; // On AI replies: verdict on the student message just before it
+}
+
+export type Difficulty = 'Easy' | 'Medium' | 'Hard';
+
+// 预赛 (preliminary) or 决赛 (final) round of the national competition
+export type CompetitionLevel = 'preliminary' | 'final';
+
+// Where a problem came from: AI generation or the curated problem bank
+export type ProblemOrigin = 'generated' | 'bank' | 'authored';
+
+// Outcome of the optional self-check run on generated problems (services/problemVerifier.ts)
+export interface ProblemVerification {
+  status: 'verified' | 'unverified' | 'inconclusive'; // inconclusive: nothing to compare, e.g. proofs
+  numericCheck: 'passed' | 'failed' | 'skipped';      // Local evaluation of a limit/integral/determinant
+  independentAnswer?: string;                          // Final answer of a second, independent solve
+  note?: string;                                       // Why the problem is unverified
+}
+
+// SM-2 review schedule of a notebook entry (services/reviewScheduler.ts)
+export interface ReviewSchedule {
+  easeFactor: number;          // Interval multiplier, at least 1.3; starts at 2.5
+  intervalDays: number;
+  repetitions: number;         // Successful reviews in a row
+  dueAt: number;
+  lastReviewedAt?: number;
 }
 
 export interface Problem {
@@ -28,32 +65,161 @@ export interface Problem {
   source?: string;             // Origin/Source of the problem (e.g. 12th Competition)
   feynmanExplanation?: string; // Pre-generated Feynman explanation
   standardSolution?: string;   // Pre-generated standard solution
-  difficulty: 'Easy' | 'Medium' | 'Hard';
+  finalAnswer?: string;        // Short final result in LaTeX; absent for proof problems
+  verification?: ProblemVerification;
+  origin?: ProblemOrigin;      // Absent on problems saved before the bank existed (all generated)
+  bankId?: string;             // Id of the bank or coach-authored entry this problem was drawn from
+  difficulty: Difficulty;
+  level?: CompetitionLevel;    // Absent on problems generated before levels existed
+  parentProblemId?: string;    // Set on an easier follow-up ("降级挑战") to the problem it came from
+  variantOfId?: string;        // Set on a fresh variant of a notebook entry ("换题再练") to that entry
+  masteredAt?: number;         // On notebook entries: when a variant of the problem was solved
+  assignmentId?: string;       // Set on homework problems, with the item of the assignment they answer
+  assignmentItemId?: string;
+  review?: ReviewSchedule;     // On notebook entries; absent until the first review (due the day after saving)
+  reviewOfId?: string;         // Set on the fresh copy a review is done on, to the notebook entry it reviews
   timestamp?: number;
   chatHistory?: Message[];     // Persisted chat history for this problem
+  schemaVersion?: number;      // Stored data version, see services/schemaMigrations.ts
 }
 
 export enum AppState {
   Login,
+  InitialSetup, // First run: create the administrator account
   ChangePassword,
   TopicSelection,
   ProblemActive,
   MistakeNotebook,
+  MockExam,      // Timed paper without the tutor, and its score report
   CoachDashboard, // List of students
   CoachAnalytics // Specific student analysis
 }
 
-export type UserRole = 'student' | 'coach';
+// admin: manages coaches and classes; coach: manages the students of their own classes
+export type UserRole = 'student' | 'coach' | 'admin';
 
 export interface User {
   id: string;
   username: string;
   passwordHash: string;
+  passwordSalt?: string;       // Hex PBKDF2 salt; absent on legacy unsalted SHA-256 hashes
+  passwordIterations?: number; // PBKDF2 iteration count used for passwordHash
   name: string;
   role: UserRole;
   isFirstLogin: boolean;
   lastLogin?: number;  // Timestamp of the login BEFORE the current session
   loginCount?: number; // Total number of logins
+  failedLoginAttempts?: number; // Consecutive wrong passwords since the last success
+  lockedUntil?: number;         // Login blocked until this timestamp
+  deactivatedAt?: number;       // Set while the account is deactivated (login blocked, data kept)
+  classIds?: string[];          // Classes a student belongs to
+  schemaVersion?: number;
+}
+
+export interface Class {
+  id: string;
+  name: string;
+  coachIds: string[]; // Coaches who can see and manage this class
+  createdAt: number;
+}
+
+// A curated problem with a verified source, loaded from public/problem-bank (see services/problemBank.ts)
+export interface BankProblem {
+  id: string;
+  topic: string;               // One of TOPICS
+  difficulty: Difficulty;
+  level?: CompetitionLevel;
+  content: string;
+  standardSolution: string;
+  feynmanExplanation?: string;
+  finalAnswer?: string;
+  source: string;              // Verified origin, e.g. 第一届全国大学生数学竞赛预赛（非数学类）
+}
+
+// A problem written or imported by a coach (services/authoredProblemService.ts).
+// Drafts are only visible to coaches; published problems join the bank for students of the listed classes.
+export interface AuthoredProblem extends BankProblem {
+  authorId: string;
+  authorName: string;
+  status: 'draft' | 'published';
+  classIds: string[];          // Classes the problem is published to
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Where the topic screen draws problems from
+export type ProblemSourceMode = 'ai' | 'bank' | 'mix';
+
+export type AttemptOutcome = 'solved' | 'partial' | 'incorrect' | 'gave_up' | 'no_attempt';
+
+// One practice session on one problem, from opening it to leaving it (services/attemptService.ts).
+// Kept for every problem, unlike the notebook, which only holds the ones the student missed.
+export interface Attempt {
+  id: string;
+  problem: Omit<Problem, 'chatHistory'>; // Snapshot; topic and difficulty are read from here
+  startedAt: number;
+  updatedAt: number;
+  endedAt?: number;            // Absent while the student is still on the problem
+  hintsUsed: number;           // Tutor replies that guided the student before a correct answer
+  outcome: AttemptOutcome;     // Derived from the chat; final once endedAt is set
+  chat: Message[];             // Attachments are kept by name only, without their data
+}
+
+// One task of a homework set: a problem chosen by the coach, or a topic from which each
+// student draws their own problem when first opening it
+export interface AssignmentItem {
+  id: string;
+  topic: string;
+  difficulty: Difficulty;
+  problem?: Omit<Problem, 'chatHistory'>;
+  sourceMode?: ProblemSourceMode; // For topic items: where the student's problem is drawn from
+}
+
+// A homework set assigned by a coach (services/assignmentService.ts). Students of the listed
+// classes, including ones who join later, get it as well as the listed students.
+export interface Assignment {
+  id: string;
+  title: string;
+  coachId: string;
+  coachName: string;
+  items: AssignmentItem[];
+  studentIds: string[];
+  classIds: string[];
+  dueAt: number;
+  createdAt: number;
+}
+
+// A student's work on one homework item: the problem with its chat, kept like a notebook entry
+export interface HomeworkRecord {
+  assignmentId: string;
+  itemId: string;
+  problem: Problem;
+  startedAt: number;
+  updatedAt: number;
+  outcome: AttemptOutcome;     // Derived from the chat, like an Attempt
+  completedAt?: number;        // First time an answer was graded, or the student gave up
+}
+
+// One problem of a mock exam, with the student's answer and, after submission, its grading
+export interface ExamQuestion {
+  problem: Problem;
+  points: number;
+  answerText: string;
+  attachment?: Attachment;
+  grading?: Grading;           // Absent until graded, and on unanswered questions
+}
+
+// A timed mock exam (services/examService.ts). Kept until the student closes its report,
+// so a reload resumes the paper or the report.
+export interface Exam {
+  id: string;
+  difficulty: Difficulty;
+  level: CompetitionLevel;
+  startedAt: number;
+  endsAt: number;              // The paper is submitted automatically at this time
+  submittedAt?: number;
+  gradedAt?: number;           // End of the first grading pass; unanswered questions are settled then
+  questions: ExamQuestion[];
 }
 
 // Associate mistakes with specific users in our "Database"
@@ -62,6 +228,17 @@ export interface UserData {
   mistakes: Problem[];
 }
 
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  Easy: '基础',
+  Medium: '中等',
+  Hard: '困难'
+};
+
+export const LEVEL_LABELS: Record<CompetitionLevel, string> = {
+  preliminary: '预赛',
+  final: '决赛'
+};
+
 export const TOPICS = [
   "极限与连续性",
   "导数及其应用",